@@ -1,22 +1,33 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import {FHE, euint128} from "@fhevm/solidity/lib/FHE.sol";
-import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {FHE, ebool, euint64, euint128, externalEuint64, externalEuint128} from "@fhevm/solidity/lib/FHE.sol";
+import {ZamaConfig, ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {IERC7984} from "@openzeppelin/confidential-contracts/interfaces/IERC7984.sol";
+import {OwnableUpgradeable} from "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import {Address} from "@openzeppelin/contracts/utils/Address.sol";
+import {ReentrancyGuardTransient} from "@openzeppelin/contracts/utils/ReentrancyGuardTransient.sol";
+import {PrismLockAttestations} from "./PrismLockAttestations.sol";
+import {PrismLockBalances} from "./PrismLockBalances.sol";
+import {PrismLockSettings} from "./PrismLockSettings.sol";
+import {PrismLockStats} from "./PrismLockStats.sol";
+import {PrismLockStorage} from "./PrismLockStorage.sol";
 
 /// @title PrismLock
-/// @notice Time-locked ETH vault that stores stake balances as encrypted values.
-contract PrismLock is ZamaEthereumConfig {
-    uint64 public constant MIN_LOCK_DURATION = 1 days;
-    uint64 public constant MAX_LOCK_DURATION = 365 days;
-
-    struct StakeData {
-        euint128 encryptedAmount;
-        uint64 lockDuration;
-        uint64 startTimestamp;
-        bool withdrawalRequested;
-        bool exists;
-    }
+/// @notice Time-locked vault for ETH and allow-listed ERC-7984 tokens that stores stake balances as encrypted values.
+/// @dev ETH deposited through `deposit` joins a pooled, encrypted per-user balance. Stakes allocated from that balance
+/// with encrypted inputs never expose their amount until the owner withdraws. Token stakes move in and out through
+/// encrypted transfers and never need a public decryption. Deployed behind a transparent proxy; new state variables
+/// must only be appended to `PrismLockStorage` so existing stakes keep their slots across upgrades. ETH payouts that
+/// the recipient rejects are credited to a claimable balance instead of reverting, and are pulled later through
+/// `claim`. Attestations, balances, configuration and account settings fall through to the `PrismLockAttestations`,
+/// `PrismLockBalances` and `PrismLockSettings` modules, which run on the same storage.
+contract PrismLock is ZamaEthereumConfig, OwnableUpgradeable, ReentrancyGuardTransient, PrismLockStorage {
+    /// @notice Penalty charged on an exit at the very start of a lock, decaying linearly to zero at maturity.
+    uint64 public constant EARLY_EXIT_PENALTY_BPS = 2_000;
+    /// @notice Cap on the penalty-pool bonus paid to a matured ETH stake, relative to its principal.
+    uint64 public constant MATURITY_BONUS_BPS = 500;
+    uint64 private constant BPS_DENOMINATOR = 10_000;
 
     struct StakeSummary {
         bytes32 encryptedAmount;
@@ -25,59 +36,571 @@ contract PrismLock is ZamaEthereumConfig {
         uint64 lockDuration;
         bool withdrawalRequested;
         bool exists;
+        address owner;
+        address token;
+        bytes32 encryptedReward;
+        address beneficiary;
+        bool vesting;
+        uint64 cliffDuration;
+        uint128 claimedAmount;
+        bytes32 encryptedPendingClaim;
+        bool claimableNow;
+        address heir;
+        uint64 inactivityPeriod;
+        bytes32 encryptedLockDuration;
+        bytes32 encryptedUnlockTimestamp;
+        bytes32 encryptedMaturityCheck;
     }
 
-    mapping(address => StakeData) private _stakes;
+    /// @notice Emitted when a sponsor adds ETH to the reward pool.
+    /// @param sponsor Account that funded the pool.
+    /// @param amount Amount added, in wei.
+    event RewardsFunded(address indexed sponsor, uint256 amount);
+    /// @notice Emitted when a position is opened.
+    /// @param user Owner of the stake.
+    /// @param stakeId Identifier of the stake.
+    /// @param lockDuration Lock duration in seconds; a lower bound for private-duration stakes.
+    /// @param encryptedAmount Handle of the encrypted amount.
+    event StakeCreated(address indexed user, uint256 indexed stakeId, uint64 lockDuration, bytes32 encryptedAmount);
+    /// @notice Emitted when a stake is paid for by another account than its owner.
+    /// @param funder Account that sent the ETH.
+    /// @param user Owner of the stake.
+    /// @param stakeId Identifier of the stake.
+    event StakeFunded(address indexed funder, address indexed user, uint256 indexed stakeId);
+    /// @notice Emitted when the heir of an inactive owner requests the withdrawal of a stake.
+    /// @param user Owner of the stake.
+    /// @param stakeId Identifier of the stake.
+    /// @param heir Heir that becomes the beneficiary.
+    event StakeInherited(address indexed user, uint256 indexed stakeId, address indexed heir);
+    /// @notice Emitted when the hidden unlock time of a private-duration stake is compared with the current time.
+    /// @param user Owner of the stake.
+    /// @param stakeId Identifier of the stake.
+    /// @param encryptedMatured Publicly decryptable handle of the comparison.
+    event MaturityCheckRequested(address indexed user, uint256 indexed stakeId, bytes32 encryptedMatured);
+    /// @notice Emitted alongside `StakeCreated` when the stake holds a confidential token.
+    /// @param user Owner of the stake.
+    /// @param stakeId Identifier of the stake.
+    /// @param token ERC-7984 token staked.
+    event TokenStakeCreated(address indexed user, uint256 indexed stakeId, address indexed token);
+    /// @notice Emitted when a token stake is returned through an encrypted transfer.
+    /// @param user Owner of the stake.
+    /// @param stakeId Identifier of the closed stake.
+    /// @param token ERC-7984 token transferred.
+    /// @param recipient Account that received the tokens.
+    /// @param encryptedAmount Handle of the transferred amount.
+    event TokenWithdrawn(
+        address indexed user,
+        uint256 indexed stakeId,
+        address indexed token,
+        address recipient,
+        bytes32 encryptedAmount
+    );
+    /// @notice Emitted when a principal is released without waiting for the lock during emergency mode.
+    /// @param user Owner of the stake.
+    /// @param stakeId Identifier of the stake.
+    /// @param encryptedAmount Publicly decryptable handle of the payout.
+    event EmergencyWithdrawalRequested(address indexed user, uint256 indexed stakeId, bytes32 encryptedAmount);
+    /// @notice Emitted when ETH is added to an open position.
+    /// @param user Owner of the stake.
+    /// @param stakeId Identifier of the stake.
+    /// @param encryptedAmount Handle of the new encrypted amount.
+    event StakeIncreased(address indexed user, uint256 indexed stakeId, bytes32 encryptedAmount);
+    /// @notice Emitted when the lock of a position is extended.
+    /// @param user Owner of the stake.
+    /// @param stakeId Identifier of the stake.
+    /// @param lockDuration New total lock duration, in seconds.
+    event LockExtended(address indexed user, uint256 indexed stakeId, uint64 lockDuration);
+    /// @notice Emitted when the payout of a matured stake is opened to public decryption.
+    /// @param user Owner of the stake.
+    /// @param stakeId Identifier of the stake.
+    /// @param encryptedAmount Publicly decryptable handle of the payout.
+    event WithdrawalRequested(address indexed user, uint256 indexed stakeId, bytes32 encryptedAmount);
+    /// @notice Emitted when a stake is exited before maturity against a penalty.
+    /// @param user Owner of the stake.
+    /// @param stakeId Identifier of the stake.
+    /// @param encryptedAmount Publicly decryptable handle of the payout.
+    event EarlyWithdrawalRequested(address indexed user, uint256 indexed stakeId, bytes32 encryptedAmount);
+    /// @notice Emitted when a withdrawal request is withdrawn and the stake locked again.
+    /// @param user Owner of the stake.
+    /// @param stakeId Identifier of the stake.
+    /// @param encryptedAmount Handle of the re-encrypted amount.
+    event WithdrawalCancelled(address indexed user, uint256 indexed stakeId, bytes32 encryptedAmount);
+    /// @notice Emitted when a matured stake is locked again with its payout as new principal.
+    /// @param user Owner of the stake.
+    /// @param stakeId Identifier of the stake.
+    /// @param lockDuration Duration of the new lock, in seconds.
+    /// @param encryptedAmount Handle of the new principal.
+    event StakeRolledOver(address indexed user, uint256 indexed stakeId, uint64 lockDuration, bytes32 encryptedAmount);
+    /// @notice Emitted alongside `StakeCreated` when the stake vests linearly.
+    /// @param user Owner of the stake.
+    /// @param stakeId Identifier of the stake.
+    /// @param cliffDuration Time before the first tranche can be claimed, in seconds.
+    /// @param vestingDuration Time after which everything has vested, in seconds.
+    event VestingScheduleCreated(
+        address indexed user,
+        uint256 indexed stakeId,
+        uint64 cliffDuration,
+        uint64 vestingDuration
+    );
+    /// @notice Emitted when a vested tranche is opened to public decryption.
+    /// @param user Owner of the stake.
+    /// @param stakeId Identifier of the stake.
+    /// @param encryptedAmount Publicly decryptable handle of the tranche.
+    event VestedClaimRequested(address indexed user, uint256 indexed stakeId, bytes32 encryptedAmount);
+    /// @notice Emitted when a vested tranche is paid out.
+    /// @param user Owner of the stake.
+    /// @param stakeId Identifier of the stake.
+    /// @param recipient Account paid.
+    /// @param amount Tranche paid, in wei.
+    /// @param completed Whether this was the final tranche, which closes the stake.
+    event VestedClaimFinalized(
+        address indexed user,
+        uint256 indexed stakeId,
+        address indexed recipient,
+        uint256 amount,
+        bool completed
+    );
+    /// @notice Emitted when a stake follows its receipt to a new holder.
+    /// @param user Previous owner of the stake.
+    /// @param stakeId Identifier of the stake.
+    /// @param to New owner of the stake.
+    /// @param encryptedAmount Handle of the amount, re-encrypted unless a payout was already requested.
+    event StakeTransferred(address indexed user, uint256 indexed stakeId, address indexed to, bytes32 encryptedAmount);
+    /// @notice Emitted when a requested withdrawal is paid out and the stake closed.
+    /// @param user Owner of the stake.
+    /// @param stakeId Identifier of the closed stake.
+    /// @param recipient Account paid, or credited when it rejected the ETH.
+    /// @param amount Payout, in wei.
+    /// @param encryptedAmount Handle the payout was decrypted from.
+    event WithdrawalFinalized(
+        address indexed user,
+        uint256 indexed stakeId,
+        address indexed recipient,
+        uint256 amount,
+        bytes32 encryptedAmount
+    );
 
-    event StakeCreated(address indexed user, uint256 amount, uint64 lockDuration, bytes32 encryptedAmount);
-    event WithdrawalRequested(address indexed user, bytes32 encryptedAmount);
-    event WithdrawalFinalized(address indexed user, uint256 amount, bytes32 encryptedAmount);
-
-    error StakeAlreadyActive();
+    /// @notice Thrown when a lock duration is outside the accepted range, or a vesting cliff exceeds the schedule.
     error InvalidLockDuration();
-    error InvalidStakeAmount();
-    error StakeAmountTooLarge();
-    error NoActiveStake();
+    /// @notice Thrown when the stake, or its vesting cliff, is still locked.
     error LockPeriodActive();
+    /// @notice Thrown when an early exit is requested after the lock is over.
+    error LockPeriodOver();
+    /// @notice Thrown when the stake already has a pending withdrawal.
     error WithdrawalAlreadyRequested();
+    /// @notice Thrown when the stake has no pending withdrawal.
     error WithdrawalNotRequested();
+    /// @notice Thrown when the token is not on the list of stakeable assets.
+    error TokenNotAllowed();
+    /// @notice Thrown when a payout or stake owner is the zero address.
+    error InvalidRecipient();
+    /// @notice Thrown when the caller may not act on someone else's stake.
+    error KeeperNotAllowed();
+    /// @notice Thrown when new stakes are paused.
+    error StakingIsPaused();
+    /// @notice Thrown when an emergency exit is requested outside emergency mode.
+    error EmergencyModeInactive();
+    /// @notice Thrown when a vesting operation targets a cliff stake.
+    error NotVestingStake();
+    /// @notice Thrown when a vested tranche is already awaiting finalization.
+    error ClaimAlreadyRequested();
+    /// @notice Thrown when there is no vested tranche to finalize.
+    error NoClaimPending();
+    /// @notice Thrown when a receipt transfer is not reported by the receipts contract.
+    error NotReceipts();
+    /// @notice Thrown when batch inputs are empty, differ in length, or do not add up to `msg.value`.
+    error InvalidBatch();
+    /// @notice Thrown when the operation needs the public unlock time that a private-duration stake does not have.
+    error PrivateDurationStake();
+    /// @notice Thrown when there is no maturity check to finalize.
+    error NoMaturityCheckPending();
+
+    PrismLockAttestations private immutable ATTESTATION_MODULE;
+    PrismLockBalances private immutable BALANCES_MODULE;
+    PrismLockSettings private immutable SETTINGS_MODULE;
+
+    /// @notice Binds the implementation to its modules; the proxy state is set up by `initialize`.
+    /// @custom:oz-upgrades-unsafe-allow constructor state-variable-immutable
+    /// @param attestationModule Module the fallback delegates attestation calls to.
+    /// @param balancesModule Module the fallback delegates shielded balance and claim calls to.
+    /// @param settingsModule Module the fallback delegates every other call it does not implement to.
+    constructor(
+        PrismLockAttestations attestationModule,
+        PrismLockBalances balancesModule,
+        PrismLockSettings settingsModule
+    ) {
+        ATTESTATION_MODULE = attestationModule;
+        BALANCES_MODULE = balancesModule;
+        SETTINGS_MODULE = settingsModule;
+        _disableInitializers();
+    }
+
+    /// @notice Delegates calls this contract does not implement to the module that does: attestations to
+    /// `PrismLockAttestations`, shielded balances and claims to `PrismLockBalances`, configuration and account
+    /// settings to `PrismLockSettings`.
+    /// @dev The modules execute on this contract's storage and address, so their FHE handles and ACL grants are the
+    /// vault's own. Reverts and return data are passed through unchanged. The fallback is payable so `deposit` can
+    /// receive ETH; the non-payable module functions still reject value, since `msg.value` is kept by the delegation.
+    /// @param input Calldata of the call, forwarded as is.
+    /// @return output Raw return data of the module.
+    fallback(bytes calldata input) external payable returns (bytes memory output) {
+        return Address.functionDelegateCall(_moduleFor(msg.sig), input);
+    }
+
+    /// @notice Initializes the proxy storage: owner, FHEVM coprocessor addresses and default staking bounds.
+    /// @param initialOwner Account allowed to change the configuration.
+    function initialize(address initialOwner) external initializer {
+        __Ownable_init(initialOwner);
+        FHE.setCoprocessor(ZamaConfig.getEthereumCoprocessorConfig());
+        minLockDuration = 1 days;
+        maxLockDuration = 365 days;
+        maxStakeAmount = type(uint128).max;
+    }
+
+    /// @notice Adds ETH to the sponsor-funded reward pool that pays duration-tiered rewards on ETH stakes.
+    function fundRewards() external payable {
+        _setRewardPool(FHE.add(_rewardPool, _checkedValue()));
+        emit RewardsFunded(msg.sender, msg.value);
+    }
+
+    /// @notice Returns the reward rate earned by an ETH stake locked for the given duration.
+    /// @param lockDurationSeconds Lock duration expressed in seconds.
+    /// @return Reward in basis points of the stake amount.
+    function rewardTierBps(uint64 lockDurationSeconds) public pure returns (uint64) {
+        if (lockDurationSeconds < 30 days) {
+            return 0;
+        }
+        if (lockDurationSeconds < 90 days) {
+            return 50;
+        }
+        if (lockDurationSeconds < 180 days) {
+            return 200;
+        }
+        if (lockDurationSeconds < 365 days) {
+            return 500;
+        }
+        return 1_200;
+    }
+
+    /// @notice Returns the handle of the encrypted reward pool, decryptable by the contract owner.
+    /// @return Handle of the sponsor funds not yet reserved for stakes.
+    function getRewardPool() external view returns (bytes32) {
+        return FHE.toBytes32(_rewardPool);
+    }
 
     /// @notice Locks ETH for a selected duration and stores the value as an encrypted amount.
     /// @param lockDurationSeconds Staking duration expressed in seconds.
-    function stake(uint64 lockDurationSeconds) external payable {
-        if (_stakes[msg.sender].exists) {
-            revert StakeAlreadyActive();
+    /// @param beneficiary Address that receives the withdrawal, or zero to pay the staker.
+    /// @return stakeId Identifier of the newly opened position.
+    function stake(uint64 lockDurationSeconds, address beneficiary) external payable returns (uint256 stakeId) {
+        stakeId = _openEthStake(_checkedValue(), lockDurationSeconds, msg.sender, beneficiary);
+    }
+
+    /// @notice Locks ETH on behalf of another account, such as an employee funded by a payroll contract or a multisig.
+    /// @dev The stake is recorded under `user`, who alone can decrypt, manage and withdraw it; the funder keeps no
+    /// access to it.
+    /// @param user Account that owns the new stake.
+    /// @param lockDurationSeconds Staking duration expressed in seconds.
+    /// @return stakeId Identifier of the newly opened position.
+    function stakeFor(address user, uint64 lockDurationSeconds) external payable returns (uint256 stakeId) {
+        stakeId = _fundStake(user, _checkedValue(), lockDurationSeconds);
+    }
+
+    /// @notice Funds one stake per entry in a single transaction, each owned by its account as with `stakeFor`.
+    /// @param users Accounts that own the new stakes.
+    /// @param amounts ETH locked for each account, in wei; `msg.value` must be their exact sum.
+    /// @param lockDurations Staking duration of each stake, in seconds.
+    /// @return stakeIds Identifiers of the new positions, in input order.
+    function stakeForBatch(
+        address[] calldata users,
+        uint128[] calldata amounts,
+        uint64[] calldata lockDurations
+    ) external payable returns (uint256[] memory stakeIds) {
+        if (users.length == 0 || users.length != amounts.length || users.length != lockDurations.length) {
+            revert InvalidBatch();
+        }
+
+        uint256 total;
+        stakeIds = new uint256[](users.length);
+        for (uint256 i = 0; i < users.length; ++i) {
+            total += amounts[i];
+            stakeIds[i] = _fundStake(users[i], amounts[i], lockDurations[i]);
         }
-        if (lockDurationSeconds < MIN_LOCK_DURATION || lockDurationSeconds > MAX_LOCK_DURATION) {
+        if (total != msg.value) {
+            revert InvalidBatch();
+        }
+    }
+
+    /// @notice Locks ETH under a vesting schedule: nothing is released before the cliff, then the amount and its
+    /// reserved reward vest linearly until the end of the schedule.
+    /// @dev Vested tranches are claimed repeatedly through `requestVestedClaim` and `finalizeVestedClaim`. Each
+    /// tranche is publicly decrypted, and together with the schedule it reveals the total up to rounding.
+    /// @param cliffSeconds Time after which the first tranche can be claimed, at most the vesting duration.
+    /// @param vestingDurationSeconds Time after which everything has vested, within the lock duration bounds.
+    /// @param beneficiary Address that receives the claims, or zero to pay the staker.
+    /// @return stakeId Identifier of the newly opened position.
+    function stakeVesting(
+        uint64 cliffSeconds,
+        uint64 vestingDurationSeconds,
+        address beneficiary
+    ) external payable returns (uint256 stakeId) {
+        if (cliffSeconds > vestingDurationSeconds) {
             revert InvalidLockDuration();
         }
-        if (msg.value == 0) {
-            revert InvalidStakeAmount();
+        stakeId = _openEthStake(_checkedValue(), vestingDurationSeconds, msg.sender, beneficiary);
+
+        StakeData storage data = _stakes[stakeId];
+        data.vesting = true;
+        data.cliffDuration = cliffSeconds;
+
+        emit VestingScheduleCreated(msg.sender, stakeId, cliffSeconds, vestingDurationSeconds);
+    }
+
+    /// @notice Computes the vested but unclaimed part of a vesting stake and opens it to public decryption.
+    /// @dev The tranche is `(amount + reward) * elapsed / duration` minus what was already claimed, evaluated
+    /// homomorphically; the remainder stays encrypted. Once the schedule is over the tranche is everything left. In
+    /// emergency mode the cliff is skipped and the tranche is the unclaimed principal, paid right away like
+    /// `emergencyWithdraw`: the unclaimed reward goes back to the reward pool and the claim counts as an early exit.
+    /// @param stakeId Identifier of the vesting position.
+    function requestVestedClaim(uint256 stakeId) external {
+        StakeData storage data = _ownedVestingStake(stakeId);
+        if (FHE.isInitialized(data.encryptedPendingClaim)) {
+            revert ClaimAlreadyRequested();
         }
-        if (msg.value > type(uint128).max) {
-            revert StakeAmountTooLarge();
+        uint256 elapsed = block.timestamp - data.startTimestamp;
+        if (elapsed < data.cliffDuration && !emergencyMode) {
+            revert LockPeriodActive();
         }
 
-        uint128 clearAmount = uint128(msg.value);
-        euint128 encryptedAmount = FHE.asEuint128(clearAmount);
+        bool early = elapsed < data.lockDuration;
+        bool finalClaim = !early || emergencyMode;
+        euint128 total = FHE.add(data.encryptedAmount, data.encryptedReward);
+        euint128 tranche;
+        if (early && finalClaim) {
+            ++_earlyExitCount[msg.sender];
+            euint128 remaining = FHE.sub(total, data.claimedAmount);
+            // Tranches claimed before `claimedElapsed` was tracked leave it at zero, so never pay more than is left
+            tranche = FHE.min(FHE.sub(data.encryptedAmount, _vestedPrincipal(data, data.claimedElapsed)), remaining);
+            // The earlier tranches paid principal and reward pro rata; whatever is left past the principal is reward
+            data.encryptedReward = FHE.sub(remaining, tranche);
+            _releaseReward(data);
+        } else {
+            euint128 vested = finalClaim
+                ? total
+                : FHE.div(FHE.mul(total, uint128(elapsed)), uint128(data.lockDuration));
+            tranche = FHE.sub(vested, data.claimedAmount);
+        }
 
-        _stakes[msg.sender] = StakeData({
-            encryptedAmount: encryptedAmount,
-            lockDuration: lockDurationSeconds,
-            startTimestamp: uint64(block.timestamp),
-            withdrawalRequested: false,
-            exists: true
-        });
+        data.encryptedPendingClaim = tranche;
+        data.finalClaimPending = finalClaim;
+        data.pendingClaimElapsed = finalClaim ? data.lockDuration : uint64(elapsed);
+        FHE.allow(tranche, msg.sender);
+        FHE.allowThis(tranche);
+        FHE.makePubliclyDecryptable(tranche);
+
+        emit VestedClaimRequested(msg.sender, stakeId, FHE.toBytes32(tranche));
+    }
+
+    /// @notice Pays out a requested vesting tranche using the relayer-generated public decryption proof.
+    /// @dev Pays the stake's beneficiary when one is set, otherwise the caller. The final tranche closes the stake.
+    /// The principal share of every tranche is reported to the stats contract as it leaves the vault.
+    /// @param stakeId Identifier of the vesting position.
+    /// @param abiEncodedCleartexts ABI-encoded decrypted tranche returned by the relayer.
+    /// @param decryptionProof Proof of correctness for the decrypted value.
+    function finalizeVestedClaim(
+        uint256 stakeId,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external nonReentrant {
+        StakeData storage data = _ownedVestingStake(stakeId);
+        if (!FHE.isInitialized(data.encryptedPendingClaim)) {
+            revert NoClaimPending();
+        }
+
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(data.encryptedPendingClaim);
+        FHE.checkSignatures(handles, abiEncodedCleartexts, decryptionProof);
+
+        uint128 amount = abi.decode(abiEncodedCleartexts, (uint128));
+        address recipient = _recipientOf(data);
+        bool completed = data.finalClaimPending;
+
+        if (_countedByStats(data)) {
+            // Only the principal share of the tranche leaves the locked value; the rest of it is reward
+            euint128 principal = FHE.sub(
+                _vestedPrincipal(data, data.pendingClaimElapsed),
+                _vestedPrincipal(data, data.claimedElapsed)
+            );
+            _reportValueLocked(data, principal, false);
+        }
+        if (completed) {
+            _reportStakeCount(data, data.lockDuration, false);
+            _closeStake(msg.sender, stakeId);
+        } else {
+            data.claimedAmount += amount;
+            data.claimedElapsed = data.pendingClaimElapsed;
+            data.encryptedPendingClaim = euint128.wrap(bytes32(0));
+        }
+
+        _sendValue(recipient, amount);
+
+        emit VestedClaimFinalized(msg.sender, stakeId, recipient, amount, completed);
+    }
+
+    /// @notice Allocates an encrypted amount of the caller's shielded balance into a new stake.
+    /// @dev Amounts above the available balance allocate zero instead of reverting, so the outcome leaks nothing.
+    /// @param encryptedAmount Encrypted amount to lock, bound to this contract and the caller.
+    /// @param inputProof Proof accompanying the encrypted input.
+    /// @param lockDurationSeconds Staking duration expressed in seconds.
+    /// @param beneficiary Address that receives the withdrawal, or zero to pay the staker.
+    /// @return stakeId Identifier of the newly opened position.
+    function stakeShielded(
+        externalEuint128 encryptedAmount,
+        bytes calldata inputProof,
+        uint64 lockDurationSeconds,
+        address beneficiary
+    ) external returns (uint256 stakeId) {
+        euint128 allocated = _allocateShielded(FHE.fromExternal(encryptedAmount, inputProof));
+        stakeId = _openStake(allocated, lockDurationSeconds, address(0), msg.sender, beneficiary);
+    }
+
+    /// @notice Allocates an encrypted amount of the caller's shielded balance into a stake whose lock duration is
+    /// encrypted too, so that neither the amount nor the unlock time is ever public.
+    /// @dev The duration is clamped to the lock duration bounds under FHE. The stake records `minLockDuration` as its
+    /// public lock duration, a lower bound of the hidden unlock time that also sets its reward tier and stats bucket.
+    /// Withdrawals go through a publicly decrypted maturity check, see `finalizeMaturityCheck`; the stake cannot be
+    /// exited early, extended or rolled over.
+    /// @param encryptedAmount Encrypted amount to lock, bound to this contract and the caller.
+    /// @param encryptedLockDuration Encrypted staking duration in seconds, part of the same input.
+    /// @param inputProof Proof accompanying both encrypted inputs.
+    /// @param beneficiary Address that receives the withdrawal, or zero to pay the staker.
+    /// @return stakeId Identifier of the newly opened position.
+    function stakePrivate(
+        externalEuint128 encryptedAmount,
+        externalEuint64 encryptedLockDuration,
+        bytes calldata inputProof,
+        address beneficiary
+    ) external returns (uint256 stakeId) {
+        euint128 allocated = _allocateShielded(FHE.fromExternal(encryptedAmount, inputProof));
+        stakeId = _openStake(allocated, minLockDuration, address(0), msg.sender, beneficiary);
+        StakeData storage data = _stakes[stakeId];
+
+        euint64 lockDuration = FHE.min(
+            FHE.max(FHE.fromExternal(encryptedLockDuration, inputProof), minLockDuration),
+            maxLockDuration
+        );
+        _setTiming(data, lockDuration, FHE.add(lockDuration, data.startTimestamp), msg.sender);
+    }
+
+    /// @notice Locks an encrypted amount of an allow-listed confidential token.
+    /// @dev The caller must have set this contract as an operator on the token. The stake records the amount the
+    /// token actually transferred, which is zero when the caller's balance does not cover the request.
+    /// @param token ERC-7984 token to stake.
+    /// @param encryptedAmount Encrypted token amount, bound to this contract and the caller.
+    /// @param inputProof Proof accompanying the encrypted input.
+    /// @param lockDurationSeconds Staking duration expressed in seconds.
+    /// @param beneficiary Address that receives the withdrawal, or zero to pay the staker.
+    /// @return stakeId Identifier of the newly opened position.
+    function stakeToken(
+        address token,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof,
+        uint64 lockDurationSeconds,
+        address beneficiary
+    ) external returns (uint256 stakeId) {
+        if (!_allowedTokens[token]) {
+            revert TokenNotAllowed();
+        }
+
+        euint64 amount = FHE.fromExternal(encryptedAmount, inputProof);
+        FHE.allowTransient(amount, token);
+        euint64 transferred = IERC7984(token).confidentialTransferFrom(msg.sender, address(this), amount);
 
-        FHE.allow(encryptedAmount, msg.sender);
-        FHE.allowThis(encryptedAmount);
+        stakeId = _openStake(FHE.asEuint128(transferred), lockDurationSeconds, token, msg.sender, beneficiary);
+        emit TokenStakeCreated(msg.sender, stakeId, token);
+    }
+
+    /// @notice Returns a matured token stake to its beneficiary, or its owner, through an encrypted transfer.
+    /// @dev In emergency mode the lock is ignored.
+    /// @param stakeId Identifier of the token position to withdraw.
+    function withdrawToken(uint256 stakeId) external {
+        StakeData storage data = _ownedStake(stakeId);
+        address token = data.token;
+        if (token == address(0)) {
+            revert UnsupportedAsset();
+        }
+        if (!emergencyMode && block.timestamp < uint256(data.startTimestamp) + data.lockDuration) {
+            revert LockPeriodActive();
+        }
+
+        euint64 amount = FHE.asEuint64(data.encryptedAmount);
+        bytes32 handle = FHE.toBytes32(data.encryptedAmount);
+        address recipient = _recipientOf(data);
+        _closeStake(msg.sender, stakeId);
+
+        FHE.allowTransient(amount, token);
+        IERC7984(token).confidentialTransfer(recipient, amount);
+
+        emit TokenWithdrawn(msg.sender, stakeId, token, recipient, handle);
+    }
+
+    /// @notice Adds ETH to an open position by homomorphically summing it into the encrypted amount.
+    /// @param stakeId Identifier of the position to top up.
+    function increaseStake(uint256 stakeId) external payable {
+        if (stakingPaused) {
+            revert StakingIsPaused();
+        }
+        StakeData storage data = _ownedEthStake(stakeId);
+        if (data.withdrawalRequested) {
+            revert WithdrawalAlreadyRequested();
+        }
+
+        uint128 value = _checkedValue();
+        euint128 encryptedAmount = FHE.add(data.encryptedAmount, value);
+        data.encryptedAmount = encryptedAmount;
+        _reportValueLocked(data, FHE.asEuint128(value), true);
+
+        _allowStakeAmount(encryptedAmount, msg.sender);
+        _reserveReward(data);
+
+        emit StakeIncreased(msg.sender, stakeId, FHE.toBytes32(encryptedAmount));
+    }
 
-        emit StakeCreated(msg.sender, clearAmount, lockDurationSeconds, FHE.toBytes32(encryptedAmount));
+    /// @notice Pushes the unlock time of an open position further out.
+    /// @param stakeId Identifier of the position to extend.
+    /// @param newLockDurationSeconds New total lock duration, measured from the original start timestamp.
+    function extendLock(uint256 stakeId, uint64 newLockDurationSeconds) external {
+        StakeData storage data = _ownedStake(stakeId);
+        if (data.vesting) {
+            revert VestingStake();
+        }
+        _requirePublicDuration(data);
+        if (data.withdrawalRequested) {
+            revert WithdrawalAlreadyRequested();
+        }
+        if (newLockDurationSeconds <= data.lockDuration || newLockDurationSeconds > maxLockDuration) {
+            revert InvalidLockDuration();
+        }
+
+        uint64 previousDuration = data.lockDuration;
+        data.lockDuration = newLockDurationSeconds;
+        if (data.token == address(0)) {
+            _reserveReward(data);
+            _reportStakeCount(data, previousDuration, false);
+            _reportStakeCount(data, newLockDurationSeconds, true);
+        }
+
+        emit LockExtended(msg.sender, stakeId, newLockDurationSeconds);
     }
 
-    /// @notice Returns the full stake summary for any account.
-    function getStakeSummary(address user) external view returns (StakeSummary memory summary) {
-        StakeData storage data = _stakes[user];
+    /// @notice Returns the full summary of a stake position.
+    /// @param stakeId Identifier of the position.
+    /// @return summary Encrypted handle, timing data and status flags of the position. The reward handle is zero once
+    /// a withdrawal is requested, since the requested payout includes the reward. For a private-duration stake the
+    /// lock duration and unlock time are public lower bounds, and the encrypted timing handles, decryptable by the
+    /// owner, carry the real values.
+    function getStakeSummary(uint256 stakeId) external view returns (StakeSummary memory summary) {
+        StakeData storage data = _stakes[stakeId];
         uint256 unlockTimestamp = data.exists ? uint256(data.startTimestamp) + data.lockDuration : 0;
         bytes32 encryptedAmount = data.exists ? FHE.toBytes32(data.encryptedAmount) : bytes32(0);
 
@@ -87,51 +610,416 @@ contract PrismLock is ZamaEthereumConfig {
             unlockTimestamp: unlockTimestamp,
             lockDuration: data.lockDuration,
             withdrawalRequested: data.withdrawalRequested,
-            exists: data.exists
+            exists: data.exists,
+            owner: data.owner,
+            token: data.token,
+            encryptedReward: data.exists && !data.withdrawalRequested
+                ? FHE.toBytes32(data.encryptedReward)
+                : bytes32(0),
+            beneficiary: data.beneficiary,
+            vesting: data.vesting,
+            cliffDuration: data.cliffDuration,
+            claimedAmount: data.claimedAmount,
+            encryptedPendingClaim: FHE.toBytes32(data.encryptedPendingClaim),
+            claimableNow: data.vesting &&
+                !FHE.isInitialized(data.encryptedPendingClaim) &&
+                (emergencyMode || block.timestamp >= uint256(data.startTimestamp) + data.cliffDuration),
+            heir: data.heir,
+            inactivityPeriod: data.inactivityPeriod,
+            encryptedLockDuration: FHE.toBytes32(data.encryptedLockDuration),
+            encryptedUnlockTimestamp: FHE.toBytes32(data.encryptedUnlock),
+            encryptedMaturityCheck: FHE.toBytes32(data.encryptedMatured)
         });
     }
 
-    /// @notice Returns the encrypted amount handle for an account.
-    function getEncryptedAmount(address user) external view returns (bytes32) {
-        StakeData storage data = _stakes[user];
+    /// @notice Returns the encrypted amount handle of a stake position.
+    /// @param stakeId Identifier of the position.
+    /// @return Handle of the encrypted amount, or zero when the position does not exist.
+    function getEncryptedAmount(uint256 stakeId) external view returns (bytes32) {
+        StakeData storage data = _stakes[stakeId];
         if (!data.exists) {
             return bytes32(0);
         }
         return FHE.toBytes32(data.encryptedAmount);
     }
 
-    /// @notice Indicates whether the address currently has an active stake.
+    /// @notice Lists the identifiers of every open position held by an account.
+    /// @param user Account to inspect.
+    /// @return Identifiers of the account's open positions.
+    function getStakeIds(address user) external view returns (uint256[] memory) {
+        return _stakeIds[user];
+    }
+
+    /// @notice Indicates whether the address currently has at least one active stake.
+    /// @param user Account to inspect.
+    /// @return True when the account holds an open position.
     function hasStake(address user) external view returns (bool) {
-        return _stakes[user].exists;
+        return _stakeIds[user].length > 0;
     }
 
-    /// @notice Marks the stake as ready for public decryption once the lock period is over.
-    function requestWithdrawal() external {
-        StakeData storage data = _stakes[msg.sender];
-        if (!data.exists) {
-            revert NoActiveStake();
+    /// @notice Hands a stake to the new holder of its receipt; called by the receipts contract on every transfer.
+    /// @dev The amount and reward, and the hidden lock duration and unlock time of a private-duration stake, are
+    /// re-encrypted under fresh handles shared with the new holder (and their viewers for the amount), so the previous
+    /// holder cannot decrypt the position any more. A payout already requested is public anyway and keeps its
+    /// handle, while a pending maturity check moves to a fresh publicly decryptable handle. The beneficiary and heir
+    /// are reset, and attestations of the previous holder stop being valid.
+    /// @param stakeId Identifier of the transferred stake.
+    /// @param to New holder of the receipt.
+    function onReceiptTransfer(uint256 stakeId, address to) external {
+        if (msg.sender != address(receipts)) {
+            revert NotReceipts();
+        }
+        StakeData storage data = _stakes[stakeId];
+        address from = data.owner;
+
+        _removeStakeId(from, stakeId);
+        _addStakeId(to, stakeId);
+        data.owner = to;
+        data.beneficiary = address(0);
+        data.heir = address(0);
+        data.maturityCheckHeir = address(0);
+        data.inherited = false;
+        ++_earlyExitCount[from];
+        if (FHE.isInitialized(data.encryptedUnlock)) {
+            _setTiming(
+                data,
+                FHE.add(data.encryptedLockDuration, uint64(0)),
+                FHE.add(data.encryptedUnlock, uint64(0)),
+                to
+            );
+            if (FHE.isInitialized(data.encryptedMatured)) {
+                _setMaturityCheck(data, FHE.and(data.encryptedMatured, true));
+            }
+        }
+
+        if (data.withdrawalRequested) {
+            FHE.allow(data.encryptedAmount, to);
+        } else {
+            euint128 encryptedAmount = FHE.add(data.encryptedAmount, uint128(0));
+            data.encryptedAmount = encryptedAmount;
+            _allowStakeAmount(encryptedAmount, to);
+            if (FHE.isInitialized(data.encryptedReward)) {
+                euint128 reward = FHE.add(data.encryptedReward, uint128(0));
+                data.encryptedReward = reward;
+                FHE.allowThis(reward);
+                FHE.allow(reward, to);
+            }
         }
+
+        emit StakeTransferred(from, stakeId, to, FHE.toBytes32(data.encryptedAmount));
+    }
+
+    /// @notice Marks a stake as ready for public decryption once its lock period is over.
+    /// @dev The withdrawable amount adds the reserved tier reward and an encrypted bonus taken from the penalty pool,
+    /// capped at `MATURITY_BONUS_BPS` of the principal. For a private-duration stake this only compares the hidden
+    /// unlock time with the current time under FHE and makes the result publicly decryptable; the stake moves on
+    /// to the withdrawal step in `finalizeMaturityCheck`. Requesting also counts as a sign of life for heirs, like
+    /// `ping`, so an heir waits out the inactivity period from the request.
+    /// @param stakeId Identifier of the position to unlock.
+    function requestWithdrawal(uint256 stakeId) external {
+        lastPing[msg.sender] = uint64(block.timestamp);
+        _requestWithdrawal(_ownedEthStake(stakeId), stakeId, 0);
+    }
+
+    /// @notice Lets anyone, typically a keeper, request the withdrawal of a matured stake whose owner opted in.
+    /// @dev Also lets the heir of an inactive stake request it, see `setHeir`. The heir then becomes the
+    /// beneficiary and is allowed to decrypt the payout. For a private-duration stake the heir starts a maturity
+    /// check that also requires the inactivity period to have passed since the hidden unlock time, and only
+    /// inherits once `finalizeMaturityCheck` confirms it. When the owner already requested the withdrawal before
+    /// going silent, the heir takes over that pending payout instead.
+    /// @param stakeId Identifier of the position to unlock.
+    function requestWithdrawalFor(uint256 stakeId) external {
+        StakeData storage data = _keeperStake(stakeId);
+        bool inherits = _inheritable(data);
+        if (inherits && data.withdrawalRequested) {
+            _inherit(data, stakeId, msg.sender);
+            return;
+        }
+        _requestWithdrawal(data, stakeId, inherits ? data.inactivityPeriod : 0);
+        if (!inherits) {
+            return;
+        }
+        if (data.withdrawalRequested) {
+            _inherit(data, stakeId, msg.sender);
+        } else {
+            data.maturityCheckHeir = msg.sender;
+        }
+    }
+
+    /// @notice Completes the maturity check of a private-duration stake using the relayer-generated public decryption
+    /// proof, and moves the stake into the withdrawal step when its hidden unlock time has passed.
+    /// @dev Callable by anyone, such as a keeper; the proof binds the result. Reverts with `LockPeriodActive` when the
+    /// stake was still locked at the time of the check, and `requestWithdrawal` can then start a new one later. A
+    /// check started by the heir of an inactive stake makes the heir its beneficiary.
+    /// @param stakeId Identifier of the position.
+    /// @param abiEncodedCleartexts ABI-encoded decrypted boolean returned by the relayer.
+    /// @param decryptionProof Proof of correctness for the decrypted value.
+    function finalizeMaturityCheck(
+        uint256 stakeId,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external {
+        StakeData storage data = _stakes[stakeId];
+        if (!FHE.isInitialized(data.encryptedMatured)) {
+            revert NoMaturityCheckPending();
+        }
+
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(data.encryptedMatured);
+        FHE.checkSignatures(handles, abiEncodedCleartexts, decryptionProof);
+
+        if (!abi.decode(abiEncodedCleartexts, (bool))) {
+            revert LockPeriodActive();
+        }
+        _markMatured(data, stakeId);
+
+        address heir = data.maturityCheckHeir;
+        if (heir != address(0)) {
+            data.maturityCheckHeir = address(0);
+            _inherit(data, stakeId, heir);
+        }
+    }
+
+    /// @notice Withdraws a pending withdrawal request and puts the stake back under a fresh private handle.
+    /// @dev The publicly decryptable payout is retired. A maturity bonus goes back to the penalty pool and the tier
+    /// reward is reserved again; an early-exit penalty is not refunded. A payout an heir took over goes back to the
+    /// beneficiary the owner had set.
+    /// @param stakeId Identifier of the position whose request is cancelled.
+    function cancelWithdrawal(uint256 stakeId) external {
+        StakeData storage data = _ownedEthStake(stakeId);
+        if (!data.withdrawalRequested) {
+            revert WithdrawalNotRequested();
+        }
+
+        euint128 retained = data.encryptedRetainedAmount;
+        euint128 bonus = FHE.sub(FHE.sub(data.encryptedAmount, retained), data.encryptedReward);
+        _setPenaltyPool(FHE.add(_penaltyPool, bonus));
+
+        euint128 encryptedAmount = FHE.add(retained, uint128(0));
+        data.encryptedAmount = encryptedAmount;
+        data.encryptedRetainedAmount = euint128.wrap(bytes32(0));
+        data.withdrawalRequested = false;
+        data.maturityCheckHeir = address(0);
+        if (data.inherited) {
+            data.beneficiary = data.previousBeneficiary;
+            data.inherited = false;
+        }
+
+        _allowStakeAmount(encryptedAmount, msg.sender);
+        _reserveReward(data);
+
+        emit WithdrawalCancelled(msg.sender, stakeId, FHE.toBytes32(encryptedAmount));
+    }
+
+    /// @notice Re-locks a matured stake for a new duration, compounding its payout without moving any ETH.
+    /// @dev The new principal is the value a withdrawal would pay: the pending payout when one was requested,
+    /// otherwise the amount plus its reward and maturity bonus. It is re-encrypted under a fresh private handle so a
+    /// publicly decryptable payout is retired, and a new tier reward is reserved.
+    /// @param stakeId Identifier of the matured position.
+    /// @param lockDurationSeconds Duration of the new lock, starting now.
+    function rolloverStake(uint256 stakeId, uint64 lockDurationSeconds) external {
+        _requireNewLock(lockDurationSeconds);
+        StakeData storage data = _ownedEthStake(stakeId);
+        _requirePublicDuration(data);
         if (block.timestamp < uint256(data.startTimestamp) + data.lockDuration) {
             revert LockPeriodActive();
         }
+
+        euint128 principal = data.withdrawalRequested ? data.encryptedRetainedAmount : data.encryptedAmount;
+        euint128 encryptedAmount = data.withdrawalRequested
+            ? FHE.add(data.encryptedAmount, uint128(0))
+            : _maturedPayout(data);
+        _reportValueLocked(data, principal, false);
+        _reportValueLocked(data, encryptedAmount, true);
+        _reportStakeCount(data, data.lockDuration, false);
+        _reportStakeCount(data, lockDurationSeconds, true);
+        data.encryptedAmount = encryptedAmount;
+        data.encryptedReward = euint128.wrap(bytes32(0));
+        data.encryptedRetainedAmount = euint128.wrap(bytes32(0));
+        data.withdrawalRequested = false;
+        data.startTimestamp = uint64(block.timestamp);
+        data.lockDuration = lockDurationSeconds;
+
+        _allowStakeAmount(encryptedAmount, msg.sender);
+        _reserveReward(data);
+
+        emit StakeRolledOver(msg.sender, stakeId, lockDurationSeconds, FHE.toBytes32(encryptedAmount));
+    }
+
+    /// @notice Exits an ETH stake before maturity, forfeiting an encrypted penalty to the penalty pool.
+    /// @dev The penalty is `EARLY_EXIT_PENALTY_BPS` of the amount scaled by the remaining share of the lock. The
+    /// remaining amount becomes publicly decryptable and is released through `finalizeWithdrawal`.
+    /// @param stakeId Identifier of the position to exit.
+    function earlyWithdraw(uint256 stakeId) external {
+        StakeData storage data = _ownedEthStake(stakeId);
+        _requirePublicDuration(data);
+        uint256 unlockTimestamp = uint256(data.startTimestamp) + data.lockDuration;
+        if (block.timestamp >= unlockTimestamp) {
+            revert LockPeriodOver();
+        }
         if (data.withdrawalRequested) {
             revert WithdrawalAlreadyRequested();
         }
 
-        data.withdrawalRequested = true;
-        FHE.makePubliclyDecryptable(data.encryptedAmount);
+        uint128 remaining = uint128(unlockTimestamp - block.timestamp);
+        euint128 penalty = FHE.div(
+            FHE.mul(data.encryptedAmount, remaining * EARLY_EXIT_PENALTY_BPS),
+            uint128(data.lockDuration) * BPS_DENOMINATOR
+        );
+        _setPenaltyPool(FHE.add(_penaltyPool, penalty));
+        _reportValueLocked(data, penalty, false);
+        _releaseReward(data);
+
+        euint128 payout = FHE.sub(data.encryptedAmount, penalty);
+        _markForWithdrawal(data, payout, payout);
+        ++_earlyExitCount[msg.sender];
+
+        emit EarlyWithdrawalRequested(msg.sender, stakeId, FHE.toBytes32(data.encryptedAmount));
+    }
+
+    /// @notice Releases the principal of an ETH stake without waiting for the lock while emergency mode is active.
+    /// @dev No penalty is charged; the reserved reward goes back to the reward pool. The principal becomes publicly
+    /// decryptable and is released through `finalizeWithdrawal`.
+    /// @param stakeId Identifier of the position to exit.
+    function emergencyWithdraw(uint256 stakeId) external {
+        if (!emergencyMode) {
+            revert EmergencyModeInactive();
+        }
+        StakeData storage data = _ownedEthStake(stakeId);
+        if (data.withdrawalRequested) {
+            revert WithdrawalAlreadyRequested();
+        }
+
+        _releaseReward(data);
+        _markForWithdrawal(data, data.encryptedAmount, data.encryptedAmount);
+        ++_earlyExitCount[msg.sender];
+
+        emit EmergencyWithdrawalRequested(msg.sender, stakeId, FHE.toBytes32(data.encryptedAmount));
+    }
+
+    /// @notice Returns the penalty rate an early exit would currently be charged.
+    /// @param stakeId Identifier of the position.
+    /// @return Penalty in basis points of the stake amount, or zero once the lock is over and for stakes that cannot
+    /// be exited early.
+    function earlyExitPenaltyBps(uint256 stakeId) external view returns (uint256) {
+        StakeData storage data = _stakes[stakeId];
+        uint256 unlockTimestamp = uint256(data.startTimestamp) + data.lockDuration;
+        if (!data.exists || block.timestamp >= unlockTimestamp || FHE.isInitialized(data.encryptedUnlock)) {
+            return 0;
+        }
+        return ((unlockTimestamp - block.timestamp) * EARLY_EXIT_PENALTY_BPS) / data.lockDuration;
+    }
 
-        emit WithdrawalRequested(msg.sender, FHE.toBytes32(data.encryptedAmount));
+    /// @notice Returns the handle of the encrypted penalty pool, decryptable by the contract owner.
+    /// @return Handle of the pooled early-exit penalties not yet paid out as maturity bonuses.
+    function getPenaltyPool() external view returns (bytes32) {
+        return FHE.toBytes32(_penaltyPool);
     }
 
     /// @notice Finalizes a withdrawal using the relayer-generated public decryption proof.
+    /// @dev Pays the stake's beneficiary when one is set, otherwise the caller.
+    /// @param stakeId Identifier of the position to withdraw.
     /// @param abiEncodedCleartexts ABI-encoded decrypted value returned by the relayer.
     /// @param decryptionProof Proof of correctness for the decrypted value.
-    function finalizeWithdrawal(bytes calldata abiEncodedCleartexts, bytes calldata decryptionProof) external {
-        StakeData storage data = _stakes[msg.sender];
-        if (!data.exists) {
-            revert NoActiveStake();
+    function finalizeWithdrawal(
+        uint256 stakeId,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external nonReentrant {
+        StakeData storage data = _ownedStake(stakeId);
+        _finalizeWithdrawal(data, stakeId, _recipientOf(data), abiEncodedCleartexts, decryptionProof);
+    }
+
+    /// @notice Finalizes a withdrawal and sends the ETH to an explicit address, such as a cold wallet.
+    /// @param stakeId Identifier of the position to withdraw.
+    /// @param recipient Address that receives the ETH, overriding any beneficiary.
+    /// @param abiEncodedCleartexts ABI-encoded decrypted value returned by the relayer.
+    /// @param decryptionProof Proof of correctness for the decrypted value.
+    function finalizeWithdrawalTo(
+        uint256 stakeId,
+        address recipient,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external nonReentrant {
+        if (recipient == address(0)) {
+            revert InvalidRecipient();
+        }
+        StakeData storage data = _ownedStake(stakeId);
+        _finalizeWithdrawal(data, stakeId, recipient, abiEncodedCleartexts, decryptionProof);
+    }
+
+    /// @notice Lets anyone, typically a keeper, finalize a requested withdrawal for a stake whose owner opted in.
+    /// @dev The ETH always goes to the stake's beneficiary, or its owner when none is set.
+    /// @param stakeId Identifier of the position to withdraw.
+    /// @param abiEncodedCleartexts ABI-encoded decrypted value returned by the relayer.
+    /// @param decryptionProof Proof of correctness for the decrypted value.
+    function finalizeWithdrawalFor(
+        uint256 stakeId,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external nonReentrant {
+        StakeData storage data = _keeperStake(stakeId);
+        _finalizeWithdrawal(data, stakeId, _recipientOf(data), abiEncodedCleartexts, decryptionProof);
+    }
+
+    /// @notice Moves a matured stake into the public decryption step, or starts the maturity check of a stake whose
+    /// unlock time is private.
+    /// @dev A new check replaces a pending one.
+    /// @param data Stake to move on.
+    /// @param stakeId Identifier of the stake.
+    /// @param grace Time that must also have passed since the hidden unlock time, the inactivity period of an heir.
+    function _requestWithdrawal(StakeData storage data, uint256 stakeId, uint64 grace) private {
+        if (block.timestamp < uint256(data.startTimestamp) + data.lockDuration) {
+            revert LockPeriodActive();
         }
+        if (data.withdrawalRequested) {
+            revert WithdrawalAlreadyRequested();
+        }
+
+        if (FHE.isInitialized(data.encryptedUnlock)) {
+            // An heir only gets here once the public unlock bound plus `grace` has passed, so this cannot underflow
+            ebool matured = FHE.le(data.encryptedUnlock, uint64(block.timestamp) - grace);
+            data.maturityCheckHeir = address(0);
+            _setMaturityCheck(data, matured);
+            emit MaturityCheckRequested(data.owner, stakeId, FHE.toBytes32(matured));
+        } else {
+            _markMatured(data, stakeId);
+        }
+    }
+
+    /// @notice Opens the payout of a matured stake to public decryption, adding its share of the penalty pool.
+    /// @param data Matured stake.
+    /// @param stakeId Identifier of the stake.
+    function _markMatured(StakeData storage data, uint256 stakeId) private {
+        _markForWithdrawal(data, _maturedPayout(data), data.encryptedAmount);
+
+        emit WithdrawalRequested(data.owner, stakeId, FHE.toBytes32(data.encryptedAmount));
+    }
+
+    /// @notice Returns the amount plus reserved reward of a matured stake, plus its bonus taken from the penalty pool.
+    /// @param data Matured ETH stake.
+    /// @return Encrypted amount the stake pays out.
+    function _maturedPayout(StakeData storage data) private returns (euint128) {
+        euint128 bonusCap = FHE.div(FHE.mul(data.encryptedAmount, uint128(MATURITY_BONUS_BPS)), BPS_DENOMINATOR);
+        euint128 bonus = FHE.min(_penaltyPool, bonusCap);
+        _setPenaltyPool(FHE.sub(_penaltyPool, bonus));
+
+        return FHE.add(FHE.add(data.encryptedAmount, data.encryptedReward), bonus);
+    }
+
+    /// @notice Verifies the public decryption proof of a requested withdrawal, closes the stake and pays `recipient`.
+    /// @param data Stake with a requested withdrawal.
+    /// @param stakeId Identifier of the stake.
+    /// @param recipient Account paid.
+    /// @param abiEncodedCleartexts ABI-encoded decrypted payout returned by the relayer.
+    /// @param decryptionProof Proof of correctness for the decrypted value.
+    function _finalizeWithdrawal(
+        StakeData storage data,
+        uint256 stakeId,
+        address recipient,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) private {
         if (!data.withdrawalRequested) {
             revert WithdrawalNotRequested();
         }
@@ -142,12 +1030,385 @@ contract PrismLock is ZamaEthereumConfig {
         FHE.checkSignatures(handles, abiEncodedCleartexts, decryptionProof);
 
         uint128 decryptedAmount = abi.decode(abiEncodedCleartexts, (uint128));
+        address user = data.owner;
+
+        _reportValueLocked(data, data.encryptedRetainedAmount, false);
+        _reportStakeCount(data, data.lockDuration, false);
+        _closeStake(user, stakeId);
+
+        _sendValue(recipient, decryptedAmount);
 
-        delete _stakes[msg.sender];
+        emit WithdrawalFinalized(user, stakeId, recipient, decryptedAmount, handles[0]);
+    }
+
+    /// @notice Opens an ETH position of `amount` for `user` after checking it against the stake size bounds.
+    /// @param amount Stake amount, in wei.
+    /// @param lockDurationSeconds Staking duration expressed in seconds.
+    /// @param user Owner of the new stake.
+    /// @param beneficiary Address that receives the withdrawal, or zero to pay the owner.
+    /// @return stakeId Identifier of the new position.
+    function _openEthStake(
+        uint128 amount,
+        uint64 lockDurationSeconds,
+        address user,
+        address beneficiary
+    ) private returns (uint256 stakeId) {
+        if (amount == 0 || amount < minStakeAmount) {
+            revert InvalidStakeAmount();
+        }
+        if (amount > maxStakeAmount) {
+            revert StakeAmountTooLarge();
+        }
+        stakeId = _openStake(FHE.asEuint128(amount), lockDurationSeconds, address(0), user, beneficiary);
+    }
+
+    /// @notice Opens an ETH stake paid by the caller and owned by `user`, recording who funded it.
+    /// @param user Owner of the new stake.
+    /// @param amount Stake amount, in wei.
+    /// @param lockDurationSeconds Staking duration expressed in seconds.
+    /// @return stakeId Identifier of the new position.
+    function _fundStake(address user, uint128 amount, uint64 lockDurationSeconds) private returns (uint256 stakeId) {
+        if (user == address(0)) {
+            revert InvalidRecipient();
+        }
+        stakeId = _openEthStake(amount, lockDurationSeconds, user, address(0));
+        emit StakeFunded(msg.sender, user, stakeId);
+    }
+
+    /// @notice Ensures staking is open and `lockDurationSeconds` is within the lock duration bounds.
+    /// @param lockDurationSeconds Duration of the lock about to start.
+    function _requireNewLock(uint64 lockDurationSeconds) private view {
+        if (stakingPaused) {
+            revert StakingIsPaused();
+        }
+        if (lockDurationSeconds < minLockDuration || lockDurationSeconds > maxLockDuration) {
+            revert InvalidLockDuration();
+        }
+    }
+
+    /// @notice Records a new position for `user` and grants it and its viewers access to the encrypted amount.
+    /// @param encryptedAmount Encrypted amount locked.
+    /// @param lockDurationSeconds Staking duration expressed in seconds.
+    /// @param token ERC-7984 token staked, or zero for ETH.
+    /// @param user Owner of the new stake.
+    /// @param beneficiary Address that receives the withdrawal, or zero to pay the owner.
+    /// @return stakeId Identifier of the new position.
+    function _openStake(
+        euint128 encryptedAmount,
+        uint64 lockDurationSeconds,
+        address token,
+        address user,
+        address beneficiary
+    ) private returns (uint256 stakeId) {
+        _requireNewLock(lockDurationSeconds);
+
+        stakeId = ++_lastStakeId;
+        _stakes[stakeId] = StakeData({
+            encryptedAmount: encryptedAmount,
+            encryptedReward: euint128.wrap(bytes32(0)),
+            owner: user,
+            token: token,
+            beneficiary: beneficiary,
+            lockDuration: lockDurationSeconds,
+            startTimestamp: uint64(block.timestamp),
+            withdrawalRequested: false,
+            exists: true,
+            encryptedRetainedAmount: euint128.wrap(bytes32(0)),
+            vesting: false,
+            cliffDuration: 0,
+            claimedAmount: 0,
+            encryptedPendingClaim: euint128.wrap(bytes32(0)),
+            finalClaimPending: false,
+            heir: address(0),
+            inactivityPeriod: 0,
+            encryptedLockDuration: euint64.wrap(bytes32(0)),
+            encryptedUnlock: euint64.wrap(bytes32(0)),
+            encryptedMatured: ebool.wrap(bytes32(0)),
+            reportedStats: token == address(0) ? stats : PrismLockStats(address(0)),
+            maturityCheckHeir: address(0),
+            claimedElapsed: 0,
+            pendingClaimElapsed: 0,
+            inherited: false,
+            previousBeneficiary: address(0)
+        });
+        _addStakeId(user, stakeId);
+
+        _allowStakeAmount(encryptedAmount, user);
+        if (token == address(0)) {
+            _reserveReward(_stakes[stakeId]);
+            _reportValueLocked(_stakes[stakeId], encryptedAmount, true);
+            _reportStakeCount(_stakes[stakeId], lockDurationSeconds, true);
+        }
+        if (address(receipts) != address(0)) {
+            receipts.mint(user, stakeId);
+        }
+
+        emit StakeCreated(user, stakeId, lockDurationSeconds, FHE.toBytes32(encryptedAmount));
+    }
+
+    /// @notice Debits an encrypted stake amount from the caller's shielded balance; amounts outside the stake size
+    /// bounds or above the balance allocate zero.
+    /// @param requested Encrypted amount the caller asks to lock.
+    /// @return Encrypted amount actually allocated.
+    function _allocateShielded(euint128 requested) private returns (euint128) {
+        ebool inBounds = FHE.and(FHE.ge(requested, minStakeAmount), FHE.le(requested, maxStakeAmount));
+        return _debitShieldedBalance(FHE.select(inBounds, requested, FHE.asEuint128(0)));
+    }
+
+    /// @notice Replaces the stake amount with its withdrawable value and opens it to public decryption.
+    /// @dev `retained` is the amount the stake keeps if the request is cancelled; a reserved reward is either part of
+    /// `payout` and kept on the stake, or has already been released by the caller. A pending maturity check is dropped.
+    /// @param data Stake to withdraw.
+    /// @param payout Encrypted amount paid out on finalization.
+    /// @param retained Encrypted amount the stake keeps on cancellation.
+    function _markForWithdrawal(StakeData storage data, euint128 payout, euint128 retained) private {
+        data.encryptedAmount = payout;
+        data.encryptedRetainedAmount = retained;
+        data.withdrawalRequested = true;
+        data.encryptedMatured = ebool.wrap(bytes32(0));
+
+        FHE.allowThis(retained);
+        FHE.allow(payout, msg.sender);
+        FHE.allowThis(payout);
+        FHE.makePubliclyDecryptable(payout);
+    }
+
+    /// @notice Returns the share of a vesting stake's principal vested after `elapsed` seconds of its schedule.
+    /// @param data Vesting stake.
+    /// @param elapsed Seconds since the stake opened, at most its vesting duration.
+    /// @return Encrypted vested principal.
+    function _vestedPrincipal(StakeData storage data, uint64 elapsed) private returns (euint128) {
+        return FHE.div(FHE.mul(data.encryptedAmount, uint128(elapsed)), uint128(data.lockDuration));
+    }
+
+    /// @notice Returns the reserved reward of a stake to the reward pool.
+    /// @param data Stake whose reward is released.
+    function _releaseReward(StakeData storage data) private {
+        _setRewardPool(FHE.add(_rewardPool, data.encryptedReward));
+        data.encryptedReward = euint128.wrap(bytes32(0));
+    }
+
+    /// @notice Re-reserves the tier reward of an ETH stake from the reward pool after its amount or duration changed.
+    /// @dev The previous reservation is released first; the new one is capped by what the pool holds.
+    /// @param data ETH stake whose reward is reserved.
+    function _reserveReward(StakeData storage data) private {
+        euint128 available = FHE.add(_rewardPool, data.encryptedReward);
+        euint128 target = FHE.div(
+            FHE.mul(data.encryptedAmount, uint128(rewardTierBps(data.lockDuration))),
+            BPS_DENOMINATOR
+        );
+        euint128 reward = FHE.min(available, target);
+        _setRewardPool(FHE.sub(available, reward));
+
+        data.encryptedReward = reward;
+        FHE.allow(reward, data.owner);
+        FHE.allowThis(reward);
+    }
+
+    /// @notice Stores the hidden lock duration and unlock time of a private-duration stake and lets `user` decrypt
+    /// them.
+    /// @param data Private-duration stake.
+    /// @param lockDuration Encrypted lock duration.
+    /// @param unlockTimestamp Encrypted unlock time.
+    /// @param user Owner of the stake.
+    function _setTiming(StakeData storage data, euint64 lockDuration, euint64 unlockTimestamp, address user) private {
+        data.encryptedLockDuration = lockDuration;
+        data.encryptedUnlock = unlockTimestamp;
+        FHE.allowThis(lockDuration);
+        FHE.allowThis(unlockTimestamp);
+        FHE.allow(lockDuration, user);
+        FHE.allow(unlockTimestamp, user);
+    }
+
+    /// @notice Stores the maturity check of a private-duration stake and opens it to public decryption.
+    /// @param data Private-duration stake.
+    /// @param matured Encrypted result of the check.
+    function _setMaturityCheck(StakeData storage data, ebool matured) private {
+        data.encryptedMatured = matured;
+        FHE.allowThis(matured);
+        FHE.makePubliclyDecryptable(matured);
+    }
+
+    /// @notice Makes the heir of an inactive stake the beneficiary of its requested withdrawal, remembering the
+    /// beneficiary it replaces for `cancelWithdrawal`.
+    /// @param data Stake with a requested withdrawal.
+    /// @param stakeId Identifier of the stake.
+    /// @param heir Heir of the stake.
+    function _inherit(StakeData storage data, uint256 stakeId, address heir) private {
+        if (!data.inherited) {
+            data.previousBeneficiary = data.beneficiary;
+            data.inherited = true;
+        }
+        data.beneficiary = heir;
+        FHE.allow(data.encryptedAmount, heir);
+        emit StakeInherited(data.owner, stakeId, heir);
+    }
+
+    /// @notice Stores a new reward pool value and keeps it decryptable by the contract and its owner.
+    /// @param pool New encrypted reward pool.
+    function _setRewardPool(euint128 pool) private {
+        _rewardPool = pool;
+        FHE.allowThis(pool);
+        FHE.allow(pool, owner());
+    }
+
+    /// @notice Stores a new penalty pool value and keeps it decryptable by the contract and its owner.
+    /// @param pool New encrypted penalty pool.
+    function _setPenaltyPool(euint128 pool) private {
+        _penaltyPool = pool;
+        FHE.allowThis(pool);
+        FHE.allow(pool, owner());
+    }
+
+    /// @notice Reports principal entering or leaving an ETH stake to the stats contract, when it counts the stake.
+    /// @param data Stake the principal belongs to.
+    /// @param amount Encrypted principal entering or leaving.
+    /// @param added Whether the principal enters the stakes.
+    function _reportValueLocked(StakeData storage data, euint128 amount, bool added) private {
+        if (_countedByStats(data)) {
+            FHE.allowTransient(amount, address(stats));
+            stats.recordValue(amount, added);
+        }
+    }
+
+    /// @notice Reports an ETH stake entering or leaving the bucket of `lockDurationSeconds` to the stats contract,
+    /// when it counts the stake.
+    /// @param data Stake that moves.
+    /// @param lockDurationSeconds Lock duration of the stake, which selects the bucket.
+    /// @param added Whether the stake enters the bucket or leaves it.
+    function _reportStakeCount(StakeData storage data, uint64 lockDurationSeconds, bool added) private {
+        if (_countedByStats(data)) {
+            stats.recordStake(lockDurationSeconds, added);
+        }
+    }
+
+    /// @notice Checks whether the current stats contract counted a stake when it was opened.
+    /// @dev A stake opened before stats were set, or reported to a stats contract since replaced, was never added
+    /// to the current aggregates, so it must not be subtracted from them either.
+    /// @param data Stake to inspect.
+    /// @return Whether changes to the stake are reported.
+    function _countedByStats(StakeData storage data) private view returns (bool) {
+        return address(stats) != address(0) && address(data.reportedStats) == address(stats);
+    }
+
+    /// @notice Returns the address a position pays out to.
+    /// @param data Stake to inspect.
+    /// @return Its beneficiary, or its owner when none is set.
+    function _recipientOf(StakeData storage data) private view returns (address) {
+        return data.beneficiary != address(0) ? data.beneficiary : data.owner;
+    }
+
+    /// @notice Returns the module implementing `selector`.
+    /// @dev Anything that is neither an attestation nor a balance call goes to the settings module, which reverts on
+    /// selectors it does not know either.
+    /// @param selector Function selector of the call.
+    /// @return Address of the module to delegate to.
+    function _moduleFor(bytes4 selector) private view returns (address) {
+        if (
+            selector == PrismLockAttestations.requestAttestation.selector ||
+            selector == PrismLockAttestations.finalizeAttestation.selector ||
+            selector == PrismLockAttestations.getAttestation.selector ||
+            selector == PrismLockAttestations.isAttestationValid.selector
+        ) {
+            return address(ATTESTATION_MODULE);
+        }
+        if (
+            selector == PrismLockBalances.deposit.selector ||
+            selector == PrismLockBalances.requestBalanceWithdrawal.selector ||
+            selector == PrismLockBalances.finalizeBalanceWithdrawal.selector ||
+            selector == PrismLockBalances.claim.selector ||
+            selector == PrismLockBalances.claimableOf.selector ||
+            selector == PrismLockBalances.getShieldedBalance.selector ||
+            selector == PrismLockBalances.getPendingBalanceWithdrawal.selector
+        ) {
+            return address(BALANCES_MODULE);
+        }
+        return address(SETTINGS_MODULE);
+    }
+
+    /// @notice Rejects changes that depend on the public unlock time, which a private-duration stake does not have.
+    /// @param data Stake to check.
+    function _requirePublicDuration(StakeData storage data) private view {
+        if (FHE.isInitialized(data.encryptedUnlock)) {
+            revert PrivateDurationStake();
+        }
+    }
+
+    /// @notice Loads an open vesting position and ensures it belongs to the caller.
+    /// @param stakeId Identifier of the position.
+    /// @return data Storage pointer to the stake.
+    function _ownedVestingStake(uint256 stakeId) private view returns (StakeData storage data) {
+        data = _ownedStake(stakeId);
+        if (!data.vesting) {
+            revert NotVestingStake();
+        }
+    }
+
+    /// @notice Loads an open ETH position whose owner allows keepers to withdraw it, or that the caller inherits.
+    /// @param stakeId Identifier of the position.
+    /// @return data Storage pointer to the stake.
+    function _keeperStake(uint256 stakeId) private view returns (StakeData storage data) {
+        data = _stakes[stakeId];
+        if (!data.exists) {
+            revert NoActiveStake();
+        }
+        if (!_keeperOptIn[data.owner] && !_inheritable(data)) {
+            revert KeeperNotAllowed();
+        }
+        if (data.token != address(0)) {
+            revert UnsupportedAsset();
+        }
+        if (data.vesting) {
+            revert VestingStake();
+        }
+    }
+
+    /// @notice Whether the caller is the stake's heir and the owner has been silent for the inactivity period since
+    /// both the unlock time and their last sign of life.
+    /// @dev For a private-duration stake this uses the public lower bound of the unlock time; the hidden one is
+    /// checked under FHE by the maturity check the heir starts.
+    /// @param data Stake to check.
+    /// @return True when the caller may act as the heir.
+    function _inheritable(StakeData storage data) private view returns (bool) {
+        if (data.heir == address(0) || msg.sender != data.heir) {
+            return false;
+        }
+        uint256 unlockTimestamp = uint256(data.startTimestamp) + data.lockDuration;
+        uint256 lastSeen = lastPing[data.owner] > unlockTimestamp ? lastPing[data.owner] : unlockTimestamp;
+        return block.timestamp >= lastSeen + data.inactivityPeriod;
+    }
+
+    /// @notice Deletes a position, removes it from its owner's list of open stake ids and burns its receipt.
+    /// @param user Owner of the stake.
+    /// @param stakeId Identifier of the stake.
+    function _closeStake(address user, uint256 stakeId) private {
+        _removeStakeId(user, stakeId);
+        delete _stakeIdIndex[stakeId];
+        delete _stakes[stakeId];
+
+        if (address(receipts) != address(0)) {
+            receipts.burn(stakeId);
+        }
+    }
+
+    /// @notice Appends a stake id to an account's list of open stake ids.
+    /// @param user Account whose list is updated.
+    /// @param stakeId Identifier to add.
+    function _addStakeId(address user, uint256 stakeId) private {
+        _stakeIdIndex[stakeId] = _stakeIds[user].length;
+        _stakeIds[user].push(stakeId);
+    }
 
-        (bool sent, ) = msg.sender.call{value: uint256(decryptedAmount)}("");
-        require(sent, "ETH transfer failed");
+    /// @notice Removes a stake id from an account's list of open stake ids.
+    /// @param user Account whose list is updated.
+    /// @param stakeId Identifier to remove.
+    function _removeStakeId(address user, uint256 stakeId) private {
+        uint256[] storage ids = _stakeIds[user];
+        uint256 index = _stakeIdIndex[stakeId];
+        uint256 lastId = ids[ids.length - 1];
 
-        emit WithdrawalFinalized(msg.sender, decryptedAmount, handles[0]);
+        ids[index] = lastId;
+        _stakeIdIndex[lastId] = index;
+        ids.pop();
     }
 }
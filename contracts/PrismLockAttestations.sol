@@ -0,0 +1,150 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint64, euint128} from "@fhevm/solidity/lib/FHE.sol";
+import {PrismLockStorage} from "./PrismLockStorage.sol";
+
+/// @title PrismLockAttestations
+/// @notice Threshold attestations over PrismLock stakes: proofs that an account keeps at least some amount of ETH
+/// locked until a date, without revealing any stake amount.
+/// @dev Reached through the PrismLock fallback, which delegates to it, so it runs on the vault storage and under the
+/// vault address for the FHEVM ACL. Calling it directly operates on its own empty storage.
+contract PrismLockAttestations is PrismLockStorage {
+    /// @notice Emitted when an attestation is computed and its result opened to public decryption.
+    /// @param attestationId Identifier of the attestation.
+    /// @param user Account whose stakes are attested.
+    /// @param threshold Minimum locked amount, in wei.
+    /// @param expiry Timestamp the amount must stay locked until.
+    /// @param encryptedResult Publicly decryptable handle of the result.
+    event AttestationRequested(
+        uint256 indexed attestationId,
+        address indexed user,
+        uint128 threshold,
+        uint64 expiry,
+        bytes32 encryptedResult
+    );
+    /// @notice Emitted when the result of an attestation is recorded.
+    /// @param attestationId Identifier of the attestation.
+    /// @param user Account whose stakes are attested.
+    /// @param threshold Minimum locked amount, in wei.
+    /// @param expiry Timestamp the amount must stay locked until.
+    /// @param result Whether the account holds at least `threshold` locked until `expiry`.
+    event AttestationIssued(
+        uint256 indexed attestationId,
+        address indexed user,
+        uint128 threshold,
+        uint64 expiry,
+        bool result
+    );
+
+    /// @notice Thrown when the expiry is not in the future.
+    error InvalidAttestation();
+    /// @notice Thrown when the attestation id was never issued.
+    error AttestationNotFound();
+    /// @notice Thrown when the attestation result is already recorded.
+    error AttestationAlreadyFinalized();
+
+    /// @notice Starts an attestation that the caller holds at least `threshold` wei in ETH stakes locked until
+    /// `expiry`, without revealing any amount.
+    /// @dev Under FHE, sums the amounts of the caller's ETH stakes whose unlock time is at or after `expiry` and
+    /// compares the total with `threshold`; a private-duration stake counts with its hidden unlock time. Only the
+    /// resulting `ebool` is made publicly decryptable; the attestation is recorded once `finalizeAttestation` verifies
+    /// its decryption.
+    /// @param threshold Minimum locked amount, in wei.
+    /// @param expiry Timestamp the amount must stay locked until; the attestation is valid up to it.
+    /// @return attestationId Identifier of the pending attestation.
+    function requestAttestation(uint128 threshold, uint64 expiry) external returns (uint256 attestationId) {
+        if (expiry <= block.timestamp) {
+            revert InvalidAttestation();
+        }
+
+        euint64 encryptedExpiry = FHE.asEuint64(expiry);
+        euint128 zero = FHE.asEuint128(0);
+        euint128 locked = zero;
+        uint256[] storage ids = _stakeIds[msg.sender];
+        for (uint256 i = 0; i < ids.length; ++i) {
+            StakeData storage data = _stakes[ids[i]];
+            if (data.token != address(0) || data.withdrawalRequested || data.vesting) {
+                continue;
+            }
+            euint64 unlockTimestamp = FHE.isInitialized(data.encryptedUnlock)
+                ? data.encryptedUnlock
+                : FHE.asEuint64(data.startTimestamp + data.lockDuration);
+            ebool lockedLongEnough = FHE.ge(unlockTimestamp, encryptedExpiry);
+            locked = FHE.add(locked, FHE.select(lockedLongEnough, data.encryptedAmount, zero));
+        }
+
+        ebool result = FHE.ge(locked, threshold);
+        FHE.allowThis(result);
+        FHE.makePubliclyDecryptable(result);
+
+        attestationId = ++_lastAttestationId;
+        _attestations[attestationId] = Attestation({
+            user: msg.sender,
+            threshold: threshold,
+            expiry: expiry,
+            issuedAt: uint64(block.timestamp),
+            exitCount: _earlyExitCount[msg.sender],
+            encryptedResult: result,
+            finalized: false,
+            result: false
+        });
+
+        emit AttestationRequested(attestationId, msg.sender, threshold, expiry, FHE.toBytes32(result));
+    }
+
+    /// @notice Records the outcome of an attestation using the relayer-generated public decryption proof.
+    /// @dev Callable by anyone, such as the partner relying on the attestation; the proof binds the result.
+    /// @param attestationId Identifier returned by `requestAttestation`.
+    /// @param abiEncodedCleartexts ABI-encoded decrypted boolean returned by the relayer.
+    /// @param decryptionProof Proof of correctness for the decrypted value.
+    function finalizeAttestation(
+        uint256 attestationId,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external {
+        Attestation storage attestation = _attestations[attestationId];
+        if (attestation.user == address(0)) {
+            revert AttestationNotFound();
+        }
+        if (attestation.finalized) {
+            revert AttestationAlreadyFinalized();
+        }
+
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(attestation.encryptedResult);
+        FHE.checkSignatures(handles, abiEncodedCleartexts, decryptionProof);
+
+        attestation.finalized = true;
+        attestation.result = abi.decode(abiEncodedCleartexts, (bool));
+
+        emit AttestationIssued(
+            attestationId,
+            attestation.user,
+            attestation.threshold,
+            attestation.expiry,
+            attestation.result
+        );
+    }
+
+    /// @notice Returns the recorded data of an attestation.
+    /// @param attestationId Identifier of the attestation.
+    /// @return Subject, threshold, expiry, issue time, result handle and, once finalized, the decrypted result.
+    function getAttestation(uint256 attestationId) external view returns (Attestation memory) {
+        return _attestations[attestationId];
+    }
+
+    /// @notice Returns whether an attestation currently proves its claim, for contracts that gate on it.
+    /// @dev False before finalization, after `expiry`, and once its subject has exited any stake early, since an early
+    /// or emergency exit can release funds the attestation counted.
+    /// @param attestationId Identifier of the attestation.
+    /// @return True when the attested amount is still locked.
+    function isAttestationValid(uint256 attestationId) external view returns (bool) {
+        Attestation storage attestation = _attestations[attestationId];
+        return
+            attestation.finalized &&
+            attestation.result &&
+            block.timestamp < attestation.expiry &&
+            _earlyExitCount[attestation.user] == attestation.exitCount;
+    }
+}
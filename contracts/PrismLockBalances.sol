@@ -0,0 +1,133 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint128, externalEuint128} from "@fhevm/solidity/lib/FHE.sol";
+import {ReentrancyGuardTransient} from "@openzeppelin/contracts/utils/ReentrancyGuardTransient.sol";
+import {PrismLockStorage} from "./PrismLockStorage.sol";
+
+/// @title PrismLockBalances
+/// @notice Pooled ETH balances of a PrismLock vault: the encrypted shielded balance stakes are allocated from, and the
+/// claimable balance that collects payouts a recipient rejected.
+/// @dev Reached through the PrismLock fallback, which delegates to it, so it runs on the vault storage and under the
+/// vault address for the FHEVM ACL. The reentrancy lock lives in a fixed transient slot shared with the vault.
+/// Calling it directly operates on its own empty storage.
+contract PrismLockBalances is PrismLockStorage, ReentrancyGuardTransient {
+    /// @notice Emitted when ETH is added to a shielded balance.
+    /// @param user Owner of the balance.
+    /// @param encryptedBalance Handle of the new encrypted balance.
+    event Deposited(address indexed user, bytes32 encryptedBalance);
+    /// @notice Emitted when part of a shielded balance is set aside for withdrawal and made publicly decryptable.
+    /// @param user Owner of the balance.
+    /// @param encryptedAmount Handle of the amount to withdraw.
+    event BalanceWithdrawalRequested(address indexed user, bytes32 encryptedAmount);
+    /// @notice Emitted when a balance withdrawal is paid out.
+    /// @param user Owner of the balance.
+    /// @param amount Decrypted amount, in wei.
+    /// @param encryptedAmount Handle the amount was decrypted from.
+    event BalanceWithdrawalFinalized(address indexed user, uint256 amount, bytes32 encryptedAmount);
+    /// @notice Emitted when an account pulls its claimable balance.
+    /// @param user Account paid.
+    /// @param amount Amount paid, in wei.
+    event Claimed(address indexed user, uint256 amount);
+
+    /// @notice Thrown when a balance withdrawal is already awaiting finalization.
+    error BalanceWithdrawalPending();
+    /// @notice Thrown when there is no balance withdrawal to finalize.
+    error NoBalanceWithdrawalPending();
+    /// @notice Thrown when the caller has no claimable balance.
+    error NothingToClaim();
+    /// @notice Thrown when the caller rejects its own claim.
+    error ClaimTransferFailed();
+
+    /// @notice Adds ETH to the caller's pooled shielded balance, from which stakes can be allocated privately.
+    function deposit() external payable {
+        euint128 balance = FHE.add(_shieldedBalances[msg.sender], _checkedValue());
+        _shieldedBalances[msg.sender] = balance;
+
+        FHE.allow(balance, msg.sender);
+        FHE.allowThis(balance);
+
+        emit Deposited(msg.sender, FHE.toBytes32(balance));
+    }
+
+    /// @notice Carves an encrypted amount out of the shielded balance and marks it for public decryption.
+    /// @param encryptedAmount Encrypted amount to withdraw, bound to this contract and the caller.
+    /// @param inputProof Proof accompanying the encrypted input.
+    function requestBalanceWithdrawal(externalEuint128 encryptedAmount, bytes calldata inputProof) external {
+        if (FHE.isInitialized(_pendingBalanceWithdrawals[msg.sender])) {
+            revert BalanceWithdrawalPending();
+        }
+
+        euint128 withdrawn = _debitShieldedBalance(FHE.fromExternal(encryptedAmount, inputProof));
+        _pendingBalanceWithdrawals[msg.sender] = withdrawn;
+
+        FHE.allowThis(withdrawn);
+        FHE.makePubliclyDecryptable(withdrawn);
+
+        emit BalanceWithdrawalRequested(msg.sender, FHE.toBytes32(withdrawn));
+    }
+
+    /// @notice Releases a pending balance withdrawal using the relayer-generated public decryption proof.
+    /// @param abiEncodedCleartexts ABI-encoded decrypted value returned by the relayer.
+    /// @param decryptionProof Proof of correctness for the decrypted value.
+    function finalizeBalanceWithdrawal(
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external nonReentrant {
+        euint128 pending = _pendingBalanceWithdrawals[msg.sender];
+        if (!FHE.isInitialized(pending)) {
+            revert NoBalanceWithdrawalPending();
+        }
+
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(pending);
+
+        FHE.checkSignatures(handles, abiEncodedCleartexts, decryptionProof);
+
+        uint128 decryptedAmount = abi.decode(abiEncodedCleartexts, (uint128));
+
+        _pendingBalanceWithdrawals[msg.sender] = euint128.wrap(bytes32(0));
+
+        _sendValue(msg.sender, decryptedAmount);
+
+        emit BalanceWithdrawalFinalized(msg.sender, decryptedAmount, handles[0]);
+    }
+
+    /// @notice Pays out the caller's claimable balance, built up from finalized payouts that their address rejected.
+    function claim() external nonReentrant {
+        uint256 amount = _claimable[msg.sender];
+        if (amount == 0) {
+            revert NothingToClaim();
+        }
+
+        _claimable[msg.sender] = 0;
+
+        (bool sent, ) = msg.sender.call{value: amount}("");
+        if (!sent) {
+            revert ClaimTransferFailed();
+        }
+
+        emit Claimed(msg.sender, amount);
+    }
+
+    /// @notice Returns the ETH an account can pull through `claim`.
+    /// @param user Account to inspect.
+    /// @return amount Claimable amount in wei, in the clear since it comes from already decrypted payouts.
+    function claimableOf(address user) external view returns (uint256 amount) {
+        return _claimable[user];
+    }
+
+    /// @notice Returns the encrypted shielded balance handle for an account.
+    /// @param user Account to inspect.
+    /// @return handle Handle of the encrypted balance, or zero when the account never deposited.
+    function getShieldedBalance(address user) external view returns (bytes32 handle) {
+        return FHE.toBytes32(_shieldedBalances[user]);
+    }
+
+    /// @notice Returns the pending balance withdrawal handle for an account.
+    /// @param user Account to inspect.
+    /// @return handle Handle of the amount awaiting finalization, or zero when nothing is pending.
+    function getPendingBalanceWithdrawal(address user) external view returns (bytes32 handle) {
+        return FHE.toBytes32(_pendingBalanceWithdrawals[user]);
+    }
+}
@@ -0,0 +1,115 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {ERC721} from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import {Base64} from "@openzeppelin/contracts/utils/Base64.sol";
+import {Strings} from "@openzeppelin/contracts/utils/Strings.sol";
+import {PrismLock} from "./PrismLock.sol";
+
+/// @title PrismLockReceipts
+/// @notice ERC-721 receipts for PrismLock positions: the token id is the stake id and its holder owns the stake.
+/// @dev Only PrismLock mints and burns. Every transfer calls back into PrismLock, which hands the stake, its
+/// withdrawal rights and a freshly encrypted amount to the new holder. Metadata never includes the amount.
+contract PrismLockReceipts is ERC721 {
+    /// @notice Vault whose positions these receipts represent.
+    PrismLock public immutable PRISM_LOCK;
+
+    /// @notice Thrown when a mint or burn does not come from the vault.
+    error NotPrismLock();
+
+    /// @notice Binds the receipts to their vault.
+    /// @param prismLock Vault proxy allowed to mint and burn receipts.
+    constructor(PrismLock prismLock) ERC721("PrismLock Stake Receipt", "PLSR") {
+        PRISM_LOCK = prismLock;
+    }
+
+    modifier onlyPrismLock() {
+        if (msg.sender != address(PRISM_LOCK)) {
+            revert NotPrismLock();
+        }
+        _;
+    }
+
+    /// @notice Issues the receipt of a newly opened stake.
+    /// @param to Owner of the stake.
+    /// @param stakeId Identifier of the stake, used as token id.
+    function mint(address to, uint256 stakeId) external onlyPrismLock {
+        _mint(to, stakeId);
+    }
+
+    /// @notice Burns the receipt of a closed stake; stakes opened before receipts existed have none.
+    /// @param stakeId Identifier of the closed stake.
+    function burn(uint256 stakeId) external onlyPrismLock {
+        if (_ownerOf(stakeId) != address(0)) {
+            _burn(stakeId);
+        }
+    }
+
+    /// @notice Returns on-chain JSON metadata with the asset, lock duration and unlock time of the stake.
+    /// @dev A private-duration stake only has public lower bounds for its timing, so both traits read "Private".
+    /// @param stakeId Identifier of the stake.
+    /// @return A `data:application/json;base64` URI; the encrypted amount is deliberately left out.
+    function tokenURI(uint256 stakeId) public view override returns (string memory) {
+        _requireOwned(stakeId);
+        PrismLock.StakeSummary memory summary = PRISM_LOCK.getStakeSummary(stakeId);
+
+        string memory asset = summary.token == address(0) ? "ETH" : Strings.toHexString(summary.token);
+        bool privateDuration = summary.encryptedLockDuration != bytes32(0);
+        bytes memory json = abi.encodePacked(
+            "{\x22name\x22:\x22PrismLock stake #",
+            Strings.toString(stakeId),
+            "\x22,\x22description\x22:\x22Encrypted PrismLock position. Only the holder can decrypt the amount.\x22,",
+            "\x22attributes\x22:[",
+            _trait("Asset", asset, ""),
+            ",",
+            privateDuration
+                ? _trait("Lock duration (seconds)", "Private", "")
+                : _trait("Lock duration (seconds)", Strings.toString(summary.lockDuration), "number"),
+            ",",
+            privateDuration
+                ? _trait("Unlock time", "Private", "")
+                : _trait("Unlock time", Strings.toString(summary.unlockTimestamp), "date"),
+            ",",
+            _trait("Schedule", summary.vesting ? "Linear vesting" : "Cliff unlock", ""),
+            "]}"
+        );
+        return string.concat("data:application/json;base64,", Base64.encode(json));
+    }
+
+    /// @notice Renders one OpenSea-style attribute; an empty display type marks a quoted text value.
+    /// @param traitType Attribute name.
+    /// @param value Attribute value, already rendered.
+    /// @param displayType OpenSea display type, or empty for text.
+    /// @return JSON object of the attribute.
+    function _trait(
+        string memory traitType,
+        string memory value,
+        string memory displayType
+    ) private pure returns (bytes memory) {
+        if (bytes(displayType).length == 0) {
+            return abi.encodePacked("{\x22trait_type\x22:\x22", traitType, "\x22,\x22value\x22:\x22", value, "\x22}");
+        }
+        return
+            abi.encodePacked(
+                "{\x22trait_type\x22:\x22",
+                traitType,
+                "\x22,\x22display_type\x22:\x22",
+                displayType,
+                "\x22,\x22value\x22:",
+                value,
+                "}"
+            );
+    }
+
+    /// @notice Moves the stake along with the token on transfers; mints and burns come from PrismLock itself.
+    /// @param to New holder, or zero on burns.
+    /// @param tokenId Receipt id, which is the stake id.
+    /// @param auth Account authorized by the caller, see `ERC721._update`.
+    /// @return from Previous holder, or zero on mints.
+    function _update(address to, uint256 tokenId, address auth) internal override returns (address from) {
+        from = super._update(to, tokenId, auth);
+        if (from != address(0) && to != address(0)) {
+            PRISM_LOCK.onReceiptTransfer(tokenId, to);
+        }
+    }
+}
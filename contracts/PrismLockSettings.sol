@@ -0,0 +1,269 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE} from "@fhevm/solidity/lib/FHE.sol";
+import {OwnableUpgradeable} from "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import {PrismLockReceipts} from "./PrismLockReceipts.sol";
+import {PrismLockStats} from "./PrismLockStats.sol";
+import {PrismLockStorage} from "./PrismLockStorage.sol";
+
+/// @title PrismLockSettings
+/// @notice Configuration of a PrismLock vault: the parameters its owner sets, and the preferences each staker sets on
+/// their account and stakes, such as beneficiaries, heirs, keeper opt-in and viewers.
+/// @dev Reached through the PrismLock fallback, which delegates to it, so it runs on the vault storage and under the
+/// vault address for the FHEVM ACL. Ownership lives in the ERC-7201 namespace of `OwnableUpgradeable`, which is the
+/// vault's own. Calling it directly operates on its own empty storage.
+contract PrismLockSettings is PrismLockStorage, OwnableUpgradeable {
+    /// @notice Most viewers an account can grant at once; every grant and revocation loops over them.
+    uint256 public constant MAX_VIEWERS = 10;
+
+    /// @notice Emitted when a confidential token is added to or removed from the stakeable assets.
+    /// @param token ERC-7984 token address.
+    /// @param allowed Whether new stakes of the token are accepted.
+    event TokenAllowed(address indexed token, bool allowed);
+    /// @notice Emitted when the lock duration range for new stakes changes.
+    /// @param minLockDuration Shortest lock, in seconds.
+    /// @param maxLockDuration Longest lock, in seconds.
+    event LockDurationBoundsUpdated(uint64 minLockDuration, uint64 maxLockDuration);
+    /// @notice Emitted when the size range for new ETH stakes changes.
+    /// @param minStakeAmount Smallest amount, in wei.
+    /// @param maxStakeAmount Largest amount, in wei.
+    event StakeAmountBoundsUpdated(uint128 minStakeAmount, uint128 maxStakeAmount);
+    /// @notice Emitted when new stakes are paused or resumed.
+    /// @param paused Whether new stakes are rejected.
+    event StakingPausedUpdated(bool paused);
+    /// @notice Emitted when the emergency mode is turned on or off.
+    /// @param enabled Whether the emergency mode is active.
+    event EmergencyModeUpdated(bool enabled);
+    /// @notice Emitted when the receipts contract changes.
+    /// @param receipts New receipts contract, or zero when disabled.
+    event ReceiptsUpdated(address indexed receipts);
+    /// @notice Emitted when the stats contract changes.
+    /// @param stats New stats contract, or zero when disabled.
+    event StatsUpdated(address indexed stats);
+    /// @notice Emitted when the owner of a stake names or removes its heir.
+    /// @param user Owner of the stake.
+    /// @param stakeId Identifier of the stake.
+    /// @param heir Account that inherits the stake, or zero when removed.
+    /// @param inactivityPeriod Silence, in seconds, after which the heir may step in.
+    event HeirUpdated(address indexed user, uint256 indexed stakeId, address indexed heir, uint64 inactivityPeriod);
+    /// @notice Emitted when an account shows a sign of life.
+    /// @param user Account that pinged.
+    event Pinged(address indexed user);
+    /// @notice Emitted when an account opts in or out of keeper-driven withdrawals.
+    /// @param user Account whose stakes are affected.
+    /// @param enabled Whether keepers may withdraw the account's stakes.
+    event KeeperOptInUpdated(address indexed user, bool enabled);
+    /// @notice Emitted when an account lets a viewer decrypt its stake amounts.
+    /// @param user Account granting access.
+    /// @param viewer Account granted read access.
+    event ViewerGranted(address indexed user, address indexed viewer);
+    /// @notice Emitted when an account withdraws a viewer's read access.
+    /// @param user Account revoking access.
+    /// @param viewer Account losing read access.
+    event ViewerRevoked(address indexed user, address indexed viewer);
+
+    /// @notice Thrown when a range has its lower bound above its upper bound, or a zero minimum lock.
+    error InvalidBounds();
+    /// @notice Thrown when an heir is named without an inactivity period.
+    error InvalidInactivityPeriod();
+    /// @notice Thrown when the viewer is the zero address or the caller.
+    error InvalidViewer();
+    /// @notice Thrown when the viewer already has read access.
+    error ViewerAlreadyGranted();
+    /// @notice Thrown when the viewer has no read access to revoke.
+    error ViewerNotGranted();
+    /// @notice Thrown when the caller already granted `MAX_VIEWERS` viewers.
+    error TooManyViewers();
+
+    /// @notice Adds or removes a confidential token from the list of stakeable assets.
+    /// @dev Removing a token only blocks new stakes; existing token stakes can still be withdrawn.
+    /// @param token ERC-7984 token address.
+    /// @param allowed Whether new stakes of the token are accepted.
+    function setTokenAllowed(address token, bool allowed) external onlyOwner {
+        _allowedTokens[token] = allowed;
+        emit TokenAllowed(token, allowed);
+    }
+
+    /// @notice Sets the lock duration range accepted for new stakes and lock extensions.
+    /// @dev Existing stakes keep their duration; only new stakes and extensions are checked against the range.
+    /// @param newMinLockDuration Shortest lock in seconds, at least one second.
+    /// @param newMaxLockDuration Longest lock in seconds, at least `newMinLockDuration`.
+    function setLockDurationBounds(uint64 newMinLockDuration, uint64 newMaxLockDuration) external onlyOwner {
+        if (newMinLockDuration == 0 || newMinLockDuration > newMaxLockDuration) {
+            revert InvalidBounds();
+        }
+        minLockDuration = newMinLockDuration;
+        maxLockDuration = newMaxLockDuration;
+        emit LockDurationBoundsUpdated(newMinLockDuration, newMaxLockDuration);
+    }
+
+    /// @notice Sets the size range, in wei, accepted for new ETH stakes.
+    /// @dev Cleartext stakes revert outside the range. Shielded allocations are encrypted, so an out-of-range
+    /// request allocates zero instead of reverting, like an allocation the balance cannot cover.
+    /// @param newMinStakeAmount Smallest accepted amount.
+    /// @param newMaxStakeAmount Largest accepted amount, at least `newMinStakeAmount`.
+    function setStakeAmountBounds(uint128 newMinStakeAmount, uint128 newMaxStakeAmount) external onlyOwner {
+        if (newMinStakeAmount > newMaxStakeAmount) {
+            revert InvalidBounds();
+        }
+        minStakeAmount = newMinStakeAmount;
+        maxStakeAmount = newMaxStakeAmount;
+        emit StakeAmountBoundsUpdated(newMinStakeAmount, newMaxStakeAmount);
+    }
+
+    /// @notice Pauses or resumes new stakes and top ups. Withdrawals are never paused.
+    /// @param paused Whether new stakes are rejected.
+    function setStakingPaused(bool paused) external onlyOwner {
+        stakingPaused = paused;
+        emit StakingPausedUpdated(paused);
+    }
+
+    /// @notice Turns the emergency mode on or off.
+    /// @dev While enabled, `emergencyWithdraw` releases the principal of ETH stakes and `withdrawToken` ignores the
+    /// lock, so funds can leave without waiting for maturity.
+    /// @param enabled Whether the emergency mode is active.
+    function setEmergencyMode(bool enabled) external onlyOwner {
+        emergencyMode = enabled;
+        emit EmergencyModeUpdated(enabled);
+    }
+
+    /// @notice Sets the receipts contract that mints an ERC-721 for every stake opened from now on.
+    /// @param newReceipts Receipts contract bound to this vault, or zero to stop minting receipts.
+    function setReceipts(PrismLockReceipts newReceipts) external onlyOwner {
+        receipts = newReceipts;
+        emit ReceiptsUpdated(address(newReceipts));
+    }
+
+    /// @notice Sets the contract that aggregates the encrypted total value locked from now on.
+    /// @param newStats Stats contract bound to this vault, or zero to stop reporting.
+    function setStats(PrismLockStats newStats) external onlyOwner {
+        stats = newStats;
+        emit StatsUpdated(address(newStats));
+    }
+
+    /// @notice Indicates whether a confidential token can currently be staked.
+    /// @param token ERC-7984 token address.
+    /// @return allowed True when new stakes of the token are accepted.
+    function isTokenAllowed(address token) external view returns (bool allowed) {
+        return _allowedTokens[token];
+    }
+
+    /// @notice Changes the address that receives the withdrawal of a position.
+    /// @dev Also replaces an heir who took over a requested withdrawal, for good.
+    /// @param stakeId Identifier of the position.
+    /// @param beneficiary New recipient, or zero to pay the staker.
+    function setBeneficiary(uint256 stakeId, address beneficiary) external {
+        StakeData storage data = _ownedStake(stakeId);
+        data.beneficiary = beneficiary;
+        data.inherited = false;
+        emit BeneficiaryUpdated(msg.sender, stakeId, beneficiary);
+    }
+
+    /// @notice Names an heir who can withdraw a matured stake once its owner has stopped showing signs of life.
+    /// @dev The heir can go through `requestWithdrawalFor` and `finalizeWithdrawalFor` once the stake has been
+    /// matured for `inactivityPeriod` and the owner has not called `ping` or `setHeir` within that period either.
+    /// @param stakeId Identifier of an ETH position with a cliff unlock.
+    /// @param heir Account that inherits the stake, or zero to remove the heir.
+    /// @param inactivityPeriod Silence, in seconds, after which the heir may step in; non-zero when an heir is named.
+    function setHeir(uint256 stakeId, address heir, uint64 inactivityPeriod) external {
+        StakeData storage data = _ownedEthStake(stakeId);
+        if (heir != address(0) && inactivityPeriod == 0) {
+            revert InvalidInactivityPeriod();
+        }
+        data.heir = heir;
+        data.inactivityPeriod = inactivityPeriod;
+        lastPing[msg.sender] = uint64(block.timestamp);
+        emit HeirUpdated(msg.sender, stakeId, heir, inactivityPeriod);
+    }
+
+    /// @notice Proves the caller still controls their key, restarting the inactivity period of all their stakes.
+    function ping() external {
+        lastPing[msg.sender] = uint64(block.timestamp);
+        emit Pinged(msg.sender);
+    }
+
+    /// @notice Opts the caller's ETH stakes in or out of keeper-driven withdrawals.
+    /// @dev Keepers can only move funds to the staker or their beneficiary, never to themselves.
+    /// @param enabled Whether `requestWithdrawalFor` and `finalizeWithdrawalFor` may act on the caller's stakes.
+    function setKeeperOptIn(bool enabled) external {
+        _keeperOptIn[msg.sender] = enabled;
+        emit KeeperOptInUpdated(msg.sender, enabled);
+    }
+
+    /// @notice Returns whether keepers may complete withdrawals for `user`.
+    /// @param user Account to inspect.
+    /// @return enabled True when the account opted in.
+    function isKeeperOptedIn(address user) external view returns (bool enabled) {
+        return _keeperOptIn[user];
+    }
+
+    /// @notice Lets `viewer`, such as an auditor, decrypt the amounts of the caller's current and future stakes.
+    /// @param viewer Account granted read access; it cannot move or withdraw anything.
+    function grantViewer(address viewer) external {
+        if (viewer == address(0) || viewer == msg.sender) {
+            revert InvalidViewer();
+        }
+        if (_viewerPosition[msg.sender][viewer] != 0) {
+            revert ViewerAlreadyGranted();
+        }
+        if (_viewers[msg.sender].length == MAX_VIEWERS) {
+            revert TooManyViewers();
+        }
+
+        _viewers[msg.sender].push(viewer);
+        _viewerPosition[msg.sender][viewer] = _viewers[msg.sender].length;
+
+        uint256[] storage ids = _stakeIds[msg.sender];
+        for (uint256 i = 0; i < ids.length; ++i) {
+            FHE.allow(_stakes[ids[i]].encryptedAmount, viewer);
+        }
+
+        emit ViewerGranted(msg.sender, viewer);
+    }
+
+    /// @notice Withdraws the read access of `viewer` to the caller's stakes.
+    /// @dev ACL grants cannot be removed, so every stake still in its lock is re-encrypted under a fresh handle
+    /// shared with the owner and the remaining viewers only. The revoked viewer keeps access to the old handles, that
+    /// is to amounts it could already see. Amounts already requested for withdrawal are public and left untouched.
+    /// @param viewer Account losing read access.
+    function revokeViewer(address viewer) external {
+        uint256 position = _viewerPosition[msg.sender][viewer];
+        if (position == 0) {
+            revert ViewerNotGranted();
+        }
+
+        address[] storage viewers = _viewers[msg.sender];
+        address last = viewers[viewers.length - 1];
+        viewers[position - 1] = last;
+        _viewerPosition[msg.sender][last] = position;
+        viewers.pop();
+        delete _viewerPosition[msg.sender][viewer];
+
+        uint256[] storage ids = _stakeIds[msg.sender];
+        for (uint256 i = 0; i < ids.length; ++i) {
+            StakeData storage data = _stakes[ids[i]];
+            if (!data.withdrawalRequested) {
+                data.encryptedAmount = FHE.add(data.encryptedAmount, uint128(0));
+                _allowStakeAmount(data.encryptedAmount, msg.sender);
+            }
+        }
+
+        emit ViewerRevoked(msg.sender, viewer);
+    }
+
+    /// @notice Lists the accounts that can currently decrypt the stake amounts of `user`.
+    /// @param user Account to inspect.
+    /// @return viewers Granted viewers, in no particular order.
+    function getViewers(address user) external view returns (address[] memory viewers) {
+        return _viewers[user];
+    }
+
+    /// @notice Returns whether `viewer` can currently decrypt the stake amounts of `user`.
+    /// @param user Account to inspect.
+    /// @param viewer Account whose access is checked.
+    /// @return granted True when `viewer` was granted and not revoked.
+    function isViewer(address user, address viewer) external view returns (bool granted) {
+        return _viewerPosition[user][viewer] != 0;
+    }
+}
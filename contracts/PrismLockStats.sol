@@ -0,0 +1,178 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint64, euint128} from "@fhevm/solidity/lib/FHE.sol";
+import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {PrismLock} from "./PrismLock.sol";
+
+/// @title PrismLockStats
+/// @notice Encrypted aggregates of a PrismLock vault: the principal locked in ETH stakes and the number of open ETH
+/// stakes per lock duration bucket. The total can be publicly revealed on a schedule; nothing else is ever public.
+/// @dev PrismLock reports every change with a transient ACL grant on the handle it adds or removes. The aggregates
+/// are decryptable by the PrismLock owner, and only cover stakes opened while this contract was set on the vault.
+contract PrismLockStats is ZamaEthereumConfig {
+    /// @notice Shortest time between two reveal requests, so that reveals cannot be timed around a single stake to
+    /// isolate its amount.
+    uint64 public constant REVEAL_INTERVAL = 1 days;
+    /// @notice Number of lock duration buckets, see `durationBucket`.
+    uint8 public constant DURATION_BUCKETS = 5;
+
+    /// @notice Vault whose stakes are aggregated.
+    PrismLock public immutable PRISM_LOCK;
+
+    euint128 private _totalValueLocked;
+    mapping(uint8 bucket => euint64 count) private _stakeCounts;
+    euint128 private _pendingReveal;
+    uint64 private _lastRequestAt;
+
+    /// @notice Account allowed, besides the PrismLock owner, to request reveals of the total value locked.
+    address public revealer;
+    /// @notice Total value locked, in wei, as of the last finalized reveal.
+    uint128 public revealedTotalValueLocked;
+    /// @notice Time the last revealed total was taken at, or zero before the first reveal.
+    uint64 public revealedAt;
+
+    /// @notice Emitted when the PrismLock owner changes the revealer.
+    /// @param revealer New revealer, or zero when reveals are left to the owner.
+    event RevealerUpdated(address indexed revealer);
+    /// @notice Emitted when a snapshot of the total value locked is opened to public decryption.
+    /// @param requester Account that requested the reveal.
+    /// @param snapshotTimestamp Time the snapshot was taken.
+    /// @param encryptedTotal Publicly decryptable handle of the snapshot.
+    event RevealRequested(address indexed requester, uint64 snapshotTimestamp, bytes32 encryptedTotal);
+    /// @notice Emitted when a snapshot is published.
+    /// @param totalValueLocked Total value locked, in wei.
+    /// @param snapshotTimestamp Time the snapshot was taken.
+    event TotalValueLockedRevealed(uint128 totalValueLocked, uint64 snapshotTimestamp);
+
+    /// @notice Thrown when a report does not come from the vault.
+    error NotPrismLock();
+    /// @notice Thrown when the caller is neither the PrismLock owner nor, for reveals, the revealer.
+    error NotAuthorized();
+    /// @notice Thrown when the previous reveal was requested less than `REVEAL_INTERVAL` ago.
+    error RevealTooSoon();
+    /// @notice Thrown when there is no snapshot to publish.
+    error NoRevealPending();
+
+    /// @notice Binds the aggregates to their vault.
+    /// @param prismLock Vault proxy allowed to report to this contract.
+    constructor(PrismLock prismLock) {
+        PRISM_LOCK = prismLock;
+    }
+
+    modifier onlyPrismLock() {
+        if (msg.sender != address(PRISM_LOCK)) {
+            revert NotPrismLock();
+        }
+        _;
+    }
+
+    /// @notice Adds an encrypted amount to, or removes it from, the total value locked.
+    /// @param amount Principal entering or leaving the ETH stakes, transiently allowed to this contract.
+    /// @param added Whether the principal enters the stakes.
+    function recordValue(euint128 amount, bool added) external onlyPrismLock {
+        euint128 total = added ? FHE.add(_totalValueLocked, amount) : FHE.sub(_totalValueLocked, amount);
+        _totalValueLocked = total;
+        FHE.allowThis(total);
+        FHE.allow(total, PRISM_LOCK.owner());
+    }
+
+    /// @notice Adds or removes one open ETH stake from the encrypted count of its duration bucket.
+    /// @param lockDurationSeconds Lock duration of the stake, which selects the bucket.
+    /// @param added Whether the stake enters the bucket or leaves it.
+    function recordStake(uint64 lockDurationSeconds, bool added) external onlyPrismLock {
+        uint8 bucket = durationBucket(lockDurationSeconds);
+        euint64 count = added ? FHE.add(_stakeCounts[bucket], uint64(1)) : FHE.sub(_stakeCounts[bucket], uint64(1));
+        _stakeCounts[bucket] = count;
+        FHE.allowThis(count);
+        FHE.allow(count, PRISM_LOCK.owner());
+    }
+
+    /// @notice Sets the account that may request reveals alongside the PrismLock owner.
+    /// @param newRevealer Reporting account, such as a scheduled job, or zero to leave it to the owner.
+    function setRevealer(address newRevealer) external {
+        if (msg.sender != PRISM_LOCK.owner()) {
+            revert NotAuthorized();
+        }
+        revealer = newRevealer;
+        emit RevealerUpdated(newRevealer);
+    }
+
+    /// @notice Snapshots the encrypted total value locked and opens the snapshot to public decryption.
+    /// @dev Restricted to the PrismLock owner and `revealer`, at most once per `REVEAL_INTERVAL`. The figure is
+    /// published by `finalizeReveal`.
+    function requestReveal() external {
+        if (msg.sender != PRISM_LOCK.owner() && msg.sender != revealer) {
+            revert NotAuthorized();
+        }
+        if (_lastRequestAt != 0 && block.timestamp < uint256(_lastRequestAt) + REVEAL_INTERVAL) {
+            revert RevealTooSoon();
+        }
+
+        euint128 snapshot = FHE.add(_totalValueLocked, uint128(0));
+        _pendingReveal = snapshot;
+        _lastRequestAt = uint64(block.timestamp);
+        FHE.allowThis(snapshot);
+        FHE.makePubliclyDecryptable(snapshot);
+
+        emit RevealRequested(msg.sender, _lastRequestAt, FHE.toBytes32(snapshot));
+    }
+
+    /// @notice Publishes the pending snapshot using the relayer-generated public decryption proof.
+    /// @dev Callable by anyone; the proof binds the figure to the snapshot.
+    /// @param abiEncodedCleartexts ABI-encoded decrypted total returned by the relayer.
+    /// @param decryptionProof Proof of correctness for the decrypted value.
+    function finalizeReveal(bytes calldata abiEncodedCleartexts, bytes calldata decryptionProof) external {
+        if (!FHE.isInitialized(_pendingReveal)) {
+            revert NoRevealPending();
+        }
+
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(_pendingReveal);
+        FHE.checkSignatures(handles, abiEncodedCleartexts, decryptionProof);
+
+        revealedTotalValueLocked = abi.decode(abiEncodedCleartexts, (uint128));
+        revealedAt = _lastRequestAt;
+        _pendingReveal = euint128.wrap(bytes32(0));
+
+        emit TotalValueLockedRevealed(revealedTotalValueLocked, revealedAt);
+    }
+
+    /// @notice Returns the handle of the encrypted total value locked, decryptable by the PrismLock owner.
+    /// @return handle Handle of the total, or zero before the first report.
+    function getTotalValueLocked() external view returns (bytes32 handle) {
+        return FHE.toBytes32(_totalValueLocked);
+    }
+
+    /// @notice Returns the handle of the encrypted number of open ETH stakes in a duration bucket.
+    /// @param bucket Bucket index, see `durationBucket`.
+    /// @return handle Handle of the count, decryptable by the PrismLock owner.
+    function getStakeCount(uint8 bucket) external view returns (bytes32 handle) {
+        return FHE.toBytes32(_stakeCounts[bucket]);
+    }
+
+    /// @notice Returns the handle of the snapshot awaiting `finalizeReveal`.
+    /// @return handle Publicly decryptable handle, or zero when no reveal is pending.
+    function getPendingReveal() external view returns (bytes32 handle) {
+        return FHE.toBytes32(_pendingReveal);
+    }
+
+    /// @notice Returns the bucket a lock duration is counted in; the boundaries follow the reward tiers.
+    /// @param lockDurationSeconds Lock duration expressed in seconds.
+    /// @return bucket Bucket index: under 30 days, 30 to 90 days, 90 to 180 days, 180 to 365 days, and a year or more.
+    function durationBucket(uint64 lockDurationSeconds) public pure returns (uint8 bucket) {
+        if (lockDurationSeconds < 30 days) {
+            return 0;
+        }
+        if (lockDurationSeconds < 90 days) {
+            return 1;
+        }
+        if (lockDurationSeconds < 180 days) {
+            return 2;
+        }
+        if (lockDurationSeconds < 365 days) {
+            return 3;
+        }
+        return 4;
+    }
+}
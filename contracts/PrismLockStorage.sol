@@ -0,0 +1,199 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint64, euint128} from "@fhevm/solidity/lib/FHE.sol";
+import {PrismLockReceipts} from "./PrismLockReceipts.sol";
+import {PrismLockStats} from "./PrismLockStats.sol";
+
+// The proxy layout is append-only and shared with every module, so all vault state has to live in this contract.
+// solhint-disable max-states-count
+/// @title PrismLockStorage
+/// @notice State of a PrismLock vault, shared by PrismLock and the modules it delegates calls to, together with the
+/// stake access checks and ETH accounting they all use.
+/// @dev Modules run on the proxy storage through `delegatecall`, so they inherit this contract and declare no state
+/// of their own. New state variables and struct members must only be appended.
+abstract contract PrismLockStorage {
+    // solhint-enable max-states-count
+    struct StakeData {
+        euint128 encryptedAmount;
+        euint128 encryptedReward;
+        address owner;
+        address token;
+        address beneficiary;
+        uint64 lockDuration;
+        uint64 startTimestamp;
+        bool withdrawalRequested;
+        bool exists;
+        euint128 encryptedRetainedAmount;
+        bool vesting;
+        uint64 cliffDuration;
+        uint128 claimedAmount;
+        euint128 encryptedPendingClaim;
+        bool finalClaimPending;
+        address heir;
+        uint64 inactivityPeriod;
+        euint64 encryptedLockDuration;
+        euint64 encryptedUnlock;
+        ebool encryptedMatured;
+        PrismLockStats reportedStats;
+        address maturityCheckHeir;
+        uint64 claimedElapsed;
+        uint64 pendingClaimElapsed;
+        bool inherited;
+        address previousBeneficiary;
+    }
+
+    struct Attestation {
+        address user;
+        uint64 expiry;
+        bool finalized;
+        bool result;
+        uint128 threshold;
+        uint64 issuedAt;
+        uint64 exitCount;
+        ebool encryptedResult;
+    }
+
+    /// @notice Gas forwarded with a pushed ETH payout, enough for a contract wallet that records the transfer.
+    uint256 public constant PAYOUT_GAS_LIMIT = 50_000;
+
+    /// @notice Emitted when an ETH payout is rejected by its recipient and credited to its claimable balance.
+    /// @param recipient Account that can pull the amount through `claim`.
+    /// @param amount Deferred amount, in wei.
+    event PaymentDeferred(address indexed recipient, uint256 amount);
+    /// @notice Emitted when the owner of a stake changes where its withdrawal is paid. Declared here so it is part of
+    /// the vault ABI that stake histories are indexed from.
+    /// @param user Owner of the stake.
+    /// @param stakeId Identifier of the stake.
+    /// @param beneficiary New recipient, or zero to pay the owner.
+    event BeneficiaryUpdated(address indexed user, uint256 indexed stakeId, address indexed beneficiary);
+
+    /// @notice Thrown when the amount is zero or outside the stake size bounds.
+    error InvalidStakeAmount();
+    /// @notice Thrown when the amount does not fit an encrypted 128-bit value, or exceeds the largest stake.
+    error StakeAmountTooLarge();
+    /// @notice Thrown when a stake id does not refer to an open position.
+    error NoActiveStake();
+    /// @notice Thrown when the caller does not own the stake.
+    error NotStakeOwner();
+    /// @notice Thrown when the stake's asset does not support the operation.
+    error UnsupportedAsset();
+    /// @notice Thrown when the operation does not apply to vesting stakes.
+    error VestingStake();
+
+    uint256 internal _lastStakeId;
+    mapping(uint256 stakeId => StakeData data) internal _stakes;
+    mapping(address user => uint256[] stakeIds) internal _stakeIds;
+    mapping(uint256 stakeId => uint256 index) internal _stakeIdIndex;
+    mapping(address user => bool enabled) internal _keeperOptIn;
+    mapping(address user => euint128 balance) internal _shieldedBalances;
+    mapping(address user => euint128 amount) internal _pendingBalanceWithdrawals;
+    mapping(address token => bool allowed) internal _allowedTokens;
+    euint128 internal _penaltyPool;
+    euint128 internal _rewardPool;
+
+    /// @notice Shortest lock accepted for new stakes, in seconds.
+    uint64 public minLockDuration;
+    /// @notice Longest lock accepted for new stakes and extensions, in seconds.
+    uint64 public maxLockDuration;
+    /// @notice Smallest ETH amount, in wei, accepted for a new stake.
+    uint128 public minStakeAmount;
+    /// @notice Largest ETH amount, in wei, accepted for a new stake.
+    uint128 public maxStakeAmount;
+    /// @notice Whether new stakes and top ups are currently rejected.
+    bool public stakingPaused;
+    /// @notice Whether stakers can withdraw their principal without waiting for the lock to end.
+    bool public emergencyMode;
+
+    mapping(address user => address[] viewers) internal _viewers;
+    mapping(address user => mapping(address viewer => uint256 position)) internal _viewerPosition;
+    uint256 internal _lastAttestationId;
+    mapping(uint256 attestationId => Attestation attestation) internal _attestations;
+    mapping(address user => uint64 count) internal _earlyExitCount;
+    /// @notice ERC-721 contract that mints a transferable receipt for every new stake, or zero when disabled.
+    PrismLockReceipts public receipts;
+    /// @notice Contract keeping the encrypted total value locked and stake counts per duration, or zero when disabled.
+    PrismLockStats public stats;
+    mapping(address user => uint256 amount) internal _claimable;
+    /// @notice Last time an account called `ping` or `setHeir`, which restarts the inactivity period of its stakes.
+    mapping(address user => uint64 timestamp) public lastPing;
+
+    /// @notice Keeps a stake amount usable by the contract and decryptable by its owner and the owner's viewers.
+    /// @param amount Encrypted stake amount.
+    /// @param user Owner of the stake.
+    function _allowStakeAmount(euint128 amount, address user) internal {
+        FHE.allowThis(amount);
+        FHE.allow(amount, user);
+        address[] storage viewers = _viewers[user];
+        for (uint256 i = 0; i < viewers.length; ++i) {
+            FHE.allow(amount, viewers[i]);
+        }
+    }
+
+    /// @notice Loads an open position and ensures it belongs to the caller.
+    /// @param stakeId Identifier of the position.
+    /// @return data Storage pointer to the stake.
+    function _ownedStake(uint256 stakeId) internal view returns (StakeData storage data) {
+        data = _stakes[stakeId];
+        if (!data.exists) {
+            revert NoActiveStake();
+        }
+        if (data.owner != msg.sender) {
+            revert NotStakeOwner();
+        }
+    }
+
+    /// @notice Loads an open ETH position with a cliff unlock and ensures it belongs to the caller.
+    /// @param stakeId Identifier of the position.
+    /// @return data Storage pointer to the stake.
+    function _ownedEthStake(uint256 stakeId) internal view returns (StakeData storage data) {
+        data = _ownedStake(stakeId);
+        if (data.token != address(0)) {
+            revert UnsupportedAsset();
+        }
+        if (data.vesting) {
+            revert VestingStake();
+        }
+    }
+
+    /// @notice Subtracts `amount` from the caller's shielded balance when covered, otherwise debits nothing.
+    /// @param amount Encrypted amount to debit.
+    /// @return debited The amount actually taken from the balance.
+    function _debitShieldedBalance(euint128 amount) internal returns (euint128 debited) {
+        euint128 balance = _shieldedBalances[msg.sender];
+        ebool covered = FHE.le(amount, balance);
+        debited = FHE.select(covered, amount, FHE.asEuint128(0));
+
+        balance = FHE.sub(balance, debited);
+        _shieldedBalances[msg.sender] = balance;
+
+        FHE.allow(balance, msg.sender);
+        FHE.allowThis(balance);
+    }
+
+    /// @notice Pushes ETH to `recipient`, crediting its claimable balance instead when the transfer is rejected, so a
+    /// contract wallet that cannot receive ETH never blocks the finalization that pays it.
+    /// @dev The transfer gets at most `PAYOUT_GAS_LIMIT` gas, so a recipient cannot make a keeper or heir finalizing
+    /// the payout spend the gas of the whole transaction; running out of it counts as a rejection.
+    /// @param recipient Account paid.
+    /// @param amount Amount, in wei.
+    function _sendValue(address recipient, uint128 amount) internal {
+        (bool sent, ) = recipient.call{value: uint256(amount), gas: PAYOUT_GAS_LIMIT}("");
+        if (!sent) {
+            _claimable[recipient] += amount;
+            emit PaymentDeferred(recipient, amount);
+        }
+    }
+
+    /// @notice Validates `msg.value` as a stakeable amount.
+    /// @return The attached value as a 128-bit amount.
+    function _checkedValue() internal view returns (uint128) {
+        if (msg.value == 0) {
+            revert InvalidStakeAmount();
+        }
+        if (msg.value > type(uint128).max) {
+            revert StakeAmountTooLarge();
+        }
+        return uint128(msg.value);
+    }
+}
@@ -0,0 +1,22 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE} from "@fhevm/solidity/lib/FHE.sol";
+import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {ERC7984} from "@openzeppelin/confidential-contracts/token/ERC7984/ERC7984.sol";
+
+/// @title ConfidentialTokenMock
+/// @notice Freely mintable ERC-7984 token used to exercise PrismLock token stakes in tests and local deployments.
+contract ConfidentialTokenMock is ZamaEthereumConfig, ERC7984 {
+    /// @notice Deploys the token without a contract URI.
+    /// @param name_ Token name.
+    /// @param symbol_ Token symbol.
+    constructor(string memory name_, string memory symbol_) ERC7984(name_, symbol_, "") {}
+
+    /// @notice Mints a clear amount of tokens to an account.
+    /// @param to Recipient of the minted tokens.
+    /// @param amount Amount to mint, in token base units.
+    function mint(address to, uint64 amount) external {
+        _mint(to, FHE.asEuint64(amount));
+    }
+}
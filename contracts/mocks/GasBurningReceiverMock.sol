@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title GasBurningReceiverMock
+/// @notice Contract wallet whose receive hook consumes all the gas it is given, used to check that PrismLock caps the
+/// gas of its ETH payouts.
+contract GasBurningReceiverMock {
+    /// @notice Number of loop iterations the last incoming transfer got through before running out of gas.
+    uint256 public burned;
+
+    /// @notice Writes to storage until the forwarded gas runs out, so the transfer always fails.
+    receive() external payable {
+        for (;;) {
+            ++burned;
+        }
+    }
+}
@@ -0,0 +1,35 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {PrismLock} from "../PrismLock.sol";
+import {PrismLockAttestations} from "../PrismLockAttestations.sol";
+import {PrismLockBalances} from "../PrismLockBalances.sol";
+import {PrismLockSettings} from "../PrismLockSettings.sol";
+
+/// @title PrismLockUpgradeMock
+/// @notice Next PrismLock implementation used to exercise proxy upgrades in tests. Appends a storage variable.
+contract PrismLockUpgradeMock is PrismLock {
+    uint256 private _upgradeCount;
+
+    /// @notice Binds the implementation to the same modules as `PrismLock`.
+    /// @custom:oz-upgrades-unsafe-allow constructor state-variable-immutable
+    /// @param attestationModule Module the fallback delegates attestation calls to.
+    /// @param balancesModule Module the fallback delegates shielded balance and claim calls to.
+    /// @param settingsModule Module the fallback delegates every other call it does not implement to.
+    constructor(
+        PrismLockAttestations attestationModule,
+        PrismLockBalances balancesModule,
+        PrismLockSettings settingsModule
+    ) PrismLock(attestationModule, balancesModule, settingsModule) {}
+
+    /// @notice Records a call on the upgraded implementation.
+    function markUpgraded() external {
+        ++_upgradeCount;
+    }
+
+    /// @notice Returns how many times `markUpgraded` was called.
+    /// @return count Number of calls recorded since the upgrade.
+    function upgradeCount() external view returns (uint256 count) {
+        return _upgradeCount;
+    }
+}
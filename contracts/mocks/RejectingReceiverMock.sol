@@ -0,0 +1,47 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {PrismLockBalances} from "../PrismLockBalances.sol";
+
+/// @title RejectingReceiverMock
+/// @notice Contract wallet that refuses ETH until told otherwise, used to exercise PrismLock's claimable payouts.
+/// @dev In reentrant mode it accepts ETH but calls `PrismLock.claim` again from its receive hook.
+contract RejectingReceiverMock {
+    /// @notice Vault this wallet claims from, typed as the module that implements `claim`.
+    PrismLockBalances public immutable PRISM_LOCK;
+    /// @notice Whether incoming ETH is accepted.
+    bool public accepting;
+    /// @notice Whether an accepted transfer claims again before returning.
+    bool public reentrant;
+
+    /// @notice Thrown on incoming ETH while `accepting` is off.
+    error EthRejected();
+
+    /// @notice Binds the wallet to the vault it claims from.
+    /// @param prismLock Vault proxy this wallet claims from.
+    constructor(PrismLockBalances prismLock) {
+        PRISM_LOCK = prismLock;
+    }
+
+    /// @notice Rejects or accepts ETH depending on the mode, claiming again from the vault in reentrant mode.
+    receive() external payable {
+        if (!accepting) {
+            revert EthRejected();
+        } else if (reentrant) {
+            PRISM_LOCK.claim();
+        }
+    }
+
+    /// @notice Sets how the next incoming ETH transfer is handled.
+    /// @param accepting_ Whether ETH is accepted at all.
+    /// @param reentrant_ Whether an accepted transfer claims again before returning.
+    function setMode(bool accepting_, bool reentrant_) external {
+        accepting = accepting_;
+        reentrant = reentrant_;
+    }
+
+    /// @notice Pulls this wallet's claimable balance from PrismLock.
+    function claim() external {
+        PRISM_LOCK.claim();
+    }
+}
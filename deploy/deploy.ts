@@ -3,14 +3,68 @@ import { HardhatRuntimeEnvironment } from "hardhat/types";
 
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployer } = await hre.getNamedAccounts();
-  const { deploy } = hre.deployments;
+  const { deploy, read } = hre.deployments;
 
+  // Attestations, balances and settings live in modules the implementation delegates to, keeping PrismLock under
+  // the contract size limit
+  const moduleAddresses: string[] = [];
+  for (const name of ["PrismLockAttestations", "PrismLockBalances", "PrismLockSettings"]) {
+    const deployedModule = await deploy(name, { from: deployer, log: true });
+    console.log(`${name} module: `, deployedModule.address);
+    moduleAddresses.push(deployedModule.address);
+  }
+
+  // Transparent proxy owned by hardhat-deploy's DefaultProxyAdmin; `initialize` only runs on the first deployment
   const deployedPrismLock = await deploy("PrismLock", {
     from: deployer,
     log: true,
+    args: moduleAddresses,
+    proxy: {
+      proxyContract: "OpenZeppelinTransparentProxy",
+      execute: {
+        init: {
+          methodName: "initialize",
+          args: [deployer],
+        },
+      },
+    },
   });
 
   console.log(`PrismLock contract: `, deployedPrismLock.address);
+
+  // The setters are implemented by the settings module, so they are sent through its ABI at the proxy address
+  const settings = await hre.ethers.getContractAt(
+    "PrismLockSettings",
+    deployedPrismLock.address,
+    await hre.ethers.getSigner(deployer),
+  );
+
+  // Receipts are bound to the proxy address, so they survive implementation upgrades
+  const deployedReceipts = await deploy("PrismLockReceipts", {
+    from: deployer,
+    log: true,
+    args: [deployedPrismLock.address],
+  });
+  const currentReceipts = await read("PrismLock", "receipts");
+  if (currentReceipts !== deployedReceipts.address) {
+    await (await settings.setReceipts(deployedReceipts.address)).wait();
+  }
+
+  console.log(`PrismLockReceipts contract: `, deployedReceipts.address);
+
+  // Stats only count stakes opened while they are set: a redeployed stats contract starts from zero and leaves the
+  // stakes opened before it out
+  const deployedStats = await deploy("PrismLockStats", {
+    from: deployer,
+    log: true,
+    args: [deployedPrismLock.address],
+  });
+  const currentStats = await read("PrismLock", "stats");
+  if (currentStats !== deployedStats.address) {
+    await (await settings.setStats(deployedStats.address)).wait();
+  }
+
+  console.log(`PrismLockStats contract: `, deployedStats.address);
 };
 export default func;
 func.id = "deploy_prism_lock"; // id required to prevent reexecution
@@ -0,0 +1,20 @@
+type DecryptionSessionStatusProps = {
+  isActive: boolean;
+  expiresAt: number | undefined;
+  onEnd: () => void;
+};
+
+export function DecryptionSessionStatus({ isActive, expiresAt, onEnd }: DecryptionSessionStatusProps) {
+  if (!isActive || expiresAt === undefined) {
+    return <p className="decryption-session">Decrypting asks for one signature, valid for 7 days in this tab.</p>;
+  }
+
+  return (
+    <p className="decryption-session active">
+      Decryption session active until {new Date(expiresAt).toLocaleString()}.{' '}
+      <button type="button" onClick={onEnd}>
+        End session
+      </button>
+    </p>
+  );
+}
@@ -1,31 +1,61 @@
 import { useState } from 'react';
+import { useAccount, useChainId } from 'wagmi';
 import { Header } from './Header';
 import { StakeForm } from './StakeForm';
 import { StakeOverview } from './StakeOverview';
+import { StakeHistory } from './StakeHistory';
+import { VaultStats } from './VaultStats';
+import { UnsupportedNetwork } from './UnsupportedNetwork';
+import { getNetwork } from '../config/networks';
 import '../styles/PrismLockApp.css';
 
 export function PrismLockApp() {
-  const [activeTab, setActiveTab] = useState<'stake' | 'overview'>('stake');
+  const [activeTab, setActiveTab] = useState<'stake' | 'overview' | 'history' | 'stats'>('stake');
+  const { chainId: walletChainId, isConnected } = useAccount();
+  const defaultChainId = useChainId();
+  const chainId = isConnected ? walletChainId : defaultChainId;
+  const network = getNetwork(chainId);
 
   return (
     <div className="prism-app">
       <Header />
       <main className="app-content">
-        <div className="tab-navigation">
-          <button
-            onClick={() => setActiveTab('stake')}
-            className={`tab-button ${activeTab === 'stake' ? 'active' : ''}`}
-          >
-            Create Stake
-          </button>
-          <button
-            onClick={() => setActiveTab('overview')}
-            className={`tab-button ${activeTab === 'overview' ? 'active' : ''}`}
-          >
-            My Vault
-          </button>
-        </div>
-        {activeTab === 'stake' ? <StakeForm /> : <StakeOverview />}
+        {!network ? (
+          <UnsupportedNetwork chainId={chainId} />
+        ) : (
+          <>
+            <div className="tab-navigation">
+              <button
+                onClick={() => setActiveTab('stake')}
+                className={`tab-button ${activeTab === 'stake' ? 'active' : ''}`}
+              >
+                Create Stake
+              </button>
+              <button
+                onClick={() => setActiveTab('overview')}
+                className={`tab-button ${activeTab === 'overview' ? 'active' : ''}`}
+              >
+                My Vault
+              </button>
+              <button
+                onClick={() => setActiveTab('history')}
+                className={`tab-button ${activeTab === 'history' ? 'active' : ''}`}
+              >
+                History
+              </button>
+              <button
+                onClick={() => setActiveTab('stats')}
+                className={`tab-button ${activeTab === 'stats' ? 'active' : ''}`}
+              >
+                Vault Stats
+              </button>
+            </div>
+            {activeTab === 'stake' && <StakeForm key={network.chain.id} network={network} />}
+            {activeTab === 'overview' && <StakeOverview key={network.chain.id} network={network} />}
+            {activeTab === 'history' && <StakeHistory key={network.chain.id} network={network} />}
+            {activeTab === 'stats' && <VaultStats key={network.chain.id} network={network} />}
+          </>
+        )}
       </main>
     </div>
   );
@@ -1,29 +1,116 @@
 import { useMemo, useState } from 'react';
 import type { FormEvent } from 'react';
-import { Contract, parseEther } from 'ethers';
-import { useAccount } from 'wagmi';
-import { CONTRACT_ADDRESS, CONTRACT_ABI } from '../config/contracts';
+import { Contract, ZeroAddress, isAddress, parseEther, parseUnits } from 'ethers';
+import { useAccount, useReadContract } from 'wagmi';
+import type { PrismLockNetwork } from '../config/networks';
+import { CONFIDENTIAL_TOKEN_ABI } from '../config/confidentialToken';
 import { useEthersSigner } from '../hooks/useEthersSigner';
+import { useZamaInstance } from '../hooks/useZamaInstance';
 import '../styles/StakeForm.css';
 
 const SECONDS_IN_DAY = 24 * 60 * 60;
+const OPERATOR_WINDOW_SECONDS = 60 * 60;
 
-export function StakeForm() {
+type Asset = 'eth' | 'token';
+
+type StakeFormProps = {
+  network: PrismLockNetwork;
+};
+
+export function StakeForm({ network }: StakeFormProps) {
   const { address } = useAccount();
   const signerPromise = useEthersSigner();
+  const { instance, isLoading: zamaLoading, error: zamaError } = useZamaInstance(network.fhevm);
 
+  const [asset, setAsset] = useState<Asset>('eth');
+  const [tokenAddress, setTokenAddress] = useState('');
+  const [depositAmount, setDepositAmount] = useState('');
+  const [isDepositing, setIsDepositing] = useState(false);
   const [amount, setAmount] = useState('');
   const [durationDays, setDurationDays] = useState('30');
+  const [hideDuration, setHideDuration] = useState(false);
+  const [beneficiary, setBeneficiary] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [statusMessage, setStatusMessage] = useState('');
 
+  const durationSeconds = BigInt(Math.max(0, Math.floor(Number(durationDays) || 0)) * SECONDS_IN_DAY);
+  const minLockResult = useReadContract({
+    address: network.address,
+    abi: network.abi,
+    functionName: 'minLockDuration',
+  });
+  const privateDuration = asset === 'eth' && hideDuration;
+  // A hidden duration earns the tier of the minimum lock, the only duration the contract can see
+  const rewardTierResult = useReadContract({
+    address: network.address,
+    abi: network.abi,
+    functionName: 'rewardTierBps',
+    args: [privateDuration ? (minLockResult.data ?? 0n) : durationSeconds],
+    query: { enabled: asset === 'eth' },
+  });
+  const rewardPercent = Number(rewardTierResult.data ?? 0n) / 100;
+
+  const maxLockResult = useReadContract({
+    address: network.address,
+    abi: network.abi,
+    functionName: 'maxLockDuration',
+  });
+  const pausedResult = useReadContract({
+    address: network.address,
+    abi: network.abi,
+    functionName: 'stakingPaused',
+    query: { refetchInterval: 30000 },
+  });
+  const minLockDays = Math.ceil(Number(minLockResult.data ?? BigInt(SECONDS_IN_DAY)) / SECONDS_IN_DAY);
+  const maxLockDays = Math.floor(Number(maxLockResult.data ?? BigInt(365 * SECONDS_IN_DAY)) / SECONDS_IN_DAY);
+  const stakingPaused = Boolean(pausedResult.data);
+
   const isFormDisabled = useMemo(() => {
-    return !address || !amount || Number(amount) <= 0 || Number(durationDays) < 1;
-  }, [address, amount, durationDays]);
+    if (asset === 'token' && !isAddress(tokenAddress)) {
+      return true;
+    }
+    if (beneficiary && !isAddress(beneficiary)) {
+      return true;
+    }
+    if (stakingPaused || Number(durationDays) < minLockDays || Number(durationDays) > maxLockDays) {
+      return true;
+    }
+    return !address || !amount || Number(amount) <= 0;
+  }, [address, amount, durationDays, asset, tokenAddress, beneficiary, stakingPaused, minLockDays, maxLockDays]);
+
+  const handleDeposit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!address || !depositAmount || Number(depositAmount) <= 0 || !signerPromise) {
+      return;
+    }
+
+    try {
+      setIsDepositing(true);
+      setStatusMessage('');
+      const signer = await signerPromise;
+      if (!signer) {
+        throw new Error('Wallet not found. Please reconnect.');
+      }
+
+      const stakeContract = new Contract(network.address, network.abi, signer);
+      const tx = await stakeContract.deposit({ value: parseEther(depositAmount) });
+      setStatusMessage('Waiting for deposit confirmation...');
+      await tx.wait();
+      setStatusMessage('Deposit added to your shielded balance.');
+      setDepositAmount('');
+    } catch (error) {
+      console.error('Deposit failed', error);
+      setStatusMessage(
+        error instanceof Error ? `Deposit failed: ${error.message}` : 'Deposit failed. Please try again.'
+      );
+    } finally {
+      setIsDepositing(false);
+    }
+  };
 
   const handleSubmit = async (event: FormEvent) => {
     event.preventDefault();
-    if (isFormDisabled || !signerPromise) {
+    if (isFormDisabled || !signerPromise || !instance || !address) {
       return;
     }
 
@@ -35,11 +122,67 @@ export function StakeForm() {
         throw new Error('Wallet not found. Please reconnect.');
       }
 
-      const stakeContract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
-      const durationSeconds = BigInt(Math.floor(Number(durationDays)) * SECONDS_IN_DAY);
-      const stakeValue = parseEther(amount);
+      const stakeContract = new Contract(network.address, network.abi, signer);
+      const recipient = beneficiary || ZeroAddress;
+
+      let tx;
+      if (asset === 'token') {
+        const tokenContract = new Contract(tokenAddress, CONFIDENTIAL_TOKEN_ABI, signer);
+        const decimals = Number(await tokenContract.decimals());
+        const tokenValue = parseUnits(amount, decimals);
+
+        if (!(await tokenContract.isOperator(address, network.address))) {
+          setStatusMessage('Authorizing PrismLock to move your tokens...');
+          const until = Math.floor(Date.now() / 1000) + OPERATOR_WINDOW_SECONDS;
+          const operatorTx = await tokenContract.setOperator(network.address, until);
+          await operatorTx.wait();
+        }
+
+        setStatusMessage('Encrypting amount...');
+        const encryptedInput = await instance
+          .createEncryptedInput(network.address, address)
+          .add64(tokenValue)
+          .encrypt();
 
-      const tx = await stakeContract.stake(durationSeconds, { value: stakeValue });
+        tx = await stakeContract.stakeToken(
+          tokenAddress,
+          encryptedInput.handles[0],
+          encryptedInput.inputProof,
+          durationSeconds,
+          recipient
+        );
+      } else {
+        const stakeValue = parseEther(amount);
+
+        if (privateDuration) {
+          setStatusMessage('Encrypting amount and lock duration...');
+          const encryptedInput = await instance
+            .createEncryptedInput(network.address, address)
+            .add128(stakeValue)
+            .add64(durationSeconds)
+            .encrypt();
+
+          tx = await stakeContract.stakePrivate(
+            encryptedInput.handles[0],
+            encryptedInput.handles[1],
+            encryptedInput.inputProof,
+            recipient
+          );
+        } else {
+          setStatusMessage('Encrypting amount...');
+          const encryptedInput = await instance
+            .createEncryptedInput(network.address, address)
+            .add128(stakeValue)
+            .encrypt();
+
+          tx = await stakeContract.stakeShielded(
+            encryptedInput.handles[0],
+            encryptedInput.inputProof,
+            durationSeconds,
+            recipient
+          );
+        }
+      }
       setStatusMessage('Waiting for confirmation...');
       await tx.wait();
       setStatusMessage('Stake created successfully!');
@@ -59,13 +202,73 @@ export function StakeForm() {
       <header className="stake-form-header">
         <div>
           <h2>Create a private stake</h2>
-          <p>Lock ETH for 1-365 days. The contract stores the amount through Zama FHE handles.</p>
+          <p>
+            Deposit ETH into your shielded balance, then lock an encrypted amount of it for {minLockDays} to{' '}
+            {maxLockDays} days. Only the deposit is public; the amount you allocate to each stake never appears in
+            clear on-chain. Allow-listed confidential tokens are locked straight from your wallet through an encrypted
+            transfer.
+          </p>
         </div>
       </header>
 
+      <div className="asset-selector">
+        <button
+          type="button"
+          className={`asset-option ${asset === 'eth' ? 'active' : ''}`}
+          onClick={() => setAsset('eth')}
+        >
+          ETH
+        </button>
+        <button
+          type="button"
+          className={`asset-option ${asset === 'token' ? 'active' : ''}`}
+          onClick={() => setAsset('token')}
+        >
+          Confidential token
+        </button>
+      </div>
+
+      {asset === 'eth' && (
+        <form onSubmit={handleDeposit} className="stake-form">
+          <label className="form-field">
+            <span>Deposit to shielded balance (ETH)</span>
+            <input
+              type="number"
+              min="0"
+              step="0.001"
+              placeholder="e.g. 1.00"
+              value={depositAmount}
+              onChange={(event) => setDepositAmount(event.target.value)}
+            />
+            <small>Deposits are visible on-chain. Round amounts make later allocations harder to correlate.</small>
+          </label>
+
+          <button
+            type="submit"
+            disabled={!address || !depositAmount || Number(depositAmount) <= 0 || isDepositing}
+            className="stake-submit"
+          >
+            {!address ? 'Connect wallet to continue' : isDepositing ? 'Depositing...' : 'Deposit'}
+          </button>
+        </form>
+      )}
+
       <form onSubmit={handleSubmit} className="stake-form">
+        {asset === 'token' && (
+          <label className="form-field">
+            <span>Token address (ERC-7984)</span>
+            <input
+              type="text"
+              placeholder="0x..."
+              value={tokenAddress}
+              onChange={(event) => setTokenAddress(event.target.value.trim())}
+            />
+            <small>The token must be allow-listed by the PrismLock owner.</small>
+          </label>
+        )}
+
         <label className="form-field">
-          <span>Amount (ETH)</span>
+          <span>{asset === 'token' ? 'Amount to lock (tokens, encrypted)' : 'Amount to lock (ETH, encrypted)'}</span>
           <input
             type="number"
             min="0"
@@ -80,22 +283,60 @@ export function StakeForm() {
           <span>Lock duration (days)</span>
           <input
             type="number"
-            min="1"
-            max="365"
+            min={minLockDays}
+            max={maxLockDays}
             value={durationDays}
             onChange={(event) => setDurationDays(event.target.value)}
           />
-          <small>Minimum: 1 day. Maximum: 365 days.</small>
+          <small>
+            Minimum: {minLockDays} {minLockDays === 1 ? 'day' : 'days'}. Maximum: {maxLockDays} days.
+          </small>
+          {asset === 'eth' && (
+            <small>
+              Reward tier: {rewardPercent}% of the amount, paid from the sponsor pool with your principal (30, 90,
+              180 and 365-day tiers).
+            </small>
+          )}
+        </label>
+
+        {asset === 'eth' && (
+          <label className="form-checkbox">
+            <input type="checkbox" checked={hideDuration} onChange={(event) => setHideDuration(event.target.checked)} />
+            <span>
+              Hide the lock duration. It is encrypted like the amount, so only you can see when the stake unlocks. A
+              hidden lock earns the minimum-lock reward tier and cannot be extended, rolled over or exited early.
+            </span>
+          </label>
+        )}
+
+        <label className="form-field">
+          <span>Beneficiary (optional)</span>
+          <input
+            type="text"
+            placeholder="0x... (defaults to your wallet)"
+            value={beneficiary}
+            onChange={(event) => setBeneficiary(event.target.value.trim())}
+          />
+          <small>Withdrawals are paid to this address. You can change it later from the position.</small>
         </label>
 
-        <button type="submit" disabled={isFormDisabled || isSubmitting} className="stake-submit">
-          {!address ? 'Connect wallet to continue' : isSubmitting ? 'Submitting...' : 'Create stake'}
+        <button type="submit" disabled={isFormDisabled || isSubmitting || zamaLoading} className="stake-submit">
+          {!address
+            ? 'Connect wallet to continue'
+            : stakingPaused
+              ? 'New stakes are paused'
+              : zamaLoading
+              ? 'Loading encryption...'
+              : isSubmitting
+                ? 'Submitting...'
+                : 'Create stake'}
         </button>
       </form>
 
-      {statusMessage && (
+      {(statusMessage || zamaError) && (
         <div className="stake-status">
-          <p>{statusMessage}</p>
+          {statusMessage && <p>{statusMessage}</p>}
+          {zamaError && <p>{zamaError}</p>}
         </div>
       )}
     </section>
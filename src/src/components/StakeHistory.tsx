@@ -0,0 +1,425 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { formatUnits, isError } from 'ethers';
+import { useAccount, usePublicClient } from 'wagmi';
+import type { PrismLockNetwork } from '../config/networks';
+import { CONFIDENTIAL_TOKEN_ABI } from '../config/confidentialToken';
+import { useZamaInstance } from '../hooks/useZamaInstance';
+import { useDecryptionSession } from '../hooks/useDecryptionSession';
+import { DecryptionSessionStatus } from './DecryptionSessionStatus';
+import '../styles/StakeHistory.css';
+
+const BLOCK_PAGE_SIZE = 20_000n;
+
+const HISTORY_EVENTS = [
+  'StakeCreated',
+  'StakeIncreased',
+  'LockExtended',
+  'MaturityCheckRequested',
+  'WithdrawalRequested',
+  'EarlyWithdrawalRequested',
+  'EmergencyWithdrawalRequested',
+  'WithdrawalCancelled',
+  'StakeRolledOver',
+  'VestedClaimRequested',
+  'VestedClaimFinalized',
+  'WithdrawalFinalized',
+  'TokenWithdrawn',
+  'StakeTransferred',
+] as const;
+
+type HistoryEventName = (typeof HISTORY_EVENTS)[number];
+
+const EVENT_LABELS: Record<HistoryEventName, string> = {
+  StakeCreated: 'Stake created',
+  StakeIncreased: 'Topped up',
+  LockExtended: 'Lock extended',
+  MaturityCheckRequested: 'Maturity check requested',
+  WithdrawalRequested: 'Unlock requested',
+  EarlyWithdrawalRequested: 'Early exit requested',
+  EmergencyWithdrawalRequested: 'Emergency exit requested',
+  WithdrawalCancelled: 'Withdrawal request cancelled',
+  StakeRolledOver: 'Rolled over',
+  VestedClaimRequested: 'Vested claim requested',
+  VestedClaimFinalized: 'Vested tranche claimed',
+  WithdrawalFinalized: 'Withdrawal finalized',
+  TokenWithdrawn: 'Tokens withdrawn',
+  StakeTransferred: 'Receipt transferred',
+};
+
+type HistoryEntry = {
+  name: HistoryEventName;
+  stakeId: bigint;
+  blockNumber: bigint;
+  logIndex: number;
+  transactionHash: string;
+  timestamp: number;
+  encryptedHandle?: string;
+  amount?: bigint;
+  detail?: string;
+  closesStake: boolean;
+  reopensStake: boolean;
+};
+
+type StakeAsset = {
+  symbol: string;
+  decimals: number;
+};
+
+const ETH_ASSET: StakeAsset = { symbol: 'ETH', decimals: 18 };
+
+type StakeTimeline = {
+  stakeId: bigint;
+  entries: HistoryEntry[];
+  closed: boolean;
+};
+
+function describe(name: HistoryEventName, args: Record<string, unknown>, received: boolean) {
+  if (name === 'LockExtended' || name === 'StakeCreated' || name === 'StakeRolledOver') {
+    const days = Number(args.lockDuration ?? 0n) / (24 * 60 * 60);
+    return `${days.toFixed(days % 1 === 0 ? 0 : 2)} day lock`;
+  }
+  if (name === 'WithdrawalFinalized' || name === 'VestedClaimFinalized' || name === 'TokenWithdrawn') {
+    return `to ${String(args.recipient).slice(0, 10)}...`;
+  }
+  if (name === 'StakeTransferred') {
+    return received ? `from ${String(args.user).slice(0, 10)}...` : `to ${String(args.to).slice(0, 10)}...`;
+  }
+  return undefined;
+}
+
+type StakeHistoryProps = {
+  network: PrismLockNetwork;
+};
+
+export function StakeHistory({ network }: StakeHistoryProps) {
+  const { address } = useAccount();
+  const publicClient = usePublicClient();
+  const { instance, isLoading: zamaLoading } = useZamaInstance(network.fhevm);
+  const { decrypt, endSession, isActive, expiresAt } = useDecryptionSession(network, instance);
+
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [oldestScanned, setOldestScanned] = useState<bigint | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [statusMessage, setStatusMessage] = useState('');
+  const [decrypted, setDecrypted] = useState<Record<string, bigint>>({});
+  const [stakeAssets, setStakeAssets] = useState<Record<string, StakeAsset>>({});
+  const [decryptingHandles, setDecryptingHandles] = useState<string[]>([]);
+
+  // Bumped whenever the account or network changes, so a page still loading for the previous one is dropped
+  const generation = useRef(0);
+
+  const explorerUrl = network.chain.blockExplorers?.default.url;
+
+  const loadPage = useCallback(
+    async (toBlock: bigint) => {
+      if (!publicClient || !address) return;
+      const started = generation.current;
+      try {
+        setIsLoading(true);
+        setStatusMessage('');
+        const fromBlock = toBlock >= BLOCK_PAGE_SIZE ? toBlock - BLOCK_PAGE_SIZE + 1n : 0n;
+
+        const results = await Promise.all([
+          ...HISTORY_EVENTS.map((eventName) =>
+            publicClient.getContractEvents({
+              address: network.address,
+              abi: network.abi,
+              eventName,
+              args: { user: address },
+              fromBlock,
+              toBlock,
+            })
+          ),
+          // A stake received with its receipt is logged under the previous owner, with this account as `to`
+          publicClient.getContractEvents({
+            address: network.address,
+            abi: network.abi,
+            eventName: 'StakeTransferred',
+            args: { to: address },
+            fromBlock,
+            toBlock,
+          }),
+        ]);
+        // A transfer to oneself matches both queries; keep each log once
+        const logs = [
+          ...new Map(results.flat().map((log) => [`${log.transactionHash}-${log.logIndex}`, log])).values(),
+        ];
+
+        const blockNumbers = [...new Set(logs.map((log) => log.blockNumber))];
+        const blocks = await Promise.all(blockNumbers.map((blockNumber) => publicClient.getBlock({ blockNumber })));
+        const timestamps = new Map(blocks.map((block) => [block.number, Number(block.timestamp)]));
+
+        const page = logs.map((log) => {
+          const args = log.args as Record<string, unknown>;
+          const name = log.eventName as HistoryEventName;
+          const received = name === 'StakeTransferred' && String(args.to).toLowerCase() === address.toLowerCase();
+          const handedOver = name === 'StakeTransferred' && !received;
+          return {
+            name,
+            stakeId: BigInt(String(args.stakeId)),
+            blockNumber: log.blockNumber,
+            logIndex: log.logIndex,
+            transactionHash: log.transactionHash,
+            timestamp: timestamps.get(log.blockNumber) ?? 0,
+            // The handle of a stake handed over is re-encrypted for the new owner only
+            encryptedHandle: typeof args.encryptedAmount === 'string' && !handedOver ? args.encryptedAmount : undefined,
+            amount: typeof args.amount === 'bigint' ? args.amount : undefined,
+            detail: describe(name, args, received),
+            reopensStake: received,
+            closesStake:
+              handedOver ||
+              name === 'WithdrawalFinalized' ||
+              name === 'TokenWithdrawn' ||
+              (name === 'VestedClaimFinalized' && args.completed === true),
+          };
+        });
+
+        // Token stakes are formatted with the token's symbol and decimals; every other stake holds ETH. The creation
+        // is looked up by stake id over the whole chain, since it can sit on an older page or under another account.
+        const stakeIds = [...new Set(page.map((entry) => entry.stakeId))];
+        const tokenLogs =
+          stakeIds.length === 0
+            ? []
+            : await publicClient.getContractEvents({
+                address: network.address,
+                abi: network.abi,
+                eventName: 'TokenStakeCreated',
+                args: { stakeId: stakeIds },
+                fromBlock: 'earliest',
+                toBlock,
+              });
+        const stakeTokens = new Map(tokenLogs.map((log) => [log.args.stakeId!, log.args.token!]));
+        const tokenAssets = new Map(
+          await Promise.all(
+            [...new Set(stakeTokens.values())].map(async (token) => {
+              const [symbol, decimals] = await Promise.all([
+                publicClient.readContract({ address: token, abi: CONFIDENTIAL_TOKEN_ABI, functionName: 'symbol' }),
+                publicClient.readContract({ address: token, abi: CONFIDENTIAL_TOKEN_ABI, functionName: 'decimals' }),
+              ]);
+              return [token, { symbol: String(symbol), decimals: Number(decimals) }] as const;
+            })
+          )
+        );
+
+        if (generation.current !== started) return;
+        setStakeAssets((previous) => ({
+          ...previous,
+          ...Object.fromEntries(
+            stakeIds.map((stakeId) => {
+              const token = stakeTokens.get(stakeId);
+              return [stakeId.toString(), token ? tokenAssets.get(token)! : ETH_ASSET];
+            })
+          ),
+        }));
+        setEntries((previous) => [...previous, ...page]);
+        setOldestScanned(fromBlock);
+        if (page.length === 0) {
+          setStatusMessage(`No activity between blocks ${fromBlock} and ${toBlock}.`);
+        }
+      } catch (error) {
+        if (generation.current !== started) return;
+        console.error('Loading history failed', error);
+        setStatusMessage(
+          error instanceof Error ? `Loading history failed: ${error.message}` : 'Loading history failed.'
+        );
+      } finally {
+        if (generation.current === started) setIsLoading(false);
+      }
+    },
+    [publicClient, address, network]
+  );
+
+  useEffect(() => {
+    const started = ++generation.current;
+    setEntries([]);
+    setOldestScanned(null);
+    setDecrypted({});
+    setStakeAssets({});
+    if (!publicClient || !address) return;
+    publicClient
+      .getBlockNumber()
+      .then((latest) => loadPage(latest))
+      .catch((error) => {
+        if (generation.current !== started) return;
+        console.error('Reading the latest block failed', error);
+        setStatusMessage(
+          error instanceof Error ? `Loading history failed: ${error.message}` : 'Loading history failed.'
+        );
+      });
+  }, [publicClient, address, loadPage]);
+
+  const timelines: StakeTimeline[] = useMemo(() => {
+    const byStake = new Map<bigint, HistoryEntry[]>();
+    for (const entry of entries) {
+      byStake.set(entry.stakeId, [...(byStake.get(entry.stakeId) ?? []), entry]);
+    }
+    return [...byStake.entries()]
+      .map(([stakeId, stakeEntries]) => {
+        const sorted = stakeEntries.sort((a, b) =>
+          a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber < b.blockNumber ? -1 : 1
+        );
+        const closed = sorted.reduce(
+          (isClosed, entry) => (entry.reopensStake ? false : isClosed || entry.closesStake),
+          false
+        );
+        return { stakeId, entries: sorted, closed };
+      })
+      .sort((a, b) => (a.stakeId < b.stakeId ? 1 : -1));
+  }, [entries]);
+
+  const pendingHandles = [
+    ...new Set(entries.flatMap((entry) => (entry.encryptedHandle ? [entry.encryptedHandle] : []))),
+  ].filter((handle) => decrypted[handle] === undefined);
+
+  const formatAmount = (stakeId: bigint, value: bigint) => {
+    const asset = stakeAssets[stakeId.toString()] ?? ETH_ASSET;
+    return `${formatUnits(value, asset.decimals)} ${asset.symbol}`;
+  };
+
+  // One userDecrypt call for the whole batch; a handle the ACL no longer covers fails the batch, so retry one by one.
+  const decryptHandles = async (handles: string[]) => {
+    if (handles.length === 0) return;
+    try {
+      setDecryptingHandles(handles);
+      setStatusMessage('');
+      let values: Record<string, bigint> = {};
+      try {
+        values = await decrypt(handles);
+      } catch (error) {
+        // A declined session signature fails every retry too
+        if (handles.length === 1 || isError(error, 'ACTION_REJECTED')) throw error;
+        console.warn('Batch decrypt failed, retrying handle by handle', error);
+        for (const handle of handles) {
+          try {
+            values = { ...values, ...(await decrypt([handle])) };
+          } catch (handleError) {
+            console.error(`Historical decrypt of ${handle} failed`, handleError);
+          }
+        }
+      }
+      const decryptedHandles = handles.filter((handle) => values[handle] !== undefined);
+      setDecrypted((previous) => ({
+        ...previous,
+        ...Object.fromEntries(decryptedHandles.map((handle) => [handle, values[handle]])),
+      }));
+      const failed = handles.length - decryptedHandles.length;
+      if (failed > 0) {
+        setStatusMessage(`${failed} of ${handles.length} handles are no longer decryptable with your account.`);
+      }
+    } catch (error) {
+      console.error('Historical decrypt failed', error);
+      setStatusMessage(
+        isError(error, 'ACTION_REJECTED')
+          ? 'Decryption cancelled: the session signature was declined.'
+          : 'This handle can no longer be decrypted with your account (ACL access was not granted).'
+      );
+    } finally {
+      setDecryptingHandles([]);
+    }
+  };
+
+  if (!address) {
+    return (
+      <section className="stake-history-card">
+        <p>Please connect your wallet to see your activity.</p>
+      </section>
+    );
+  }
+
+  return (
+    <section className="stake-history-card">
+      <header>
+        <h2>History</h2>
+        <p>
+          Every PrismLock event of your account, grouped by stake. Handles stay encrypted; decrypt one privately while
+          the contract still grants you access to it.
+        </p>
+        <DecryptionSessionStatus isActive={isActive} expiresAt={expiresAt} onEnd={endSession} />
+        {pendingHandles.length > 1 && (
+          <button
+            className="history-button"
+            onClick={() => decryptHandles(pendingHandles)}
+            disabled={zamaLoading || decryptingHandles.length > 0}
+          >
+            {decryptingHandles.length > 1 ? 'Decrypting...' : `Decrypt all ${pendingHandles.length} amounts`}
+          </button>
+        )}
+      </header>
+
+      {timelines.length === 0 && !isLoading && <p className="history-empty">No activity found in the scanned range.</p>}
+
+      <div className="history-list">
+        {timelines.map((timeline) => (
+          <article key={timeline.stakeId.toString()} className="history-stake">
+            <p className="history-title">
+              Stake #{timeline.stakeId.toString()}{' '}
+              <span className={`history-badge ${timeline.closed ? 'closed' : 'open'}`}>
+                {timeline.closed ? 'Closed' : 'Open'}
+              </span>
+            </p>
+            <ol className="history-timeline">
+              {timeline.entries.map((entry) => (
+                <li key={`${entry.transactionHash}-${entry.logIndex}`}>
+                  <div className="history-step">
+                    <span className="history-event">{EVENT_LABELS[entry.name]}</span>
+                    <span className="history-time">
+                      {entry.timestamp ? new Date(entry.timestamp * 1000).toLocaleString() : '—'}
+                    </span>
+                  </div>
+                  {entry.detail && (
+                    <p className="history-detail">
+                      {entry.amount !== undefined && `${formatAmount(entry.stakeId, entry.amount)} `}
+                      {entry.detail}
+                    </p>
+                  )}
+                  <div className="history-links">
+                    {explorerUrl ? (
+                      <a href={`${explorerUrl}/tx/${entry.transactionHash}`} target="_blank" rel="noreferrer">
+                        tx {entry.transactionHash.slice(0, 10)}...
+                      </a>
+                    ) : (
+                      <span>tx {entry.transactionHash.slice(0, 10)}...</span>
+                    )}
+                    {entry.encryptedHandle && (
+                      <>
+                        <span className="history-handle" title={entry.encryptedHandle}>
+                          handle {entry.encryptedHandle.slice(0, 12)}...
+                        </span>
+                        {decrypted[entry.encryptedHandle] !== undefined ? (
+                          <span className="history-amount">
+                            {formatAmount(entry.stakeId, decrypted[entry.encryptedHandle])}
+                          </span>
+                        ) : (
+                          <button
+                            className="history-button"
+                            onClick={() => decryptHandles([entry.encryptedHandle!])}
+                            disabled={zamaLoading || decryptingHandles.length > 0}
+                          >
+                            {decryptingHandles.includes(entry.encryptedHandle) ? 'Decrypting...' : 'Decrypt'}
+                          </button>
+                        )}
+                      </>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          </article>
+        ))}
+      </div>
+
+      <div className="history-footer">
+        <span>{oldestScanned !== null ? `Scanned back to block ${oldestScanned}` : 'Scanning...'}</span>
+        <button
+          className="history-button"
+          onClick={() => oldestScanned !== null && loadPage(oldestScanned - 1n)}
+          disabled={isLoading || oldestScanned === null || oldestScanned === 0n}
+        >
+          {isLoading ? 'Loading...' : 'Load older activity'}
+        </button>
+      </div>
+
+      <div className="history-status">{statusMessage && <p>{statusMessage}</p>}</div>
+    </section>
+  );
+}
@@ -1,12 +1,18 @@
 import { useMemo, useState } from 'react';
-import { Contract, formatEther } from 'ethers';
+import { Contract, formatEther, formatUnits, isAddress, parseEther } from 'ethers';
+import type { JsonRpcSigner, LogDescription } from 'ethers';
 import { useAccount, useReadContract } from 'wagmi';
-import { CONTRACT_ADDRESS, CONTRACT_ABI } from '../config/contracts';
+import type { PrismLockNetwork } from '../config/networks';
+import { CONFIDENTIAL_TOKEN_ABI } from '../config/confidentialToken';
 import { useEthersSigner } from '../hooks/useEthersSigner';
 import { useZamaInstance } from '../hooks/useZamaInstance';
+import { useDecryptionSession } from '../hooks/useDecryptionSession';
+import { DecryptionSessionStatus } from './DecryptionSessionStatus';
 import '../styles/StakeOverview.css';
 
 const ZERO_HANDLE = '0x0000000000000000000000000000000000000000000000000000000000000000';
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+const SECONDS_IN_DAY = 24 * 60 * 60;
 
 type StakeSummary = {
   encryptedAmount: string;
@@ -15,6 +21,29 @@ type StakeSummary = {
   lockDuration: number;
   withdrawalRequested: boolean;
   exists: boolean;
+  owner: string;
+  token: string;
+  encryptedReward: string;
+  beneficiary: string;
+  vesting: boolean;
+  cliffDuration: number;
+  claimedAmount: bigint;
+  encryptedPendingClaim: string;
+  claimableNow: boolean;
+  heir: string;
+  inactivityPeriod: number;
+  encryptedLockDuration: string;
+  encryptedUnlockTimestamp: string;
+  encryptedMaturityCheck: string;
+};
+
+type StakePositionProps = {
+  network: PrismLockNetwork;
+  stakeId: bigint;
+  instance: ReturnType<typeof useZamaInstance>['instance'];
+  zamaLoading: boolean;
+  signerPromise: Promise<JsonRpcSigner> | undefined;
+  onClosed: () => void;
 };
 
 function formatTimestamp(timestamp: number) {
@@ -22,25 +51,39 @@ function formatTimestamp(timestamp: number) {
   return new Date(timestamp * 1000).toLocaleString();
 }
 
-export function StakeOverview() {
-  const { address } = useAccount();
-  const signerPromise = useEthersSigner();
-  const { instance, isLoading: zamaLoading, error: zamaError } = useZamaInstance();
-
+function StakePosition({ network, stakeId, instance, zamaLoading, signerPromise, onClosed }: StakePositionProps) {
   const [privateAmount, setPrivateAmount] = useState('');
+  const [privateReward, setPrivateReward] = useState('');
+  const [privateUnlock, setPrivateUnlock] = useState(0);
   const [publicAmount, setPublicAmount] = useState('');
   const [statusMessage, setStatusMessage] = useState('');
   const [isDecrypting, setIsDecrypting] = useState(false);
+  const { decrypt } = useDecryptionSession(network, instance);
   const [isRequestingUnlock, setIsRequestingUnlock] = useState(false);
+  const [isExitingEarly, setIsExitingEarly] = useState(false);
   const [isFinalizing, setIsFinalizing] = useState(false);
+  const [showAdjust, setShowAdjust] = useState(false);
+  const [topUpAmount, setTopUpAmount] = useState('');
+  const [extendDays, setExtendDays] = useState('');
+  const [isToppingUp, setIsToppingUp] = useState(false);
+  const [isExtending, setIsExtending] = useState(false);
+  const [beneficiaryInput, setBeneficiaryInput] = useState('');
+  const [isUpdatingBeneficiary, setIsUpdatingBeneficiary] = useState(false);
+  const [isEmergencyExiting, setIsEmergencyExiting] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [rolloverDays, setRolloverDays] = useState('');
+  const [isRollingOver, setIsRollingOver] = useState(false);
+  const [isClaiming, setIsClaiming] = useState(false);
+  const [heirInput, setHeirInput] = useState('');
+  const [inactivityDays, setInactivityDays] = useState('');
+  const [isUpdatingHeir, setIsUpdatingHeir] = useState(false);
 
   const summaryResult = useReadContract({
-    address: CONTRACT_ADDRESS,
-    abi: CONTRACT_ABI,
+    address: network.address,
+    abi: network.abi,
     functionName: 'getStakeSummary',
-    args: address ? [address] : undefined,
+    args: [stakeId],
     query: {
-      enabled: !!address,
       refetchInterval: 10000,
     },
   });
@@ -66,6 +109,20 @@ export function StakeOverview() {
     const duration = raw.lockDuration ?? raw[3];
     const requested = raw.withdrawalRequested ?? raw[4];
     const exists = raw.exists ?? raw[5];
+    const owner = raw.owner ?? raw[6];
+    const token = raw.token ?? raw[7];
+    const encryptedReward = raw.encryptedReward ?? raw[8];
+    const beneficiary = raw.beneficiary ?? raw[9];
+    const vesting = raw.vesting ?? raw[10];
+    const cliffDuration = raw.cliffDuration ?? raw[11];
+    const claimedAmount = raw.claimedAmount ?? raw[12];
+    const encryptedPendingClaim = raw.encryptedPendingClaim ?? raw[13];
+    const claimableNow = raw.claimableNow ?? raw[14];
+    const heir = raw.heir ?? raw[15];
+    const inactivityPeriod = raw.inactivityPeriod ?? raw[16];
+    const encryptedLockDuration = raw.encryptedLockDuration ?? raw[17];
+    const encryptedUnlockTimestamp = raw.encryptedUnlockTimestamp ?? raw[18];
+    const encryptedMaturityCheck = raw.encryptedMaturityCheck ?? raw[19];
 
     if (typeof encryptedAmount !== 'string') {
       return null;
@@ -78,11 +135,72 @@ export function StakeOverview() {
       lockDuration: Number(duration ?? 0),
       withdrawalRequested: Boolean(requested),
       exists: Boolean(exists),
+      owner: String(owner ?? ''),
+      token: String(token ?? ZERO_ADDRESS),
+      encryptedReward: String(encryptedReward ?? ZERO_HANDLE),
+      beneficiary: String(beneficiary ?? ZERO_ADDRESS),
+      vesting: Boolean(vesting),
+      cliffDuration: Number(cliffDuration ?? 0),
+      claimedAmount: BigInt(String(claimedAmount ?? 0)),
+      encryptedPendingClaim: String(encryptedPendingClaim ?? ZERO_HANDLE),
+      claimableNow: Boolean(claimableNow),
+      heir: String(heir ?? ZERO_ADDRESS),
+      inactivityPeriod: Number(inactivityPeriod ?? 0),
+      encryptedLockDuration: String(encryptedLockDuration ?? ZERO_HANDLE),
+      encryptedUnlockTimestamp: String(encryptedUnlockTimestamp ?? ZERO_HANDLE),
+      encryptedMaturityCheck: String(encryptedMaturityCheck ?? ZERO_HANDLE),
     };
   }, [summaryResult.data]);
 
+  const isToken = !!summary && summary.token !== ZERO_ADDRESS;
+  // The real unlock time of a private-duration stake is only known after a private decryption
+  const isPrivateDuration = !!summary && summary.encryptedUnlockTimestamp !== ZERO_HANDLE;
+
+  const maxLockResult = useReadContract({
+    address: network.address,
+    abi: network.abi,
+    functionName: 'maxLockDuration',
+  });
+  const emergencyResult = useReadContract({
+    address: network.address,
+    abi: network.abi,
+    functionName: 'emergencyMode',
+    query: { refetchInterval: 30000 },
+  });
+  const maxLockDays = Math.floor(Number(maxLockResult.data ?? BigInt(365 * SECONDS_IN_DAY)) / SECONDS_IN_DAY);
+  const emergencyMode = Boolean(emergencyResult.data);
+
+  const penaltyResult = useReadContract({
+    address: network.address,
+    abi: network.abi,
+    functionName: 'earlyExitPenaltyBps',
+    args: [stakeId],
+    query: {
+      enabled: !!summary?.exists && !isToken && !summary.withdrawalRequested,
+      refetchInterval: 60000,
+    },
+  });
+  const penaltyPercent = Number(penaltyResult.data ?? 0n) / 100;
+
+  const tokenSymbolResult = useReadContract({
+    address: summary?.token as `0x${string}` | undefined,
+    abi: CONFIDENTIAL_TOKEN_ABI,
+    functionName: 'symbol',
+    query: { enabled: isToken },
+  });
+  const tokenDecimalsResult = useReadContract({
+    address: summary?.token as `0x${string}` | undefined,
+    abi: CONFIDENTIAL_TOKEN_ABI,
+    functionName: 'decimals',
+    query: { enabled: isToken },
+  });
+
+  const assetLabel = isToken ? String(tokenSymbolResult.data ?? 'tokens') : 'ETH';
+  const formatAmount = (value: bigint) =>
+    isToken ? formatUnits(value, Number(tokenDecimalsResult.data ?? 0)) : formatEther(value);
+
   const handlePrivateDecrypt = async () => {
-    if (!instance || !address || !summary || summary.encryptedAmount === ZERO_HANDLE || !signerPromise) {
+    if (!instance || !summary || summary.encryptedAmount === ZERO_HANDLE) {
       setStatusMessage('Stake not found or wallet unavailable.');
       return;
     }
@@ -90,40 +208,22 @@ export function StakeOverview() {
     try {
       setIsDecrypting(true);
       setStatusMessage('');
-      const signer = await signerPromise;
-      if (!signer) throw new Error('Wallet not ready.');
+      const hasReward = summary.encryptedReward !== ZERO_HANDLE;
+      const handles = [summary.encryptedAmount];
+      if (hasReward) handles.push(summary.encryptedReward);
+      if (isPrivateDuration) handles.push(summary.encryptedUnlockTimestamp);
+      const result = await decrypt(handles);
 
-      const keypair = instance.generateKeypair();
-      const handleContractPairs = [
-        { handle: summary.encryptedAmount, contractAddress: CONTRACT_ADDRESS },
-      ];
-
-      const startTimestamp = Math.floor(Date.now() / 1000).toString();
-      const durationDays = '7';
-      const eip712 = instance.createEIP712(keypair.publicKey, [CONTRACT_ADDRESS], startTimestamp, durationDays);
-
-      const signature = await signer.signTypedData(
-        eip712.domain,
-        {
-          UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
-        },
-        eip712.message
-      );
-
-      const result = await instance.userDecrypt(
-        handleContractPairs,
-        keypair.privateKey,
-        keypair.publicKey,
-        signature.replace('0x', ''),
-        [CONTRACT_ADDRESS],
-        address,
-        startTimestamp,
-        durationDays
+      setPrivateAmount(formatAmount(result[summary.encryptedAmount]));
+      setPrivateReward(hasReward ? formatEther(result[summary.encryptedReward]) : '');
+      setPrivateUnlock(isPrivateDuration ? Number(result[summary.encryptedUnlockTimestamp]) : 0);
+      setStatusMessage(
+        isPrivateDuration
+          ? 'Decrypted amount and unlock time shown above.'
+          : hasReward
+            ? 'Decrypted amount and reward shown above.'
+            : 'Decrypted amount shown above.'
       );
-
-      const decrypted = result[summary.encryptedAmount];
-      setPrivateAmount(formatEther(BigInt(decrypted)));
-      setStatusMessage('Decrypted amount shown above.');
     } catch (error) {
       console.error('Private decrypt failed', error);
       setStatusMessage(
@@ -135,7 +235,7 @@ export function StakeOverview() {
   };
 
   const requestUnlock = async () => {
-    if (!signerPromise || !summary || !summary.exists) {
+    if (!signerPromise || !summary || !summary.exists || (isPrivateDuration && !instance)) {
       setStatusMessage('Stake not found.');
       return;
     }
@@ -143,14 +243,33 @@ export function StakeOverview() {
       setIsRequestingUnlock(true);
       const signer = await signerPromise;
       if (!signer) throw new Error('Wallet not ready.');
-      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
-      const tx = await contract.requestWithdrawal();
-      setStatusMessage('Requesting unlock...');
+      const contract = new Contract(network.address, network.abi, signer);
+      const tx = await contract.requestWithdrawal(stakeId);
+      setStatusMessage(isPrivateDuration ? 'Checking the hidden unlock time...' : 'Requesting unlock...');
       await tx.wait();
+
+      if (isPrivateDuration && instance) {
+        // The encrypted comparison with the current time is decrypted publicly before the withdrawal can proceed
+        const refreshed = await contract.getStakeSummary(stakeId);
+        const handle = String(refreshed.encryptedMaturityCheck);
+        const proofResult = await instance.publicDecrypt([handle]);
+        if (!proofResult.clearValues[handle]) {
+          setStatusMessage('The hidden unlock time has not passed yet. Decrypt privately to see it.');
+          return;
+        }
+        const checkTx = await contract.finalizeMaturityCheck(
+          stakeId,
+          proofResult.abiEncodedClearValues,
+          proofResult.decryptionProof
+        );
+        setStatusMessage('Confirming maturity...');
+        await checkTx.wait();
+      }
       if (summaryResult.refetch) {
         await summaryResult.refetch();
       }
       setStatusMessage('Unlock requested successfully.');
+      setPrivateReward('');
     } catch (error) {
       console.error('requestWithdrawal failed', error);
       setStatusMessage(
@@ -161,6 +280,325 @@ export function StakeOverview() {
     }
   };
 
+  const exitEarly = async () => {
+    if (!signerPromise || !summary?.exists) {
+      setStatusMessage('Stake not found.');
+      return;
+    }
+    try {
+      setIsExitingEarly(true);
+      const signer = await signerPromise;
+      if (!signer) throw new Error('Wallet not ready.');
+      const contract = new Contract(network.address, network.abi, signer);
+      const tx = await contract.earlyWithdraw(stakeId);
+      setStatusMessage('Requesting early exit...');
+      await tx.wait();
+      if (summaryResult.refetch) {
+        await summaryResult.refetch();
+      }
+      setStatusMessage('Early exit requested. Finalize to collect the amount left after the penalty.');
+      setPrivateAmount('');
+      setPrivateReward('');
+    } catch (error) {
+      console.error('earlyWithdraw failed', error);
+      setStatusMessage(
+        error instanceof Error ? `Early exit failed: ${error.message}` : 'Early exit failed. Please try again.'
+      );
+    } finally {
+      setIsExitingEarly(false);
+    }
+  };
+
+  const emergencyExit = async () => {
+    if (!signerPromise || !summary?.exists) {
+      setStatusMessage('Stake not found.');
+      return;
+    }
+    try {
+      setIsEmergencyExiting(true);
+      const signer = await signerPromise;
+      if (!signer) throw new Error('Wallet not ready.');
+      const contract = new Contract(network.address, network.abi, signer);
+      const tx = await contract.emergencyWithdraw(stakeId);
+      setStatusMessage('Requesting emergency exit...');
+      await tx.wait();
+      if (summaryResult.refetch) {
+        await summaryResult.refetch();
+      }
+      setStatusMessage('Emergency exit requested. Finalize to collect your principal.');
+      setPrivateAmount('');
+      setPrivateReward('');
+    } catch (error) {
+      console.error('emergencyWithdraw failed', error);
+      setStatusMessage(
+        error instanceof Error ? `Emergency exit failed: ${error.message}` : 'Emergency exit failed. Please try again.'
+      );
+    } finally {
+      setIsEmergencyExiting(false);
+    }
+  };
+
+  const cancelWithdrawal = async () => {
+    if (!signerPromise || !summary?.exists) {
+      setStatusMessage('Stake not found.');
+      return;
+    }
+    try {
+      setIsCancelling(true);
+      const signer = await signerPromise;
+      if (!signer) throw new Error('Wallet not ready.');
+      const contract = new Contract(network.address, network.abi, signer);
+      const tx = await contract.cancelWithdrawal(stakeId);
+      setStatusMessage('Cancelling withdrawal request...');
+      await tx.wait();
+      if (summaryResult.refetch) {
+        await summaryResult.refetch();
+      }
+      setStatusMessage('Withdrawal request cancelled. The stake is private again under a new handle.');
+      setPrivateAmount('');
+      setPrivateReward('');
+      setPublicAmount('');
+    } catch (error) {
+      console.error('cancelWithdrawal failed', error);
+      setStatusMessage(
+        error instanceof Error ? `Cancel failed: ${error.message}` : 'Cancel failed. Please try again.'
+      );
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  const rolloverStake = async () => {
+    if (!signerPromise || !summary?.exists || Number(rolloverDays) < 1) {
+      setStatusMessage('Enter the duration of the new lock.');
+      return;
+    }
+    try {
+      setIsRollingOver(true);
+      const signer = await signerPromise;
+      if (!signer) throw new Error('Wallet not ready.');
+      const contract = new Contract(network.address, network.abi, signer);
+      const durationSeconds = BigInt(Math.floor(Number(rolloverDays)) * SECONDS_IN_DAY);
+      const tx = await contract.rolloverStake(stakeId, durationSeconds);
+      setStatusMessage('Rolling over stake...');
+      await tx.wait();
+      if (summaryResult.refetch) {
+        await summaryResult.refetch();
+      }
+      setStatusMessage('Stake re-locked with its reward added to the amount.');
+      setRolloverDays('');
+      setPrivateAmount('');
+      setPrivateReward('');
+      setPublicAmount('');
+    } catch (error) {
+      console.error('rolloverStake failed', error);
+      setStatusMessage(
+        error instanceof Error ? `Rollover failed: ${error.message}` : 'Rollover failed. Please try again.'
+      );
+    } finally {
+      setIsRollingOver(false);
+    }
+  };
+
+  const claimVested = async () => {
+    if (!instance || !signerPromise || !summary?.exists) {
+      setStatusMessage('Stake not found or wallet unavailable.');
+      return;
+    }
+    try {
+      setIsClaiming(true);
+      const signer = await signerPromise;
+      if (!signer) throw new Error('Wallet not ready.');
+      const contract = new Contract(network.address, network.abi, signer);
+
+      // A tranche requested earlier but never finalized is paid out as is.
+      let handle = summary.encryptedPendingClaim;
+      if (handle === ZERO_HANDLE) {
+        setStatusMessage('Computing the vested tranche...');
+        const requestTx = await contract.requestVestedClaim(stakeId);
+        await requestTx.wait();
+        const refreshed = await contract.getStakeSummary(stakeId);
+        handle = String(refreshed.encryptedPendingClaim);
+      }
+
+      const proofResult = await instance.publicDecrypt([handle]);
+      const value = proofResult.clearValues[handle];
+      setPublicAmount(formatEther(BigInt(value)));
+
+      const tx = await contract.finalizeVestedClaim(
+        stakeId,
+        proofResult.abiEncodedClearValues,
+        proofResult.decryptionProof
+      );
+      setStatusMessage('Claiming vested tranche...');
+      const receipt = await tx.wait();
+      const completed = receipt?.logs
+        .map((log: { topics: string[]; data: string }) => contract.interface.parseLog(log))
+        .some((event: LogDescription | null) => event?.name === 'VestedClaimFinalized' && event.args.completed);
+      if (completed) {
+        setStatusMessage('Final tranche claimed. The vesting stake is closed.');
+        onClosed();
+        return;
+      }
+      if (summaryResult.refetch) {
+        await summaryResult.refetch();
+      }
+      setStatusMessage('Vested tranche claimed. The remainder stays encrypted.');
+    } catch (error) {
+      console.error('vested claim failed', error);
+      setStatusMessage(
+        error instanceof Error ? `Claim failed: ${error.message}` : 'Claim failed. Please try again.'
+      );
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  const topUpStake = async () => {
+    if (!signerPromise || !summary?.exists || !topUpAmount || Number(topUpAmount) <= 0) {
+      setStatusMessage('Enter an amount to add.');
+      return;
+    }
+    try {
+      setIsToppingUp(true);
+      const signer = await signerPromise;
+      if (!signer) throw new Error('Wallet not ready.');
+      const contract = new Contract(network.address, network.abi, signer);
+      const tx = await contract.increaseStake(stakeId, { value: parseEther(topUpAmount) });
+      setStatusMessage('Adding to stake...');
+      await tx.wait();
+      if (summaryResult.refetch) {
+        await summaryResult.refetch();
+      }
+      setStatusMessage('Stake topped up.');
+      setTopUpAmount('');
+      setPrivateAmount('');
+      setPrivateReward('');
+    } catch (error) {
+      console.error('increaseStake failed', error);
+      setStatusMessage(
+        error instanceof Error ? `Top up failed: ${error.message}` : 'Top up failed. Please try again.'
+      );
+    } finally {
+      setIsToppingUp(false);
+    }
+  };
+
+  const extendLock = async () => {
+    if (!signerPromise || !summary?.exists || Number(extendDays) < 1) {
+      setStatusMessage('Enter the new total lock duration.');
+      return;
+    }
+    try {
+      setIsExtending(true);
+      const signer = await signerPromise;
+      if (!signer) throw new Error('Wallet not ready.');
+      const contract = new Contract(network.address, network.abi, signer);
+      const durationSeconds = BigInt(Math.floor(Number(extendDays)) * SECONDS_IN_DAY);
+      const tx = await contract.extendLock(stakeId, durationSeconds);
+      setStatusMessage('Extending lock...');
+      await tx.wait();
+      if (summaryResult.refetch) {
+        await summaryResult.refetch();
+      }
+      setStatusMessage('Lock extended.');
+      setExtendDays('');
+      setPrivateReward('');
+    } catch (error) {
+      console.error('extendLock failed', error);
+      setStatusMessage(
+        error instanceof Error ? `Extend failed: ${error.message}` : 'Extend failed. Please try again.'
+      );
+    } finally {
+      setIsExtending(false);
+    }
+  };
+
+  const updateBeneficiary = async () => {
+    if (!signerPromise || !summary?.exists || (beneficiaryInput && !isAddress(beneficiaryInput))) {
+      setStatusMessage('Enter a valid address, or leave it empty to pay your wallet.');
+      return;
+    }
+    try {
+      setIsUpdatingBeneficiary(true);
+      const signer = await signerPromise;
+      if (!signer) throw new Error('Wallet not ready.');
+      const contract = new Contract(network.address, network.abi, signer);
+      const tx = await contract.setBeneficiary(stakeId, beneficiaryInput || ZERO_ADDRESS);
+      setStatusMessage('Updating beneficiary...');
+      await tx.wait();
+      if (summaryResult.refetch) {
+        await summaryResult.refetch();
+      }
+      setStatusMessage('Beneficiary updated.');
+      setBeneficiaryInput('');
+    } catch (error) {
+      console.error('setBeneficiary failed', error);
+      setStatusMessage(
+        error instanceof Error ? `Update failed: ${error.message}` : 'Update failed. Please try again.'
+      );
+    } finally {
+      setIsUpdatingBeneficiary(false);
+    }
+  };
+
+  const updateHeir = async () => {
+    const removing = !heirInput;
+    if (!signerPromise || !summary?.exists || (!removing && (!isAddress(heirInput) || Number(inactivityDays) < 1))) {
+      setStatusMessage('Enter an heir and an inactivity period, or leave the address empty to remove the heir.');
+      return;
+    }
+    try {
+      setIsUpdatingHeir(true);
+      const signer = await signerPromise;
+      if (!signer) throw new Error('Wallet not ready.');
+      const contract = new Contract(network.address, network.abi, signer);
+      const inactivitySeconds = removing ? 0n : BigInt(Math.floor(Number(inactivityDays)) * SECONDS_IN_DAY);
+      const tx = await contract.setHeir(stakeId, removing ? ZERO_ADDRESS : heirInput, inactivitySeconds);
+      setStatusMessage('Updating heir...');
+      await tx.wait();
+      if (summaryResult.refetch) {
+        await summaryResult.refetch();
+      }
+      setStatusMessage(removing ? 'Heir removed.' : 'Heir set. Ping regularly to keep the stake yours.');
+      setHeirInput('');
+      setInactivityDays('');
+    } catch (error) {
+      console.error('setHeir failed', error);
+      setStatusMessage(
+        error instanceof Error ? `Update failed: ${error.message}` : 'Update failed. Please try again.'
+      );
+    } finally {
+      setIsUpdatingHeir(false);
+    }
+  };
+
+  const withdrawTokens = async () => {
+    if (!signerPromise || !summary?.exists) {
+      setStatusMessage('Stake not found.');
+      return;
+    }
+    try {
+      setIsFinalizing(true);
+      const signer = await signerPromise;
+      if (!signer) throw new Error('Wallet not ready.');
+      const contract = new Contract(network.address, network.abi, signer);
+      const tx = await contract.withdrawToken(stakeId);
+      setStatusMessage('Returning tokens...');
+      await tx.wait();
+      setStatusMessage('Tokens returned through an encrypted transfer.');
+      setPrivateAmount('');
+      onClosed();
+    } catch (error) {
+      console.error('withdrawToken failed', error);
+      setStatusMessage(
+        error instanceof Error ? `Withdraw failed: ${error.message}` : 'Withdraw failed. Please try again.'
+      );
+    } finally {
+      setIsFinalizing(false);
+    }
+  };
+
   const finalizeWithdrawal = async () => {
     if (!instance || !signerPromise || !summary || summary.encryptedAmount === ZERO_HANDLE) {
       setStatusMessage('Cannot finalize withdrawal yet.');
@@ -170,13 +608,14 @@ export function StakeOverview() {
       setIsFinalizing(true);
       const signer = await signerPromise;
       if (!signer) throw new Error('Wallet not ready.');
-      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
+      const contract = new Contract(network.address, network.abi, signer);
 
       const proofResult = await instance.publicDecrypt([summary.encryptedAmount]);
       const value = proofResult.clearValues[summary.encryptedAmount];
       setPublicAmount(formatEther(BigInt(value)));
 
       const tx = await contract.finalizeWithdrawal(
+        stakeId,
         proofResult.abiEncodedClearValues,
         proofResult.decryptionProof
       );
@@ -187,6 +626,7 @@ export function StakeOverview() {
       }
       setStatusMessage('Withdrawal finalized!');
       setPrivateAmount('');
+      onClosed();
     } catch (error) {
       console.error('finalizeWithdrawal failed', error);
       setStatusMessage(
@@ -197,52 +637,90 @@ export function StakeOverview() {
     }
   };
 
-  if (!address) {
-    return (
-      <section className="stake-overview-card">
-        <p>Please connect your wallet to see stake information.</p>
-      </section>
-    );
-  }
-
   if (!summary?.exists) {
     return (
-      <section className="stake-overview-card">
-        <h3>No stake detected</h3>
-        <p>Create a stake in the other tab, then return here to monitor it.</p>
-      </section>
+      <article className="stake-position">
+        <p className="position-title">Stake #{stakeId.toString()}</p>
+        <p>{statusMessage || 'Loading position...'}</p>
+      </article>
     );
   }
 
   const now = Math.floor(Date.now() / 1000);
-  const unlockReady = now >= summary.unlockTimestamp;
+  // For a private-duration stake the public unlock time is only a lower bound, checked on-chain under FHE
+  const unlockReady = now >= summary.unlockTimestamp && (!privateUnlock || now >= privateUnlock);
+  const tokenWithdrawable = unlockReady || emergencyMode;
+  const currentLockDays = Math.ceil(summary.lockDuration / SECONDS_IN_DAY);
 
   return (
-    <section className="stake-overview-card">
-      <header>
-        <div>
-          <h2>My Vault</h2>
-          <p>Track the encrypted handle and control the withdrawal flow.</p>
-        </div>
-      </header>
+    <article className="stake-position">
+      <p className="position-title">Stake #{stakeId.toString()}</p>
 
       <div className="overview-grid">
         <div>
           <p className="label">Encrypted handle</p>
           <p className="value">{summary.encryptedAmount.slice(0, 18)}...</p>
         </div>
+        <div>
+          <p className="label">Asset</p>
+          <p className="value">{isToken ? `${assetLabel} (${summary.token.slice(0, 10)}...)` : 'ETH'}</p>
+        </div>
+        <div>
+          <p className="label">Pays out to</p>
+          <p className="value">
+            {summary.beneficiary === ZERO_ADDRESS ? 'Your wallet' : `${summary.beneficiary.slice(0, 10)}...`}
+          </p>
+        </div>
+        {summary.heir !== ZERO_ADDRESS && (
+          <div>
+            <p className="label">Heir</p>
+            <p className="value">
+              {summary.heir.slice(0, 10)}... after {Math.round(summary.inactivityPeriod / SECONDS_IN_DAY)} days idle
+            </p>
+          </div>
+        )}
         <div>
           <p className="label">Start</p>
           <p className="value">{formatTimestamp(summary.startTimestamp)}</p>
         </div>
+        {summary.vesting && (
+          <div>
+            <p className="label">Cliff ends</p>
+            <p className="value">{formatTimestamp(summary.startTimestamp + summary.cliffDuration)}</p>
+          </div>
+        )}
         <div>
-          <p className="label">Unlock at</p>
-          <p className="value">{formatTimestamp(summary.unlockTimestamp)}</p>
+          <p className="label">{summary.vesting ? 'Fully vested at' : 'Unlock at'}</p>
+          <p className="value">
+            {!isPrivateDuration
+              ? formatTimestamp(summary.unlockTimestamp)
+              : privateUnlock
+                ? `${formatTimestamp(privateUnlock)} (private)`
+                : 'Hidden, decrypt to see'}
+          </p>
         </div>
+        {summary.vesting && (
+          <div>
+            <p className="label">Claimed so far</p>
+            <p className="value">{formatEther(summary.claimedAmount)} ETH</p>
+          </div>
+        )}
         <div>
           <p className="label">Status</p>
           <p className="value">
-            {summary.withdrawalRequested ? 'Waiting for finalization' : unlockReady ? 'Ready to unlock' : 'Locked'}
+            {summary.vesting
+              ? summary.encryptedPendingClaim !== ZERO_HANDLE
+                ? 'Claim waiting for finalization'
+                : summary.claimableNow
+                  ? 'Vested tranche claimable now'
+                  : 'Before the cliff'
+              : summary.withdrawalRequested
+                ? 'Waiting for finalization'
+                : isPrivateDuration && !privateUnlock
+                  ? 'Locked until a private time'
+                  : unlockReady
+                    ? 'Ready to unlock'
+                    : 'Locked'}
           </p>
         </div>
       </div>
@@ -252,28 +730,173 @@ export function StakeOverview() {
           {isDecrypting ? 'Decrypting...' : 'Decrypt privately'}
         </button>
 
+        {isToken ? (
+          <button className="primary" onClick={withdrawTokens} disabled={!tokenWithdrawable || isFinalizing}>
+            {isFinalizing ? 'Withdrawing...' : 'Withdraw tokens'}
+          </button>
+        ) : summary.vesting ? (
+          <button
+            className="primary"
+            onClick={claimVested}
+            disabled={(!summary.claimableNow && summary.encryptedPendingClaim === ZERO_HANDLE) || isClaiming}
+          >
+            {isClaiming ? 'Claiming...' : 'Claim vested'}
+          </button>
+        ) : emergencyMode && !unlockReady && !summary.withdrawalRequested ? (
+          <button className="secondary" onClick={emergencyExit} disabled={isEmergencyExiting}>
+            {isEmergencyExiting ? 'Exiting...' : 'Emergency exit (no penalty)'}
+          </button>
+        ) : unlockReady || summary.withdrawalRequested || isPrivateDuration ? (
+          <button
+            className="secondary"
+            onClick={requestUnlock}
+            disabled={!unlockReady || summary.withdrawalRequested || isRequestingUnlock}
+          >
+            {isRequestingUnlock ? 'Requesting...' : 'Request unlock'}
+          </button>
+        ) : (
+          <button className="secondary" onClick={exitEarly} disabled={isExitingEarly}>
+            {isExitingEarly ? 'Exiting...' : `Exit early (${penaltyPercent}% penalty)`}
+          </button>
+        )}
+
         <button
           className="secondary"
-          onClick={requestUnlock}
-          disabled={!unlockReady || summary.withdrawalRequested || isRequestingUnlock}
+          onClick={() => setShowAdjust((value) => !value)}
+          disabled={summary.withdrawalRequested}
         >
-          {isRequestingUnlock ? 'Requesting...' : 'Request unlock'}
+          Manage
         </button>
 
-        <button
-          className="primary"
-          onClick={finalizeWithdrawal}
-          disabled={!summary.withdrawalRequested || isFinalizing}
-        >
-          {isFinalizing ? 'Finalizing...' : 'Finalize withdrawal'}
-        </button>
+        {!isToken && summary.withdrawalRequested && (
+          <button className="secondary" onClick={cancelWithdrawal} disabled={isCancelling}>
+            {isCancelling ? 'Cancelling...' : 'Cancel request'}
+          </button>
+        )}
+
+        {!isToken && !summary.vesting && (
+          <button
+            className="primary"
+            onClick={finalizeWithdrawal}
+            disabled={!summary.withdrawalRequested || isFinalizing}
+          >
+            {isFinalizing ? 'Finalizing...' : 'Finalize withdrawal'}
+          </button>
+        )}
       </div>
 
+      {!isToken && !summary.vesting && !isPrivateDuration && unlockReady && (
+        <div className="adjust-panel">
+          <div className="adjust-row">
+            <input
+              type="number"
+              min="1"
+              max={maxLockDays}
+              placeholder="Roll over into a new lock (days)"
+              value={rolloverDays}
+              onChange={(event) => setRolloverDays(event.target.value)}
+            />
+            <button
+              className="secondary"
+              onClick={rolloverStake}
+              disabled={Number(rolloverDays) < 1 || Number(rolloverDays) > maxLockDays || isRollingOver}
+            >
+              {isRollingOver ? 'Rolling over...' : 'Roll over'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {showAdjust && !summary.withdrawalRequested && (
+        <div className="adjust-panel">
+          {!isToken && !summary.vesting && (
+            <div className="adjust-row">
+              <input
+                type="number"
+                min="0"
+                step="0.001"
+                placeholder="Add ETH, e.g. 0.10"
+                value={topUpAmount}
+                onChange={(event) => setTopUpAmount(event.target.value)}
+              />
+              <button className="secondary" onClick={topUpStake} disabled={!topUpAmount || isToppingUp}>
+                {isToppingUp ? 'Adding...' : 'Top up'}
+              </button>
+            </div>
+          )}
+          {!summary.vesting && !isPrivateDuration && (
+            <div className="adjust-row">
+              <input
+                type="number"
+                min={currentLockDays + 1}
+                max={maxLockDays}
+                placeholder={`New total lock (days), currently ${currentLockDays}`}
+                value={extendDays}
+                onChange={(event) => setExtendDays(event.target.value)}
+              />
+              <button
+                className="secondary"
+                onClick={extendLock}
+                disabled={Number(extendDays) <= currentLockDays || Number(extendDays) > maxLockDays || isExtending}
+              >
+                {isExtending ? 'Extending...' : 'Extend lock'}
+              </button>
+            </div>
+          )}
+          <div className="adjust-row">
+            <input
+              type="text"
+              placeholder="Beneficiary address (empty pays your wallet)"
+              value={beneficiaryInput}
+              onChange={(event) => setBeneficiaryInput(event.target.value.trim())}
+            />
+            <button
+              className="secondary"
+              onClick={updateBeneficiary}
+              disabled={(!!beneficiaryInput && !isAddress(beneficiaryInput)) || isUpdatingBeneficiary}
+            >
+              {isUpdatingBeneficiary ? 'Updating...' : 'Set beneficiary'}
+            </button>
+          </div>
+          {!isToken && !summary.vesting && (
+            <div className="adjust-row">
+              <input
+                type="text"
+                placeholder="Heir address (empty removes the heir)"
+                value={heirInput}
+                onChange={(event) => setHeirInput(event.target.value.trim())}
+              />
+              <input
+                type="number"
+                min="1"
+                placeholder="Inactivity (days)"
+                value={inactivityDays}
+                onChange={(event) => setInactivityDays(event.target.value)}
+              />
+              <button
+                className="secondary"
+                onClick={updateHeir}
+                disabled={
+                  (!!heirInput && (!isAddress(heirInput) || Number(inactivityDays) < 1)) || isUpdatingHeir
+                }
+              >
+                {isUpdatingHeir ? 'Updating...' : 'Set heir'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
       {(privateAmount || publicAmount) && (
         <div className="amounts">
           {privateAmount && (
             <p>
-              Private amount: <span>{privateAmount} ETH</span>
+              Private amount: <span>{`${privateAmount} ${assetLabel}`}</span>
+            </p>
+          )}
+          {privateReward && (
+            <p>
+              Reserved reward: <span>{privateReward} ETH</span>
             </p>
           )}
           {publicAmount && (
@@ -284,10 +907,312 @@ export function StakeOverview() {
         </div>
       )}
 
-      <div className="status-row">
-        {statusMessage && <p>{statusMessage}</p>}
-        {zamaError && <p className="error-text">{zamaError}</p>}
+      <div className="status-row">{statusMessage && <p>{statusMessage}</p>}</div>
+    </article>
+  );
+}
+
+type KeeperOptInProps = {
+  network: PrismLockNetwork;
+  address: string;
+  signerPromise: Promise<JsonRpcSigner> | undefined;
+};
+
+function KeeperOptIn({ network, address, signerPromise }: KeeperOptInProps) {
+  const [isUpdating, setIsUpdating] = useState(false);
+  const optInResult = useReadContract({
+    address: network.address,
+    abi: network.abi,
+    functionName: 'isKeeperOptedIn',
+    args: [address as `0x${string}`],
+  });
+  const optedIn = Boolean(optInResult.data);
+
+  const toggle = async () => {
+    if (!signerPromise) return;
+    try {
+      setIsUpdating(true);
+      const signer = await signerPromise;
+      if (!signer) throw new Error('Wallet not ready.');
+      const contract = new Contract(network.address, network.abi, signer);
+      const tx = await contract.setKeeperOptIn(!optedIn);
+      await tx.wait();
+      await optInResult.refetch();
+    } catch (error) {
+      console.error('setKeeperOptIn failed', error);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <label className="keeper-opt-in">
+      <input type="checkbox" checked={optedIn} onChange={toggle} disabled={isUpdating || !signerPromise} />
+      <span>
+        Let keepers complete my matured ETH withdrawals. Funds still go only to me or my beneficiaries.
+      </span>
+    </label>
+  );
+}
+
+type LivenessPingProps = {
+  network: PrismLockNetwork;
+  address: string;
+  signerPromise: Promise<JsonRpcSigner> | undefined;
+};
+
+function LivenessPing({ network, address, signerPromise }: LivenessPingProps) {
+  const [isPinging, setIsPinging] = useState(false);
+  const lastPingResult = useReadContract({
+    address: network.address,
+    abi: network.abi,
+    functionName: 'lastPing',
+    args: [address as `0x${string}`],
+  });
+  const lastPing = Number(lastPingResult.data ?? 0n);
+
+  const ping = async () => {
+    if (!signerPromise) return;
+    try {
+      setIsPinging(true);
+      const signer = await signerPromise;
+      if (!signer) throw new Error('Wallet not ready.');
+      const contract = new Contract(network.address, network.abi, signer);
+      const tx = await contract.ping();
+      await tx.wait();
+      await lastPingResult.refetch();
+    } catch (error) {
+      console.error('ping failed', error);
+    } finally {
+      setIsPinging(false);
+    }
+  };
+
+  return (
+    <div className="liveness-ping">
+      <span>Heirs can step in after your inactivity period. Last sign of life: {formatTimestamp(lastPing)}</span>
+      <button onClick={ping} disabled={isPinging || !signerPromise}>
+        {isPinging ? 'Pinging...' : "I'm still here"}
+      </button>
+    </div>
+  );
+}
+
+type ClaimableBalanceProps = {
+  network: PrismLockNetwork;
+  address: string;
+  signerPromise: Promise<JsonRpcSigner> | undefined;
+};
+
+function ClaimableBalance({ network, address, signerPromise }: ClaimableBalanceProps) {
+  const [isClaiming, setIsClaiming] = useState(false);
+  const claimableResult = useReadContract({
+    address: network.address,
+    abi: network.abi,
+    functionName: 'claimableOf',
+    args: [address as `0x${string}`],
+    query: { refetchInterval: 10000 },
+  });
+  const claimable = (claimableResult.data as bigint | undefined) ?? 0n;
+
+  const claim = async () => {
+    if (!signerPromise) return;
+    try {
+      setIsClaiming(true);
+      const signer = await signerPromise;
+      if (!signer) throw new Error('Wallet not ready.');
+      const contract = new Contract(network.address, network.abi, signer);
+      const tx = await contract.claim();
+      await tx.wait();
+      await claimableResult.refetch();
+    } catch (error) {
+      console.error('claim failed', error);
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  if (claimable === 0n) {
+    return null;
+  }
+
+  return (
+    <div className="claimable-balance">
+      <span>
+        {formatEther(claimable)} ETH from finalized payouts your wallet did not accept is waiting to be claimed.
+      </span>
+      <button onClick={claim} disabled={isClaiming || !signerPromise}>
+        {isClaiming ? 'Claiming...' : 'Claim'}
+      </button>
+    </div>
+  );
+}
+
+type ViewerPanelProps = {
+  network: PrismLockNetwork;
+  address: string;
+  signerPromise: Promise<JsonRpcSigner> | undefined;
+};
+
+function ViewerPanel({ network, address, signerPromise }: ViewerPanelProps) {
+  const [viewerInput, setViewerInput] = useState('');
+  const [pendingViewer, setPendingViewer] = useState('');
+  const [statusMessage, setStatusMessage] = useState('');
+  const viewersResult = useReadContract({
+    address: network.address,
+    abi: network.abi,
+    functionName: 'getViewers',
+    args: [address as `0x${string}`],
+  });
+  const viewers = (viewersResult.data as readonly string[] | undefined) ?? [];
+
+  const updateViewer = async (viewer: string, grant: boolean) => {
+    if (!signerPromise) return;
+    if (grant && !isAddress(viewer)) {
+      setStatusMessage('Enter a valid viewer address.');
+      return;
+    }
+    try {
+      setPendingViewer(viewer);
+      setStatusMessage('');
+      const signer = await signerPromise;
+      if (!signer) throw new Error('Wallet not ready.');
+      const contract = new Contract(network.address, network.abi, signer);
+      const tx = grant ? await contract.grantViewer(viewer) : await contract.revokeViewer(viewer);
+      await tx.wait();
+      await viewersResult.refetch();
+      setViewerInput('');
+      setStatusMessage(
+        grant
+          ? 'Viewer can now decrypt the amounts of your stakes.'
+          : 'Viewer removed. Your open stakes were re-encrypted under new handles.'
+      );
+    } catch (error) {
+      console.error(grant ? 'grantViewer failed' : 'revokeViewer failed', error);
+      setStatusMessage(error instanceof Error ? error.message : 'Viewer update failed.');
+    } finally {
+      setPendingViewer('');
+    }
+  };
+
+  return (
+    <div className="viewer-panel">
+      <p className="position-title">Viewers</p>
+      <p className="viewer-hint">
+        Viewers, such as auditors, can decrypt your stake amounts but never move funds. Removing one re-encrypts your
+        open stakes.
+      </p>
+      {viewers.length === 0 ? (
+        <p className="viewer-hint">No viewers granted.</p>
+      ) : (
+        <ul className="viewer-list">
+          {viewers.map((viewer) => (
+            <li key={viewer}>
+              <span>{viewer}</span>
+              <button onClick={() => updateViewer(viewer, false)} disabled={!!pendingViewer || !signerPromise}>
+                {pendingViewer === viewer ? 'Removing...' : 'Remove'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="adjust-row">
+        <input
+          type="text"
+          placeholder="Viewer address (0x...)"
+          value={viewerInput}
+          onChange={(event) => setViewerInput(event.target.value)}
+        />
+        <button
+          onClick={() => updateViewer(viewerInput, true)}
+          disabled={!viewerInput || !!pendingViewer || !signerPromise}
+        >
+          {pendingViewer && pendingViewer === viewerInput ? 'Granting...' : 'Grant access'}
+        </button>
+      </div>
+      {statusMessage && <p className="viewer-hint">{statusMessage}</p>}
+    </div>
+  );
+}
+
+type StakeOverviewProps = {
+  network: PrismLockNetwork;
+};
+
+export function StakeOverview({ network }: StakeOverviewProps) {
+  const { address } = useAccount();
+  const signerPromise = useEthersSigner();
+  const { instance, isLoading: zamaLoading, error: zamaError } = useZamaInstance(network.fhevm);
+  const decryptionSession = useDecryptionSession(network, instance);
+
+  const stakeIdsResult = useReadContract({
+    address: network.address,
+    abi: network.abi,
+    functionName: 'getStakeIds',
+    args: address ? [address] : undefined,
+    query: {
+      enabled: !!address,
+      refetchInterval: 10000,
+    },
+  });
+
+  const stakeIds = useMemo(() => (stakeIdsResult.data as readonly bigint[] | undefined) ?? [], [stakeIdsResult.data]);
+
+  if (!address) {
+    return (
+      <section className="stake-overview-card">
+        <p>Please connect your wallet to see stake information.</p>
+      </section>
+    );
+  }
+
+  if (stakeIds.length === 0) {
+    return (
+      <section className="stake-overview-card">
+        <h3>No stake detected</h3>
+        <p>Create a stake in the other tab, then return here to monitor it.</p>
+        <ClaimableBalance network={network} address={address} signerPromise={signerPromise} />
+      </section>
+    );
+  }
+
+  return (
+    <section className="stake-overview-card">
+      <header>
+        <div>
+          <h2>My Vault</h2>
+          <p>
+            {stakeIds.length} open {stakeIds.length === 1 ? 'position' : 'positions'}. Track each encrypted handle and
+            control its withdrawal flow.
+          </p>
+          <KeeperOptIn network={network} address={address} signerPromise={signerPromise} />
+          <LivenessPing network={network} address={address} signerPromise={signerPromise} />
+          <ClaimableBalance network={network} address={address} signerPromise={signerPromise} />
+          <DecryptionSessionStatus
+            isActive={decryptionSession.isActive}
+            expiresAt={decryptionSession.expiresAt}
+            onEnd={decryptionSession.endSession}
+          />
+        </div>
+      </header>
+
+      <div className="positions">
+        {stakeIds.map((stakeId) => (
+          <StakePosition
+            key={stakeId.toString()}
+            network={network}
+            stakeId={stakeId}
+            instance={instance}
+            zamaLoading={zamaLoading}
+            signerPromise={signerPromise}
+            onClosed={() => void stakeIdsResult.refetch()}
+          />
+        ))}
       </div>
+
+      <ViewerPanel network={network} address={address} signerPromise={signerPromise} />
+
+      <div className="status-row">{zamaError && <p className="error-text">{zamaError}</p>}</div>
     </section>
   );
 }
@@ -0,0 +1,32 @@
+import { useSwitchChain } from 'wagmi';
+import { NETWORKS } from '../config/networks';
+
+type UnsupportedNetworkProps = {
+  chainId: number | undefined;
+};
+
+export function UnsupportedNetwork({ chainId }: UnsupportedNetworkProps) {
+  const { switchChain, isPending } = useSwitchChain();
+
+  return (
+    <section className="unsupported-network">
+      <h2>Unsupported network</h2>
+      <p>
+        PrismLock is not deployed on the network your wallet is connected to
+        {chainId !== undefined ? ` (chain ID ${chainId})` : ''}. Switch to one of the supported networks:
+      </p>
+      <div className="unsupported-network-options">
+        {NETWORKS.map((network) => (
+          <button
+            key={network.chain.id}
+            className="tab-button"
+            onClick={() => switchChain({ chainId: network.chain.id })}
+            disabled={isPending}
+          >
+            {network.chain.name}
+          </button>
+        ))}
+      </div>
+    </section>
+  );
+}
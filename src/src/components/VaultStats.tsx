@@ -0,0 +1,82 @@
+import { ZeroAddress, ZeroHash, formatEther } from 'ethers';
+import { useReadContract } from 'wagmi';
+import type { PrismLockNetwork } from '../config/networks';
+import { PRISM_LOCK_STATS_ABI } from '../config/prismLockStats';
+import '../styles/VaultStats.css';
+
+type VaultStatsProps = {
+  network: PrismLockNetwork;
+};
+
+export function VaultStats({ network }: VaultStatsProps) {
+  const statsResult = useReadContract({
+    address: network.address,
+    abi: network.abi,
+    functionName: 'stats',
+  });
+  const statsAddress = statsResult.data && statsResult.data !== ZeroAddress ? statsResult.data : undefined;
+  const query = { enabled: Boolean(statsAddress), refetchInterval: 30000 };
+
+  const totalResult = useReadContract({
+    address: statsAddress,
+    abi: PRISM_LOCK_STATS_ABI,
+    functionName: 'revealedTotalValueLocked',
+    query,
+  });
+  const revealedAtResult = useReadContract({
+    address: statsAddress,
+    abi: PRISM_LOCK_STATS_ABI,
+    functionName: 'revealedAt',
+    query,
+  });
+  const pendingResult = useReadContract({
+    address: statsAddress,
+    abi: PRISM_LOCK_STATS_ABI,
+    functionName: 'getPendingReveal',
+    query,
+  });
+  const intervalResult = useReadContract({
+    address: statsAddress,
+    abi: PRISM_LOCK_STATS_ABI,
+    functionName: 'REVEAL_INTERVAL',
+    query: { enabled: Boolean(statsAddress) },
+  });
+
+  const revealedAt = Number(revealedAtResult.data ?? 0n);
+  const revealedTotal = revealedAt > 0 && totalResult.data !== undefined ? formatEther(totalResult.data) : undefined;
+  const intervalHours = Number(intervalResult.data ?? 0n) / 3600;
+  const hasPendingReveal = Boolean(pendingResult.data && pendingResult.data !== ZeroHash);
+
+  return (
+    <section className="vault-stats-card">
+      <header>
+        <h2>Vault Stats</h2>
+        <p>
+          PrismLock keeps the ETH locked in stakes as one encrypted running total. Only the figures the operators
+          choose to reveal become public, at most once every {intervalHours || 24} hours so that no single stake can be
+          singled out.
+        </p>
+      </header>
+
+      {statsResult.isSuccess && !statsAddress ? (
+        <p className="stats-empty">Stats are not enabled on this deployment.</p>
+      ) : (
+        <div className="stats-grid">
+          <div className="stats-item">
+            <span className="stats-label">Total value locked</span>
+            <span className="stats-value">
+              {revealedTotal !== undefined ? `${revealedTotal} ETH` : 'Not revealed yet'}
+            </span>
+          </div>
+          <div className="stats-item">
+            <span className="stats-label">Revealed as of</span>
+            <span className="stats-value">{revealedAt > 0 ? new Date(revealedAt * 1000).toLocaleString() : '—'}</span>
+          </div>
+          {hasPendingReveal && (
+            <p className="stats-pending">A newer snapshot is waiting for its public decryption and will appear here.</p>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
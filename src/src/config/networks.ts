@@ -0,0 +1,63 @@
+import type { Chain } from 'viem';
+import { hardhat, sepolia } from 'wagmi/chains';
+import { SepoliaConfig } from '@zama-fhe/relayer-sdk/bundle';
+import { CONTRACT_ADDRESSES, CONTRACT_ABI } from './contracts';
+
+export type FhevmNetworkConfig =
+  | { kind: 'relayer'; config: typeof SepoliaConfig }
+  | {
+      kind: 'mock';
+      rpcUrl: string;
+      verifyingContractAddressDecryption: `0x${string}`;
+      verifyingContractAddressInputVerification: `0x${string}`;
+    };
+
+export type PrismLockNetwork = {
+  chain: Chain;
+  address: `0x${string}`;
+  abi: typeof CONTRACT_ABI;
+  fhevm: FhevmNetworkConfig;
+};
+
+type DeploymentArtifact = {
+  address: `0x${string}`;
+};
+
+// hardhat-deploy writes one folder per network; folders that were never deployed are simply absent.
+const deployments = import.meta.glob<DeploymentArtifact>('../../../deployments/*/PrismLock.json', {
+  eager: true,
+  import: 'default',
+});
+
+function deployedAddress(network: string) {
+  return deployments[`../../../deployments/${network}/PrismLock.json`]?.address;
+}
+
+// `npx hardhat node` runs the fhevm mock; the gateway addresses are the ones @fhevm/hardhat-plugin signs with.
+const localFhevm: FhevmNetworkConfig = {
+  kind: 'mock',
+  rpcUrl: hardhat.rpcUrls.default.http[0],
+  verifyingContractAddressDecryption: '0x5ffdaAB0373E62E2ea2944776209aEf29E631A64',
+  verifyingContractAddressInputVerification: '0x812b06e1CDCE800494b79fFE4f925A504a9A9810',
+};
+
+const CANDIDATES: { deployment: string; chain: Chain; fhevm: FhevmNetworkConfig }[] = [
+  { deployment: 'sepolia', chain: sepolia, fhevm: { kind: 'relayer', config: SepoliaConfig } },
+  { deployment: 'localhost', chain: hardhat, fhevm: localFhevm },
+];
+
+// A local deployment folder wins over the committed address, so a freshly restarted node is picked up on rebuild.
+export const NETWORKS: PrismLockNetwork[] = CANDIDATES.flatMap(({ deployment, chain, fhevm }) => {
+  const address = deployedAddress(deployment) ?? CONTRACT_ADDRESSES[chain.id];
+  return address ? [{ chain, address, abi: CONTRACT_ABI, fhevm }] : [];
+});
+
+// wagmi needs at least one chain; without any deployment the app stays on the unsupported-network screen.
+export const SUPPORTED_CHAINS = (NETWORKS.length > 0 ? NETWORKS.map((network) => network.chain) : [sepolia]) as [
+  Chain,
+  ...Chain[],
+];
+
+export function getNetwork(chainId: number | undefined) {
+  return NETWORKS.find((network) => network.chain.id === chainId);
+}
@@ -1,9 +1,9 @@
 import { getDefaultConfig } from '@rainbow-me/rainbowkit';
-import { sepolia } from 'wagmi/chains';
+import { SUPPORTED_CHAINS } from './networks';
 
 export const config = getDefaultConfig({
   appName: '',
   projectId: '1d82aa8f4e3c93aea0f8ba6477892dfd',
-  chains: [sepolia],
+  chains: SUPPORTED_CHAINS,
   ssr: false,
 });
@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+import { useAccount } from 'wagmi';
+import type { PrismLockNetwork } from '../config/networks';
+import { useEthersSigner } from './useEthersSigner';
+import type { useZamaInstance } from './useZamaInstance';
+
+const SESSION_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type DecryptionSession = {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+  durationDays: number;
+};
+
+// Sessions live in memory only: one per account, chain and contract, shared by every component that decrypts.
+const sessions = new Map<string, DecryptionSession>();
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function expiresAt(session: DecryptionSession) {
+  return (session.startTimestamp + session.durationDays * 24 * 60 * 60) * 1000;
+}
+
+export function useDecryptionSession(
+  network: PrismLockNetwork,
+  instance: ReturnType<typeof useZamaInstance>['instance']
+) {
+  const { address } = useAccount();
+  const signerPromise = useEthersSigner();
+  const key = `${network.chain.id}:${network.address}:${address ?? ''}`.toLowerCase();
+
+  const session = useSyncExternalStore(subscribe, () => sessions.get(key));
+  const [now, setNow] = useState(() => Date.now());
+  const sessionExpiresAt = session ? expiresAt(session) : undefined;
+  const isActive = sessionExpiresAt !== undefined && sessionExpiresAt > now;
+
+  // Re-render when the signature runs out so the UI stops claiming an active session.
+  useEffect(() => {
+    if (sessionExpiresAt === undefined || sessionExpiresAt <= now) return;
+    const timeout = setTimeout(() => setNow(Date.now()), Math.min(sessionExpiresAt - Date.now(), DAY_MS));
+    return () => clearTimeout(timeout);
+  }, [sessionExpiresAt, now]);
+
+  const openSession = useCallback(async () => {
+    if (!instance || !signerPromise) throw new Error('Wallet or encryption service unavailable.');
+    const signer = await signerPromise;
+    if (!signer) throw new Error('Wallet not ready.');
+
+    const keypair = instance.generateKeypair();
+    const startTimestamp = Math.floor(Date.now() / 1000);
+    const eip712 = instance.createEIP712(keypair.publicKey, [network.address], startTimestamp, SESSION_DAYS);
+    const signature = await signer.signTypedData(
+      eip712.domain,
+      {
+        UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
+      },
+      eip712.message
+    );
+
+    const opened: DecryptionSession = {
+      publicKey: keypair.publicKey,
+      privateKey: keypair.privateKey,
+      signature: signature.replace('0x', ''),
+      startTimestamp,
+      durationDays: SESSION_DAYS,
+    };
+    sessions.set(key, opened);
+    notify();
+    return opened;
+  }, [instance, signerPromise, network.address, key]);
+
+  /**
+   * Decrypts every handle in a single `userDecrypt` call, signing a new session first when none is active.
+   * Duplicate handles are requested once.
+   */
+  const decrypt = useCallback(
+    async (handles: string[]): Promise<Record<string, bigint>> => {
+      if (!instance || !address) throw new Error('Wallet or encryption service unavailable.');
+
+      let current = sessions.get(key);
+      if (!current || expiresAt(current) <= Date.now()) {
+        current = await openSession();
+      }
+
+      const unique = [...new Set(handles)];
+      const result = await instance.userDecrypt(
+        unique.map((handle) => ({ handle, contractAddress: network.address })),
+        current.privateKey,
+        current.publicKey,
+        current.signature,
+        [network.address],
+        address,
+        current.startTimestamp,
+        current.durationDays
+      );
+
+      return Object.fromEntries(unique.map((handle) => [handle, BigInt(result[handle])]));
+    },
+    [instance, address, key, network.address, openSession]
+  );
+
+  const endSession = useCallback(() => {
+    sessions.delete(key);
+    notify();
+  }, [key]);
+
+  return {
+    decrypt,
+    endSession,
+    isActive,
+    expiresAt: isActive ? sessionExpiresAt : undefined,
+  };
+}
@@ -1,7 +1,33 @@
 import { useState, useEffect } from 'react';
-import { createInstance,initSDK,SepoliaConfig } from '@zama-fhe/relayer-sdk/bundle';
+import { createInstance,initSDK } from '@zama-fhe/relayer-sdk/bundle';
+import type { FhevmNetworkConfig } from '../config/networks';
 
-export function useZamaInstance() {
+// The local hardhat node has no relayer; it answers relayer requests over JSON-RPC through the fhevm mock.
+async function createMockInstance(fhevm: Extract<FhevmNetworkConfig, { kind: 'mock' }>) {
+  const [{ MockFhevmInstance }, { JsonRpcProvider }] = await Promise.all([
+    import('@fhevm/mock-utils'),
+    import('ethers'),
+  ]);
+  const provider = new JsonRpcProvider(fhevm.rpcUrl);
+  const metadata = await provider.send('fhevm_relayer_metadata', []);
+
+  return MockFhevmInstance.create(
+    provider,
+    provider,
+    {
+      aclContractAddress: metadata.ACLAddress,
+      chainId: metadata.chainId,
+      gatewayChainId: metadata.gatewayChainId,
+      inputVerifierContractAddress: metadata.InputVerifierAddress,
+      kmsContractAddress: metadata.KMSVerifierAddress,
+      verifyingContractAddressDecryption: fhevm.verifyingContractAddressDecryption,
+      verifyingContractAddressInputVerification: fhevm.verifyingContractAddressInputVerification,
+    },
+    { inputVerifierProperties: {}, kmsVerifierProperties: {} }
+  );
+}
+
+export function useZamaInstance(fhevm: FhevmNetworkConfig) {
   const [instance, setInstance] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -13,9 +39,13 @@ export function useZamaInstance() {
       try {
         setIsLoading(true);
         setError(null);
-        await initSDK()
-
-        const zamaInstance = await createInstance(SepoliaConfig);
+        let zamaInstance;
+        if (fhevm.kind === 'mock') {
+          zamaInstance = await createMockInstance(fhevm);
+        } else {
+          await initSDK()
+          zamaInstance = await createInstance(fhevm.config);
+        }
 
         if (mounted) {
           setInstance(zamaInstance);
@@ -37,7 +67,7 @@ export function useZamaInstance() {
     return () => {
       mounted = false;
     };
-  }, []);
+  }, [fhevm]);
 
   return { instance, isLoading, error };
 }
\ No newline at end of file
@@ -1,7 +1,13 @@
-import { defineConfig } from 'vite'
+import { defineConfig, searchForWorkspaceRoot } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  server: {
+    fs: {
+      // src/config/networks.ts reads the hardhat-deploy output from the repository root.
+      allow: [searchForWorkspaceRoot(process.cwd()), '../deployments'],
+    },
+  },
 })
@@ -1,6 +1,71 @@
 import { FhevmType } from "@fhevm/hardhat-plugin";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { isAddress, parseEther } from "ethers";
+import fs from "fs";
+import path from "path";
 import { task } from "hardhat/config";
-import type { TaskArguments } from "hardhat/types";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+import {
+  describeAbiDrift,
+  mergeAbis,
+  readDeployedAddresses,
+  readGeneratedAbi,
+  renderContractsModule,
+  renderStatsModule,
+} from "./frontend";
+import { defaultStorePath, loadStore, saveStore, stakeHistory, syncStakeEvents } from "./indexer";
+import { StorageLayout, findStorageLayoutConflicts } from "./storageLayout";
+
+type FundingRow = { user: string; amount: bigint; duration: bigint };
+
+/**
+ * Parses `address,amount,duration` lines, with the amount in ETH and the duration in seconds.
+ * Blank lines, `#` comments and a leading header row are skipped; any other malformed line throws with its line number.
+ */
+function parseFundingCsv(text: string): FundingRow[] {
+  const rows: FundingRow[] = [];
+  let firstLine = true;
+  text.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) return;
+    const [user, amount, duration] = trimmed.split(",").map((field) => field.trim());
+    const isHeader = firstLine && !isAddress(user);
+    firstLine = false;
+    if (isHeader) return;
+    if (!isAddress(user) || !/^\d+(\.\d+)?$/.test(amount ?? "") || !/^\d+$/.test(duration ?? "")) {
+      throw new Error(`Line ${index + 1}: expected address,amount,duration but got "${trimmed}"`);
+    }
+    rows.push({ user, amount: parseEther(amount), duration: BigInt(duration) });
+  });
+  return rows;
+}
+
+/**
+ * Publicly decrypts the pending maturity check of a private-duration stake and, when its hidden unlock time has
+ * passed, submits it so the stake moves into the withdrawal step. Returns whether the stake was matured.
+ */
+async function completeMaturityCheck(
+  hre: HardhatRuntimeEnvironment,
+  address: string,
+  signer: HardhatEthersSigner,
+  stakeId: bigint,
+): Promise<boolean> {
+  const prismLock = await hre.ethers.getContractAt("PrismLock", address);
+  const handle = (await prismLock.getStakeSummary(stakeId)).encryptedMaturityCheck;
+  const publicDecryption = await hre.fhevm.publicDecrypt([handle]);
+  const clearValues = publicDecryption.clearValues as Record<string, boolean>;
+  if (clearValues[handle] !== true) {
+    return false;
+  }
+
+  const tx = await prismLock
+    .connect(signer)
+    .finalizeMaturityCheck(stakeId, publicDecryption.abiEncodedClearValues, publicDecryption.decryptionProof);
+  console.log(`finalizeMaturityCheck transaction: ${tx.hash}`);
+  await tx.wait();
+  return true;
+}
 
 task("task:address", "Prints the PrismLock address").setAction(async function (_args: TaskArguments, hre) {
   const deployment = await hre.deployments.get("PrismLock");
@@ -10,22 +75,235 @@ task("task:address", "Prints the PrismLock address").setAction(async function (_
 task("task:stake", "Stake ETH into PrismLock")
   .addParam("value", "Amount of ETH to stake (example: 0.25)")
   .addParam("duration", "Lock duration in seconds")
+  .addOptionalParam("beneficiary", "Address that receives the withdrawal (defaults to the staker)")
   .addOptionalParam("contract", "Override PrismLock contract address")
   .setAction(async function (args: TaskArguments, hre) {
     const { ethers, deployments } = hre;
     const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
     const stakeValue = ethers.parseEther(String(args.value));
     const lockDuration = BigInt(args.duration);
+    const beneficiary = args.beneficiary ?? ethers.ZeroAddress;
 
     const [signer] = await ethers.getSigners();
     const prismLock = await ethers.getContractAt("PrismLock", deployment.address);
-    const tx = await prismLock.connect(signer).stake(lockDuration, { value: stakeValue });
+    const tx = await prismLock.connect(signer).stake(lockDuration, beneficiary, { value: stakeValue });
     console.log(`Staking ${args.value} ETH for ${lockDuration} seconds... tx: ${tx.hash}`);
     const receipt = await tx.wait();
     console.log(`Confirmed in block ${receipt?.blockNumber}`);
+
+    for (const log of receipt?.logs ?? []) {
+      const parsed = prismLock.interface.parseLog(log);
+      if (parsed?.name === "StakeCreated") {
+        console.log(`Stake id: ${parsed.args.stakeId}`);
+      }
+    }
+  });
+
+task("task:stake-for", "Funds stakes owned by other accounts from a CSV of address, amount (ETH), duration (seconds)")
+  .addParam("file", "Path to the CSV file")
+  .addOptionalParam("chunk", "Stakes funded per transaction", "50")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const rows = parseFundingCsv(fs.readFileSync(String(args.file), "utf8"));
+    const chunkSize = Number(args.chunk);
+    if (rows.length === 0) {
+      throw new Error(`No stakes found in ${args.file}`);
+    }
+    if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+      throw new Error("--chunk must be a positive integer");
+    }
+
+    const [signer] = await ethers.getSigners();
+    const prismLock = await ethers.getContractAt("PrismLock", deployment.address);
+    const total = rows.reduce((sum, row) => sum + row.amount, 0n);
+    console.log(`Funding ${rows.length} stakes for ${ethers.formatEther(total)} ETH in total`);
+
+    for (let start = 0; start < rows.length; start += chunkSize) {
+      const chunk = rows.slice(start, start + chunkSize);
+      const value = chunk.reduce((sum, row) => sum + row.amount, 0n);
+      const tx = await prismLock.connect(signer).stakeForBatch(
+        chunk.map((row) => row.user),
+        chunk.map((row) => row.amount),
+        chunk.map((row) => row.duration),
+        { value },
+      );
+      console.log(`stakeForBatch rows ${start + 1}-${start + chunk.length} tx: ${tx.hash}`);
+      const receipt = await tx.wait();
+
+      for (const log of receipt?.logs ?? []) {
+        const parsed = prismLock.interface.parseLog(log);
+        if (parsed?.name === "StakeFunded") {
+          console.log(`  stake ${parsed.args.stakeId} -> ${parsed.args.user}`);
+        }
+      }
+    }
+  });
+
+task("task:stake-vesting", "Stake ETH that vests linearly after a cliff instead of unlocking all at once")
+  .addParam("value", "Amount of ETH to stake (example: 0.25)")
+  .addParam("duration", "Vesting duration in seconds")
+  .addOptionalParam("cliff", "Cliff in seconds before the first tranche can be claimed", "0")
+  .addOptionalParam("beneficiary", "Address that receives the claims (defaults to the staker)")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const beneficiary = args.beneficiary ?? ethers.ZeroAddress;
+
+    const [signer] = await ethers.getSigners();
+    const prismLock = await ethers.getContractAt("PrismLock", deployment.address);
+    const tx = await prismLock
+      .connect(signer)
+      .stakeVesting(BigInt(args.cliff), BigInt(args.duration), beneficiary, { value: ethers.parseEther(args.value) });
+    console.log(`Staking ${args.value} ETH vesting over ${args.duration} seconds... tx: ${tx.hash}`);
+    const receipt = await tx.wait();
+
+    for (const log of receipt?.logs ?? []) {
+      const parsed = prismLock.interface.parseLog(log);
+      if (parsed?.name === "VestingScheduleCreated") {
+        console.log(`Stake id: ${parsed.args.stakeId}  Cliff: ${parsed.args.cliffDuration} seconds`);
+      }
+    }
+  });
+
+task("task:claim-vested", "Claims the vested part of a vesting stake through public decryption of that tranche")
+  .addParam("id", "Vesting stake id")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const [signer] = await ethers.getSigners();
+    const prismLock = await ethers.getContractAt("PrismLock", deployment.address);
+    const stakeId = BigInt(args.id);
+
+    let summary = await prismLock.getStakeSummary(stakeId);
+    if (summary.encryptedPendingClaim === ethers.ZeroHash) {
+      const requestTx = await prismLock.connect(signer).requestVestedClaim(stakeId);
+      console.log(`requestVestedClaim transaction: ${requestTx.hash}`);
+      await requestTx.wait();
+      summary = await prismLock.getStakeSummary(stakeId);
+    }
+
+    const handle = summary.encryptedPendingClaim;
+    const publicDecryption = await fhevm.publicDecrypt([handle]);
+    const clearValues = publicDecryption.clearValues as Record<string, bigint>;
+    console.log(`Vested tranche: ${ethers.formatEther(clearValues[handle])} ETH`);
+
+    const tx = await prismLock
+      .connect(signer)
+      .finalizeVestedClaim(stakeId, publicDecryption.abiEncodedClearValues, publicDecryption.decryptionProof);
+    console.log(`finalizeVestedClaim transaction: ${tx.hash}`);
+    await tx.wait();
+    console.log(`Claimed so far: ${ethers.formatEther(summary.claimedAmount + clearValues[handle])} ETH`);
+  });
+
+task("task:fund-rewards", "Funds the PrismLock reward pool that pays duration-tiered rewards")
+  .addParam("value", "Amount of ETH to add to the reward pool (example: 1)")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const fundValue = ethers.parseEther(String(args.value));
+
+    const [signer] = await ethers.getSigners();
+    const prismLock = await ethers.getContractAt("PrismLock", deployment.address);
+    const tx = await prismLock.connect(signer).fundRewards({ value: fundValue });
+    console.log(`Funding the reward pool with ${args.value} ETH... tx: ${tx.hash}`);
+    await tx.wait();
+    console.log("Reward pool funded.");
+  });
+
+task("task:deposit", "Deposits ETH into the shielded PrismLock balance")
+  .addParam("value", "Amount of ETH to deposit (example: 1)")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const depositValue = ethers.parseEther(String(args.value));
+
+    const [signer] = await ethers.getSigners();
+    const balances = await ethers.getContractAt("PrismLockBalances", deployment.address);
+    const tx = await balances.connect(signer).deposit({ value: depositValue });
+    console.log(`Depositing ${args.value} ETH... tx: ${tx.hash}`);
+    await tx.wait();
+    console.log("Deposit confirmed.");
+  });
+
+task("task:stake-shielded", "Allocates an encrypted amount of the shielded balance into a new stake")
+  .addParam("value", "Amount of ETH to lock (example: 0.25), encrypted before submission")
+  .addParam("duration", "Lock duration in seconds")
+  .addOptionalParam("beneficiary", "Address that receives the withdrawal (defaults to the staker)")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const stakeValue = ethers.parseEther(String(args.value));
+    const lockDuration = BigInt(args.duration);
+    const beneficiary = args.beneficiary ?? ethers.ZeroAddress;
+
+    const [signer] = await ethers.getSigners();
+    const prismLock = await ethers.getContractAt("PrismLock", deployment.address);
+    const encryptedInput = await fhevm
+      .createEncryptedInput(deployment.address, signer.address)
+      .add128(stakeValue)
+      .encrypt();
+
+    const tx = await prismLock
+      .connect(signer)
+      .stakeShielded(encryptedInput.handles[0], encryptedInput.inputProof, lockDuration, beneficiary);
+    console.log(`Allocating an encrypted stake for ${lockDuration} seconds... tx: ${tx.hash}`);
+    const receipt = await tx.wait();
+
+    for (const log of receipt?.logs ?? []) {
+      const parsed = prismLock.interface.parseLog(log);
+      if (parsed?.name === "StakeCreated") {
+        console.log(`Stake id: ${parsed.args.stakeId}`);
+      }
+    }
+  });
+
+task("task:stake-private", "Allocates a shielded stake whose amount and lock duration are both encrypted")
+  .addParam("value", "Amount of ETH to lock (example: 0.25), encrypted before submission")
+  .addParam("duration", "Lock duration in seconds, encrypted before submission and clamped to the lock bounds")
+  .addOptionalParam("beneficiary", "Address that receives the withdrawal (defaults to the staker)")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const stakeValue = ethers.parseEther(String(args.value));
+    const beneficiary = args.beneficiary ?? ethers.ZeroAddress;
+
+    const [signer] = await ethers.getSigners();
+    const prismLock = await ethers.getContractAt("PrismLock", deployment.address);
+    const encryptedInput = await fhevm
+      .createEncryptedInput(deployment.address, signer.address)
+      .add128(stakeValue)
+      .add64(BigInt(args.duration))
+      .encrypt();
+
+    const tx = await prismLock
+      .connect(signer)
+      .stakePrivate(encryptedInput.handles[0], encryptedInput.handles[1], encryptedInput.inputProof, beneficiary);
+    console.log(`Allocating an encrypted stake for an encrypted duration... tx: ${tx.hash}`);
+    const receipt = await tx.wait();
+
+    for (const log of receipt?.logs ?? []) {
+      const parsed = prismLock.interface.parseLog(log);
+      if (parsed?.name === "StakeCreated") {
+        console.log(`Stake id: ${parsed.args.stakeId}`);
+      }
+    }
   });
 
-task("task:show-stake", "Displays stake information and decrypts it locally")
+task("task:show-balance", "Decrypts the shielded balance locally")
   .addOptionalParam("contract", "Override PrismLock contract address")
   .addOptionalParam("account", "Signer index to inspect", "0")
   .setAction(async function (args: TaskArguments, hre) {
@@ -40,36 +318,227 @@ task("task:show-stake", "Displays stake information and decrypts it locally")
       throw new Error(`No signer found at index ${signerIndex}`);
     }
 
-    const prismLock = await ethers.getContractAt("PrismLock", deployment.address);
-    const summary = await prismLock.getStakeSummary(signer.address);
-    console.log(`Stake exists: ${summary[5]}`);
-    console.log(`Start: ${summary[1]}  Unlock: ${summary[2]}  Duration: ${summary[3]} seconds`);
-    console.log(`Public decryption requested: ${summary[4]}`);
-
-    const handle = summary[0];
+    const balances = await ethers.getContractAt("PrismLockBalances", deployment.address);
+    const handle = await balances.getShieldedBalance(signer.address);
     if (handle === ethers.ZeroHash) {
-      console.log("No encrypted amount stored for this account.");
+      console.log("No shielded balance for this account.");
       return;
     }
 
-    const clearAmount = await fhevm.userDecryptEuint(FhevmType.euint128, handle, deployment.address, signer);
-    console.log(`Decrypted stake amount: ${ethers.formatEther(clearAmount)} ETH`);
+    const clearBalance = await fhevm.userDecryptEuint(FhevmType.euint128, handle, deployment.address, signer);
+    console.log(`Decrypted shielded balance: ${ethers.formatEther(clearBalance)} ETH`);
   });
 
-task("task:request-withdraw", "Requests a withdrawal once the lock period is over")
+task("task:request-balance-withdraw", "Requests an encrypted withdrawal from the shielded balance")
+  .addParam("value", "Amount of ETH to withdraw (example: 0.25), encrypted before submission")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const withdrawValue = ethers.parseEther(String(args.value));
+
+    const [signer] = await ethers.getSigners();
+    const balances = await ethers.getContractAt("PrismLockBalances", deployment.address);
+    const encryptedInput = await fhevm
+      .createEncryptedInput(deployment.address, signer.address)
+      .add128(withdrawValue)
+      .encrypt();
+
+    const tx = await balances
+      .connect(signer)
+      .requestBalanceWithdrawal(encryptedInput.handles[0], encryptedInput.inputProof);
+    console.log(`requestBalanceWithdrawal transaction: ${tx.hash}`);
+    await tx.wait();
+    console.log("Balance withdrawal request submitted.");
+  });
+
+task("task:finalize-balance-withdraw", "Performs public decryption and finalizes the balance withdrawal")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const [signer] = await ethers.getSigners();
+    const balances = await ethers.getContractAt("PrismLockBalances", deployment.address);
+
+    const handle = await balances.getPendingBalanceWithdrawal(signer.address);
+    if (handle === ethers.ZeroHash) {
+      throw new Error("No pending balance withdrawal. Did you run task:request-balance-withdraw?");
+    }
+
+    const publicDecryption = await fhevm.publicDecrypt([handle]);
+    const clearValues = publicDecryption.clearValues as Record<string, bigint>;
+    console.log(`Decrypted amount: ${ethers.formatEther(clearValues[handle])} ETH`);
+
+    const tx = await balances
+      .connect(signer)
+      .finalizeBalanceWithdrawal(publicDecryption.abiEncodedClearValues, publicDecryption.decryptionProof);
+    console.log(`finalizeBalanceWithdrawal transaction: ${tx.hash}`);
+    await tx.wait();
+    console.log("Balance withdrawal finalized.");
+  });
+
+task("task:allow-token", "Adds or removes a confidential token from the PrismLock allow-list (owner only)")
+  .addParam("token", "ERC-7984 token address")
+  .addOptionalParam("allowed", "Whether the token can be staked", "true")
   .addOptionalParam("contract", "Override PrismLock contract address")
   .setAction(async function (args: TaskArguments, hre) {
     const { ethers, deployments } = hre;
     const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const allowed = String(args.allowed) !== "false";
+
+    const [signer] = await ethers.getSigners();
+    const settings = await ethers.getContractAt("PrismLockSettings", deployment.address);
+    const tx = await settings.connect(signer).setTokenAllowed(args.token, allowed);
+    console.log(`setTokenAllowed(${args.token}, ${allowed}) transaction: ${tx.hash}`);
+    await tx.wait();
+    console.log("Token allow-list updated.");
+  });
+
+task("task:stake-token", "Stakes an encrypted amount of an allow-listed confidential token")
+  .addParam("token", "ERC-7984 token address")
+  .addParam("value", "Amount to lock in token base units, encrypted before submission")
+  .addParam("duration", "Lock duration in seconds")
+  .addOptionalParam("beneficiary", "Address that receives the withdrawal (defaults to the staker)")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const stakeValue = BigInt(args.value);
+    const lockDuration = BigInt(args.duration);
+    const beneficiary = args.beneficiary ?? ethers.ZeroAddress;
+
     const [signer] = await ethers.getSigners();
     const prismLock = await ethers.getContractAt("PrismLock", deployment.address);
-    const tx = await prismLock.connect(signer).requestWithdrawal();
-    console.log(`requestWithdrawal transaction: ${tx.hash}`);
+    const token = await ethers.getContractAt("IERC7984", args.token);
+
+    if (!(await token.isOperator(signer.address, deployment.address))) {
+      const latest = await ethers.provider.getBlock("latest");
+      const until = BigInt(latest?.timestamp ?? Math.floor(Date.now() / 1000)) + 3600n;
+      const operatorTx = await token.connect(signer).setOperator(deployment.address, until);
+      console.log(`Setting PrismLock as token operator... tx: ${operatorTx.hash}`);
+      await operatorTx.wait();
+    }
+
+    const encryptedInput = await fhevm
+      .createEncryptedInput(deployment.address, signer.address)
+      .add64(stakeValue)
+      .encrypt();
+
+    const tx = await prismLock
+      .connect(signer)
+      .stakeToken(args.token, encryptedInput.handles[0], encryptedInput.inputProof, lockDuration, beneficiary);
+    console.log(`Staking an encrypted token amount for ${lockDuration} seconds... tx: ${tx.hash}`);
+    const receipt = await tx.wait();
+
+    for (const log of receipt?.logs ?? []) {
+      const parsed = prismLock.interface.parseLog(log);
+      if (parsed?.name === "StakeCreated") {
+        console.log(`Stake id: ${parsed.args.stakeId}`);
+      }
+    }
+  });
+
+task("task:withdraw-token", "Returns a matured token stake through an encrypted transfer")
+  .addParam("id", "Stake id to withdraw")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const [signer] = await ethers.getSigners();
+    const prismLock = await ethers.getContractAt("PrismLock", deployment.address);
+    const tx = await prismLock.connect(signer).withdrawToken(BigInt(args.id));
+    console.log(`withdrawToken transaction: ${tx.hash}`);
     await tx.wait();
-    console.log("Withdrawal request submitted.");
+    console.log(`Tokens of stake #${args.id} returned.`);
   });
 
-task("task:finalize-withdraw", "Performs public decryption and finalizes the withdrawal")
+task("task:increase-stake", "Adds ETH to an open stake")
+  .addParam("id", "Stake id to top up")
+  .addParam("value", "Amount of ETH to add (example: 0.25)")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const topUpValue = ethers.parseEther(String(args.value));
+
+    const [signer] = await ethers.getSigners();
+    const prismLock = await ethers.getContractAt("PrismLock", deployment.address);
+    const tx = await prismLock.connect(signer).increaseStake(BigInt(args.id), { value: topUpValue });
+    console.log(`Adding ${args.value} ETH to stake #${args.id}... tx: ${tx.hash}`);
+    await tx.wait();
+    console.log("Stake topped up.");
+  });
+
+task("task:extend-lock", "Pushes the unlock time of an open stake further out")
+  .addParam("id", "Stake id to extend")
+  .addParam("duration", "New total lock duration in seconds, measured from the stake start")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const [signer] = await ethers.getSigners();
+    const prismLock = await ethers.getContractAt("PrismLock", deployment.address);
+    const tx = await prismLock.connect(signer).extendLock(BigInt(args.id), BigInt(args.duration));
+    console.log(`Extending stake #${args.id} to ${args.duration} seconds... tx: ${tx.hash}`);
+    await tx.wait();
+    console.log("Lock extended.");
+  });
+
+task("task:set-beneficiary", "Changes the address that receives the withdrawal of a stake")
+  .addParam("id", "Stake id to update")
+  .addOptionalParam("beneficiary", "New recipient (omit to pay the staker)")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const beneficiary = args.beneficiary ?? ethers.ZeroAddress;
+    const [signer] = await ethers.getSigners();
+    const settings = await ethers.getContractAt("PrismLockSettings", deployment.address);
+    const tx = await settings.connect(signer).setBeneficiary(BigInt(args.id), beneficiary);
+    console.log(`Setting the beneficiary of stake #${args.id} to ${beneficiary}... tx: ${tx.hash}`);
+    await tx.wait();
+    console.log("Beneficiary updated.");
+  });
+
+task("task:set-heir", "Names the heir who can withdraw a matured stake after a period of inactivity")
+  .addParam("id", "Stake id to update")
+  .addOptionalParam("heir", "Heir address (omit to remove the heir)")
+  .addOptionalParam("inactivity", "Inactivity period in seconds after maturity and the last ping", "0")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const heir = args.heir ?? ethers.ZeroAddress;
+    const inactivity = BigInt(args.inactivity);
+    const [signer] = await ethers.getSigners();
+    const settings = await ethers.getContractAt("PrismLockSettings", deployment.address);
+    const tx = await settings.connect(signer).setHeir(BigInt(args.id), heir, inactivity);
+    console.log(`Setting the heir of stake #${args.id} to ${heir}... tx: ${tx.hash}`);
+    await tx.wait();
+    console.log(heir === ethers.ZeroAddress ? "Heir removed." : `Heir may step in after ${inactivity} seconds.`);
+  });
+
+task("task:ping", "Proves liveness, restarting the inactivity period of every stake with an heir")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const [signer] = await ethers.getSigners();
+    const settings = await ethers.getContractAt("PrismLockSettings", deployment.address);
+    const tx = await settings.connect(signer).ping();
+    console.log(`ping transaction: ${tx.hash}`);
+    await tx.wait();
+    console.log("Liveness recorded.");
+  });
+
+task("task:inherit", "Requests and finalizes, as the heir, the withdrawal of an inactive owner's stake")
+  .addParam("id", "Stake id to inherit")
   .addOptionalParam("contract", "Override PrismLock contract address")
   .setAction(async function (args: TaskArguments, hre) {
     const { ethers, deployments, fhevm } = hre;
@@ -78,22 +547,845 @@ task("task:finalize-withdraw", "Performs public decryption and finalizes the wit
     const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
     const [signer] = await ethers.getSigners();
     const prismLock = await ethers.getContractAt("PrismLock", deployment.address);
+    const stakeId = BigInt(args.id);
 
-    const handle = await prismLock.getEncryptedAmount(signer.address);
-    if (handle === ethers.ZeroHash) {
-      throw new Error("No encrypted stake found. Did you stake and request withdrawal?");
+    const summary = await prismLock.getStakeSummary(stakeId);
+    if (summary.heir !== signer.address) {
+      throw new Error(`Stake #${stakeId} does not name ${signer.address} as its heir.`);
+    }
+    if (!summary.withdrawalRequested) {
+      const tx = await prismLock.connect(signer).requestWithdrawalFor(stakeId);
+      console.log(`requestWithdrawalFor transaction: ${tx.hash}`);
+      await tx.wait();
+      if (
+        summary.encryptedUnlockTimestamp !== ethers.ZeroHash &&
+        !(await completeMaturityCheck(hre, deployment.address, signer, stakeId))
+      ) {
+        console.log(`Stake #${stakeId} is still locked; try again later.`);
+        return;
+      }
     }
 
+    const handle = await prismLock.getEncryptedAmount(stakeId);
     const publicDecryption = await fhevm.publicDecrypt([handle]);
-    const abiEncoded = publicDecryption.abiEncodedClearValues;
-    const proof = publicDecryption.decryptionProof;
-
     const clearValues = publicDecryption.clearValues as Record<string, bigint>;
-    const decryptedAmount = clearValues[handle];
-    console.log(`Decrypted amount: ${ethers.formatEther(decryptedAmount)} ETH`);
+    console.log(`Decrypted amount: ${ethers.formatEther(clearValues[handle])} ETH`);
 
-    const tx = await prismLock.connect(signer).finalizeWithdrawal(abiEncoded, proof);
-    console.log(`finalizeWithdrawal transaction: ${tx.hash}`);
+    const tx = await prismLock
+      .connect(signer)
+      .finalizeWithdrawalFor(stakeId, publicDecryption.abiEncodedClearValues, publicDecryption.decryptionProof);
+    console.log(`finalizeWithdrawalFor transaction: ${tx.hash}`);
     await tx.wait();
-    console.log("Withdrawal finalized.");
+    console.log("Stake inherited.");
+  });
+
+task("task:show-stake", "Displays stake positions and decrypts them locally")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .addOptionalParam("account", "Signer index to inspect", "0")
+  .addOptionalParam("id", "Only show this stake id")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const signerIndex = parseInt(String(args.account));
+    const signers = await ethers.getSigners();
+    const signer = signers[signerIndex];
+    if (!signer) {
+      throw new Error(`No signer found at index ${signerIndex}`);
+    }
+
+    const prismLock = await ethers.getContractAt("PrismLock", deployment.address);
+    const stakeIds = args.id !== undefined ? [BigInt(args.id)] : await prismLock.getStakeIds(signer.address);
+    if (stakeIds.length === 0) {
+      console.log("No open stakes for this account.");
+      return;
+    }
+
+    for (const stakeId of stakeIds) {
+      const summary = await prismLock.getStakeSummary(stakeId);
+      console.log(`--- Stake #${stakeId} ---`);
+      const isToken = summary[7] !== ethers.ZeroAddress;
+      console.log(`Stake exists: ${summary[5]}  Owner: ${summary[6]}`);
+      console.log(`Asset: ${isToken ? `ERC-7984 token ${summary[7]}` : "ETH"}`);
+      console.log(`Beneficiary: ${summary[9] === ethers.ZeroAddress ? "staker" : summary[9]}`);
+      if (summary.encryptedUnlockTimestamp === ethers.ZeroHash) {
+        console.log(`Start: ${summary[1]}  Unlock: ${summary[2]}  Duration: ${summary[3]} seconds`);
+      } else {
+        const [duration, unlock] = await Promise.all(
+          [summary.encryptedLockDuration, summary.encryptedUnlockTimestamp].map((timingHandle) =>
+            fhevm.userDecryptEuint(FhevmType.euint64, timingHandle, deployment.address, signer),
+          ),
+        );
+        console.log(`Start: ${summary[1]}  Unlock: ${unlock}  Duration: ${duration} seconds (private, decrypted)`);
+      }
+      console.log(`Public decryption requested: ${summary[4]}`);
+      if (summary.heir !== ethers.ZeroAddress) {
+        console.log(`Heir: ${summary.heir} after ${summary.inactivityPeriod} seconds of inactivity`);
+      }
+      if (summary.vesting) {
+        console.log(
+          `Vesting: cliff ${summary.cliffDuration} seconds, claimed ${ethers.formatEther(summary.claimedAmount)} ETH, ` +
+            `claimable now: ${summary.claimableNow}`,
+        );
+      }
+      if (!isToken && !summary[4] && !summary.vesting) {
+        const penaltyBps = await prismLock.earlyExitPenaltyBps(stakeId);
+        console.log(`Early exit penalty now: ${Number(penaltyBps) / 100}%`);
+      }
+
+      const handle = summary[0];
+      if (handle === ethers.ZeroHash) {
+        console.log("No encrypted amount stored for this stake.");
+        continue;
+      }
+
+      const clearAmount = await fhevm.userDecryptEuint(FhevmType.euint128, handle, deployment.address, signer);
+      console.log(
+        isToken
+          ? `Decrypted stake amount: ${clearAmount} token units`
+          : `Decrypted stake amount: ${ethers.formatEther(clearAmount)} ETH`,
+      );
+
+      const rewardHandle = summary[8];
+      if (rewardHandle !== ethers.ZeroHash) {
+        const clearReward = await fhevm.userDecryptEuint(FhevmType.euint128, rewardHandle, deployment.address, signer);
+        console.log(`Decrypted reserved reward: ${ethers.formatEther(clearReward)} ETH`);
+      }
+    }
+  });
+
+task("task:transfer-stake", "Transfers the ERC-721 receipt of a stake, and with it the stake, to another address")
+  .addParam("id", "Stake id, which is also the receipt token id")
+  .addParam("to", "Address of the new holder")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const [signer] = await ethers.getSigners();
+    const prismLock = await ethers.getContractAt("PrismLock", deployment.address);
+    const receiptsAddress = await prismLock.receipts();
+    if (receiptsAddress === ethers.ZeroAddress) {
+      throw new Error("Receipts are not enabled on this PrismLock deployment.");
+    }
+    const receipts = await ethers.getContractAt("PrismLockReceipts", receiptsAddress);
+    const stakeId = BigInt(args.id);
+
+    const tx = await receipts.connect(signer).transferFrom(signer.address, args.to, stakeId);
+    console.log(`transferFrom transaction: ${tx.hash}`);
+    await tx.wait();
+    console.log(`Stake #${stakeId} now belongs to ${args.to}; its amount was re-encrypted for the new holder.`);
+
+    const uri = await receipts.tokenURI(stakeId);
+    console.log(`Receipt metadata: ${Buffer.from(uri.split(",")[1], "base64").toString()}`);
+  });
+
+task("task:request-withdraw", "Requests a withdrawal once the lock period is over")
+  .addParam("id", "Stake id to unlock")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const [signer] = await ethers.getSigners();
+    const prismLock = await ethers.getContractAt("PrismLock", deployment.address);
+    const stakeId = BigInt(args.id);
+    const tx = await prismLock.connect(signer).requestWithdrawal(stakeId);
+    console.log(`requestWithdrawal transaction: ${tx.hash}`);
+    await tx.wait();
+
+    // A private-duration stake only gets a maturity check, decrypted publicly before the withdrawal can proceed
+    if ((await prismLock.getStakeSummary(stakeId)).encryptedMaturityCheck !== ethers.ZeroHash) {
+      await fhevm.initializeCLIApi();
+      if (!(await completeMaturityCheck(hre, deployment.address, signer, stakeId))) {
+        console.log(`Stake #${stakeId} is still locked; its hidden unlock time has not passed yet.`);
+        return;
+      }
+    }
+    console.log(`Withdrawal request submitted for stake #${stakeId}.`);
+  });
+
+task("task:early-withdraw", "Exits a stake before maturity, paying an encrypted penalty into the penalty pool")
+  .addParam("id", "Stake id to exit")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const [signer] = await ethers.getSigners();
+    const prismLock = await ethers.getContractAt("PrismLock", deployment.address);
+    const stakeId = BigInt(args.id);
+
+    const penaltyBps = await prismLock.earlyExitPenaltyBps(stakeId);
+    console.log(`Current early exit penalty: ${Number(penaltyBps) / 100}%`);
+
+    const tx = await prismLock.connect(signer).earlyWithdraw(stakeId);
+    console.log(`earlyWithdraw transaction: ${tx.hash}`);
+    await tx.wait();
+    console.log(`Early exit requested for stake #${stakeId}. Run task:finalize-withdraw --id ${stakeId} to collect.`);
+  });
+
+task("task:cancel-withdraw", "Cancels a pending withdrawal request and makes the stake private again")
+  .addParam("id", "Stake id whose withdrawal request is cancelled")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const [signer] = await ethers.getSigners();
+    const prismLock = await ethers.getContractAt("PrismLock", deployment.address);
+    const stakeId = BigInt(args.id);
+
+    const tx = await prismLock.connect(signer).cancelWithdrawal(stakeId);
+    console.log(`cancelWithdrawal transaction: ${tx.hash}`);
+    await tx.wait();
+    console.log(
+      `Withdrawal request of stake #${stakeId} cancelled; new handle ${await prismLock.getEncryptedAmount(stakeId)}`,
+    );
+  });
+
+task("task:rollover", "Re-locks a matured stake for a new duration without withdrawing it")
+  .addParam("id", "Stake id to roll over")
+  .addParam("duration", "New lock duration in seconds, starting now")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const [signer] = await ethers.getSigners();
+    const prismLock = await ethers.getContractAt("PrismLock", deployment.address);
+    const stakeId = BigInt(args.id);
+
+    const tx = await prismLock.connect(signer).rolloverStake(stakeId, BigInt(args.duration));
+    console.log(`rolloverStake transaction: ${tx.hash}`);
+    await tx.wait();
+    const summary = await prismLock.getStakeSummary(stakeId);
+    console.log(
+      `Stake #${stakeId} rolled over; unlocks at ${summary.unlockTimestamp}, new handle ${summary.encryptedAmount}`,
+    );
+  });
+
+task("task:finalize-withdraw", "Performs public decryption and finalizes the withdrawal")
+  .addParam("id", "Stake id to withdraw")
+  .addOptionalParam("to", "Send the ETH to this address instead of the beneficiary or staker")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const [signer] = await ethers.getSigners();
+    const prismLock = await ethers.getContractAt("PrismLock", deployment.address);
+    const stakeId = BigInt(args.id);
+
+    const handle = await prismLock.getEncryptedAmount(stakeId);
+    if (handle === ethers.ZeroHash) {
+      throw new Error(`No encrypted stake found for id ${stakeId}. Did you stake and request withdrawal?`);
+    }
+
+    const publicDecryption = await fhevm.publicDecrypt([handle]);
+    const abiEncoded = publicDecryption.abiEncodedClearValues;
+    const proof = publicDecryption.decryptionProof;
+
+    const clearValues = publicDecryption.clearValues as Record<string, bigint>;
+    const decryptedAmount = clearValues[handle];
+    console.log(`Decrypted amount: ${ethers.formatEther(decryptedAmount)} ETH`);
+
+    const tx = args.to
+      ? await prismLock.connect(signer).finalizeWithdrawalTo(stakeId, args.to, abiEncoded, proof)
+      : await prismLock.connect(signer).finalizeWithdrawal(stakeId, abiEncoded, proof);
+    console.log(`finalizeWithdrawal transaction: ${tx.hash}`);
+    await tx.wait();
+    console.log("Withdrawal finalized.");
+  });
+
+task("task:claim", "Claims ETH credited after a payout the recipient rejected")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const [signer] = await ethers.getSigners();
+    const balances = await ethers.getContractAt("PrismLockBalances", deployment.address);
+
+    const claimable = await balances.claimableOf(signer.address);
+    console.log(`Claimable: ${ethers.formatEther(claimable)} ETH`);
+    if (claimable === 0n) {
+      return;
+    }
+
+    const tx = await balances.connect(signer).claim();
+    console.log(`claim transaction: ${tx.hash}`);
+    await tx.wait();
+    console.log("Claimed.");
+  });
+
+task("task:keeper-opt-in", "Allows or forbids keepers to complete withdrawals of your matured ETH stakes")
+  .addOptionalParam("enabled", "true to opt in, false to opt out", "true")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const enabled = String(args.enabled).toLowerCase() !== "false";
+    const [signer] = await ethers.getSigners();
+    const settings = await ethers.getContractAt("PrismLockSettings", deployment.address);
+    const tx = await settings.connect(signer).setKeeperOptIn(enabled);
+    console.log(`setKeeperOptIn(${enabled}) transaction: ${tx.hash}`);
+    await tx.wait();
+    console.log(enabled ? "Keepers may now withdraw your matured stakes." : "Keeper withdrawals disabled.");
+  });
+
+task("task:grant-viewer", "Lets an auditor decrypt the amounts of your stakes")
+  .addParam("viewer", "Address granted read access")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const [signer] = await ethers.getSigners();
+    const settings = await ethers.getContractAt("PrismLockSettings", deployment.address);
+    const tx = await settings.connect(signer).grantViewer(args.viewer);
+    console.log(`grantViewer(${args.viewer}) transaction: ${tx.hash}`);
+    await tx.wait();
+    console.log("Viewer granted.");
+  });
+
+task("task:revoke-viewer", "Removes an auditor and re-encrypts your open stakes under new handles")
+  .addParam("viewer", "Address losing read access")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const [signer] = await ethers.getSigners();
+    const settings = await ethers.getContractAt("PrismLockSettings", deployment.address);
+    const tx = await settings.connect(signer).revokeViewer(args.viewer);
+    console.log(`revokeViewer(${args.viewer}) transaction: ${tx.hash}`);
+    await tx.wait();
+    console.log("Viewer revoked; open stakes now use fresh handles.");
+  });
+
+task("task:viewers", "Lists the accounts that can decrypt the stake amounts of an account")
+  .addOptionalParam("account", "Account address, or a signer index", "0")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const account = ethers.isAddress(args.account)
+      ? String(args.account)
+      : (await ethers.getSigners())[parseInt(String(args.account))].address;
+    const settings = await ethers.getContractAt("PrismLockSettings", deployment.address);
+    const viewers = await settings.getViewers(account);
+    if (viewers.length === 0) {
+      console.log(`No viewers granted by ${account}.`);
+      return;
+    }
+    viewers.forEach((viewer) => console.log(viewer));
+  });
+
+task("task:auditor-decrypt", "Decrypts another account's stake amounts with a granted viewer's key")
+  .addParam("owner", "Staker whose positions are audited")
+  .addOptionalParam("account", "Signer index of the auditor", "0")
+  .addOptionalParam("id", "Only decrypt this stake id")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const signerIndex = parseInt(String(args.account));
+    const auditor = (await ethers.getSigners())[signerIndex];
+    if (!auditor) {
+      throw new Error(`No signer found at index ${signerIndex}`);
+    }
+
+    const prismLock = await ethers.getContractAt("PrismLock", deployment.address);
+    const settings = await ethers.getContractAt("PrismLockSettings", deployment.address);
+    if (!(await settings.isViewer(args.owner, auditor.address))) {
+      throw new Error(`${auditor.address} is not a viewer of ${args.owner}. Ask the staker to run task:grant-viewer.`);
+    }
+
+    const stakeIds = args.id !== undefined ? [BigInt(args.id)] : await prismLock.getStakeIds(args.owner);
+    if (stakeIds.length === 0) {
+      console.log(`No open stakes for ${args.owner}.`);
+      return;
+    }
+
+    for (const stakeId of stakeIds) {
+      const summary = await prismLock.getStakeSummary(stakeId);
+      if (summary[6] !== ethers.getAddress(args.owner)) {
+        console.log(`Stake #${stakeId} is not held by ${args.owner}; skipped.`);
+        continue;
+      }
+      const clearAmount = await fhevm.userDecryptEuint(FhevmType.euint128, summary[0], deployment.address, auditor);
+      const isToken = summary[7] !== ethers.ZeroAddress;
+      console.log(
+        isToken
+          ? `Stake #${stakeId}: ${clearAmount} units of ${summary[7]}, unlocks at ${summary[2]}`
+          : `Stake #${stakeId}: ${ethers.formatEther(clearAmount)} ETH, unlocks at ${summary[2]}`,
+      );
+    }
+  });
+
+task("task:attest", "Proves that an amount of ETH stays locked until a date, without revealing stake amounts")
+  .addParam("threshold", "Minimum locked amount in ETH")
+  .addOptionalParam("until", "Unix timestamp the amount must stay locked until")
+  .addOptionalParam("days", "Alternatively, number of days from now the amount must stay locked", "30")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const [signer] = await ethers.getSigners();
+    // Attestation calls go to the PrismLock address and are delegated to the attestation module
+    const attestations = await ethers.getContractAt("PrismLockAttestations", deployment.address);
+
+    const threshold = ethers.parseEther(args.threshold);
+    const latest = await ethers.provider.getBlock("latest");
+    const expiry = args.until ? BigInt(args.until) : BigInt(latest!.timestamp) + BigInt(args.days) * 86_400n;
+
+    const requestTx = await attestations.connect(signer).requestAttestation(threshold, expiry);
+    console.log(`requestAttestation transaction: ${requestTx.hash}`);
+    const receipt = await requestTx.wait();
+    const requested = receipt!.logs
+      .map((log) => attestations.interface.parseLog(log))
+      .find((event) => event?.name === "AttestationRequested");
+    if (!requested) {
+      throw new Error("AttestationRequested event not found in the transaction receipt.");
+    }
+    const attestationId: bigint = requested.args.attestationId;
+    const handle: string = requested.args.encryptedResult;
+
+    const publicDecryption = await fhevm.publicDecrypt([handle]);
+    const finalizeTx = await attestations
+      .connect(signer)
+      .finalizeAttestation(attestationId, publicDecryption.abiEncodedClearValues, publicDecryption.decryptionProof);
+    console.log(`finalizeAttestation transaction: ${finalizeTx.hash}`);
+    await finalizeTx.wait();
+
+    const clearValues = publicDecryption.clearValues as Record<string, boolean>;
+    const result = clearValues[handle] === true;
+    console.log(
+      `Attestation #${attestationId}: ${signer.address} ${result ? "holds" : "does not hold"} at least ` +
+        `${args.threshold} ETH locked until ${new Date(Number(expiry) * 1000).toISOString()}`,
+    );
+  });
+
+task("task:verify-attestation", "Prints an attestation and whether it is currently valid")
+  .addParam("id", "Attestation id")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const attestations = await ethers.getContractAt("PrismLockAttestations", deployment.address);
+    const attestationId = BigInt(args.id);
+
+    const attestation = await attestations.getAttestation(attestationId);
+    if (attestation.user === ethers.ZeroAddress) {
+      throw new Error(`No attestation found for id ${attestationId}.`);
+    }
+
+    console.log(`Attestation #${attestationId}`);
+    console.log(`  user      : ${attestation.user}`);
+    console.log(`  threshold : ${ethers.formatEther(attestation.threshold)} ETH`);
+    console.log(`  expiry    : ${new Date(Number(attestation.expiry) * 1000).toISOString()}`);
+    console.log(`  result    : ${attestation.finalized ? attestation.result : "pending public decryption"}`);
+    console.log(`  valid now : ${await attestations.isAttestationValid(attestationId)}`);
+  });
+
+task("task:tvl", "Prints the last revealed total value locked, and reveals a new one with --reveal")
+  .addFlag("reveal", "Request a public reveal of the current total and finalize it (owner or revealer only)")
+  .addOptionalParam("revealer", "Set the account allowed to request reveals besides the owner (owner only)")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const [signer] = await ethers.getSigners();
+    const prismLock = await ethers.getContractAt("PrismLock", deployment.address);
+    const statsAddress = await prismLock.stats();
+    if (statsAddress === ethers.ZeroAddress) {
+      throw new Error("Stats are not enabled on this PrismLock deployment.");
+    }
+    const stats = await ethers.getContractAt("PrismLockStats", statsAddress);
+
+    if (args.revealer) {
+      const tx = await stats.connect(signer).setRevealer(args.revealer);
+      console.log(`setRevealer transaction: ${tx.hash}`);
+      await tx.wait();
+    }
+
+    if (args.reveal) {
+      const requestTx = await stats.connect(signer).requestReveal();
+      console.log(`requestReveal transaction: ${requestTx.hash}`);
+      await requestTx.wait();
+
+      const handle = await stats.getPendingReveal();
+      const publicDecryption = await fhevm.publicDecrypt([handle]);
+      const finalizeTx = await stats
+        .connect(signer)
+        .finalizeReveal(publicDecryption.abiEncodedClearValues, publicDecryption.decryptionProof);
+      console.log(`finalizeReveal transaction: ${finalizeTx.hash}`);
+      await finalizeTx.wait();
+    }
+
+    const revealedAt = await stats.revealedAt();
+    console.log(
+      revealedAt === 0n
+        ? "Total value locked: never revealed"
+        : `Total value locked: ${ethers.formatEther(await stats.revealedTotalValueLocked())} ETH as of ` +
+            new Date(Number(revealedAt) * 1000).toISOString(),
+    );
+    console.log(`Revealer: ${await stats.revealer()}`);
+
+    // The live aggregates stay encrypted; only the PrismLock owner can decrypt them
+    if ((await prismLock.owner()) !== signer.address) {
+      return;
+    }
+    const totalHandle = await stats.getTotalValueLocked();
+    if (totalHandle !== ethers.ZeroHash) {
+      const total = await fhevm.userDecryptEuint(FhevmType.euint128, totalHandle, statsAddress, signer);
+      console.log(`Current total value locked (private): ${ethers.formatEther(total)} ETH`);
+    }
+    const buckets = ["< 30 days", "30-90 days", "90-180 days", "180-365 days", ">= 365 days"];
+    for (const [bucket, label] of buckets.entries()) {
+      const handle = await stats.getStakeCount(bucket);
+      const count =
+        handle === ethers.ZeroHash ? 0n : await fhevm.userDecryptEuint(FhevmType.euint64, handle, statsAddress, signer);
+      console.log(`  ${label.padEnd(12)} : ${count} open stake(s)`);
+    }
+  });
+
+task("task:keeper", "Scans for matured opted-in stakes and drives them through request and finalization")
+  .addOptionalParam("account", "Signer index paying for keeper transactions", "0")
+  .addOptionalParam("fromBlock", "First block to scan for StakeCreated events", "0")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const signers = await ethers.getSigners();
+    const keeper = signers[parseInt(String(args.account))];
+    const prismLock = await ethers.getContractAt("PrismLock", deployment.address);
+    const settings = await ethers.getContractAt("PrismLockSettings", deployment.address);
+
+    const latest = await ethers.provider.getBlock("latest");
+    const now = BigInt(latest?.timestamp ?? 0);
+    const events = await prismLock.queryFilter(prismLock.filters.StakeCreated(), parseInt(String(args.fromBlock)));
+    const stakeIds = [...new Set(events.map((event) => event.args.stakeId))];
+    console.log(`Scanning ${stakeIds.length} stake(s) as keeper ${keeper.address}`);
+
+    let completed = 0;
+    let failed = 0;
+    for (const stakeId of stakeIds) {
+      const summary = await prismLock.getStakeSummary(stakeId);
+      if (!summary[5] || summary[7] !== ethers.ZeroAddress || summary.vesting || summary[2] > now) {
+        continue;
+      }
+      if (!(await settings.isKeeperOptedIn(summary[6]))) {
+        continue;
+      }
+
+      // One failing stake (front-run, reverted, decryption error) must not stop the rest of the run
+      try {
+        if (!summary[4]) {
+          const requestTx = await prismLock.connect(keeper).requestWithdrawalFor(stakeId);
+          await requestTx.wait();
+          // Private-duration stakes only unlock publicly once their maturity check comes back true
+          if (
+            summary.encryptedUnlockTimestamp !== ethers.ZeroHash &&
+            !(await completeMaturityCheck(hre, deployment.address, keeper, stakeId))
+          ) {
+            console.log(`Stake #${stakeId}: hidden unlock time not reached yet`);
+            continue;
+          }
+          console.log(`Stake #${stakeId}: withdrawal requested (tx ${requestTx.hash})`);
+        }
+
+        const handle = await prismLock.getEncryptedAmount(stakeId);
+        const publicDecryption = await fhevm.publicDecrypt([handle]);
+        const finalizeTx = await prismLock
+          .connect(keeper)
+          .finalizeWithdrawalFor(stakeId, publicDecryption.abiEncodedClearValues, publicDecryption.decryptionProof);
+        await finalizeTx.wait();
+
+        const clearValues = publicDecryption.clearValues as Record<string, bigint>;
+        const recipient = summary[9] === ethers.ZeroAddress ? summary[6] : summary[9];
+        console.log(
+          `Stake #${stakeId}: paid ${ethers.formatEther(clearValues[handle])} ETH to ${recipient} (tx ${finalizeTx.hash})`,
+        );
+        completed++;
+      } catch (error) {
+        console.log(`Stake #${stakeId}: failed, skipping (${error instanceof Error ? error.message : String(error)})`);
+        failed++;
+      }
+    }
+
+    console.log(`Keeper run complete: ${completed} withdrawal(s) finalized, ${failed} failed.`);
+  });
+
+task("task:admin-config", "Prints the PrismLock configuration")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const prismLock = await ethers.getContractAt("PrismLock", deployment.address);
+
+    console.log(`Owner: ${await prismLock.owner()}`);
+    console.log(`Lock duration: ${await prismLock.minLockDuration()} - ${await prismLock.maxLockDuration()} seconds`);
+    console.log(
+      `Stake size: ${ethers.formatEther(await prismLock.minStakeAmount())} - ${ethers.formatEther(await prismLock.maxStakeAmount())} ETH`,
+    );
+    console.log(`Staking paused: ${await prismLock.stakingPaused()}`);
+    console.log(`Emergency mode: ${await prismLock.emergencyMode()}`);
+  });
+
+task("task:admin-set-durations", "Sets the lock duration range for new stakes (owner only)")
+  .addParam("min", "Shortest lock in seconds")
+  .addParam("max", "Longest lock in seconds")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const [signer] = await ethers.getSigners();
+    const settings = await ethers.getContractAt("PrismLockSettings", deployment.address);
+    const tx = await settings.connect(signer).setLockDurationBounds(BigInt(args.min), BigInt(args.max));
+    console.log(`setLockDurationBounds(${args.min}, ${args.max}) transaction: ${tx.hash}`);
+    await tx.wait();
+    console.log("Lock duration bounds updated.");
+  });
+
+task("task:admin-set-stake-limits", "Sets the ETH size range for new stakes (owner only)")
+  .addParam("min", "Smallest stake in ETH (example: 0.01)")
+  .addParam("max", "Largest stake in ETH (example: 100)")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const [signer] = await ethers.getSigners();
+    const settings = await ethers.getContractAt("PrismLockSettings", deployment.address);
+    const min = ethers.parseEther(String(args.min));
+    const max = ethers.parseEther(String(args.max));
+    const tx = await settings.connect(signer).setStakeAmountBounds(min, max);
+    console.log(`setStakeAmountBounds(${args.min} ETH, ${args.max} ETH) transaction: ${tx.hash}`);
+    await tx.wait();
+    console.log("Stake size bounds updated.");
+  });
+
+task("task:admin-pause", "Pauses or resumes new stakes (owner only)")
+  .addOptionalParam("paused", "true to pause, false to resume", "true")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const paused = String(args.paused).toLowerCase() !== "false";
+    const [signer] = await ethers.getSigners();
+    const settings = await ethers.getContractAt("PrismLockSettings", deployment.address);
+    const tx = await settings.connect(signer).setStakingPaused(paused);
+    console.log(`setStakingPaused(${paused}) transaction: ${tx.hash}`);
+    await tx.wait();
+    console.log(paused ? "New stakes paused." : "New stakes resumed.");
+  });
+
+task("task:admin-emergency", "Turns the emergency withdrawal mode on or off (owner only)")
+  .addOptionalParam("enabled", "true to enable, false to disable", "true")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const enabled = String(args.enabled).toLowerCase() !== "false";
+    const [signer] = await ethers.getSigners();
+    const settings = await ethers.getContractAt("PrismLockSettings", deployment.address);
+    const tx = await settings.connect(signer).setEmergencyMode(enabled);
+    console.log(`setEmergencyMode(${enabled}) transaction: ${tx.hash}`);
+    await tx.wait();
+    console.log(enabled ? "Emergency mode enabled." : "Emergency mode disabled.");
+  });
+
+task("task:emergency-withdraw", "Requests the principal of an ETH stake back while emergency mode is active")
+  .addParam("id", "Stake id to exit")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const [signer] = await ethers.getSigners();
+    const prismLock = await ethers.getContractAt("PrismLock", deployment.address);
+    const stakeId = BigInt(args.id);
+    const tx = await prismLock.connect(signer).emergencyWithdraw(stakeId);
+    console.log(`emergencyWithdraw transaction: ${tx.hash}`);
+    await tx.wait();
+    console.log(
+      `Emergency exit requested for stake #${stakeId}. Run task:finalize-withdraw --id ${stakeId} to collect.`,
+    );
+  });
+
+task("task:upgrade", "Checks the storage layout and upgrades the PrismLock proxy to a new implementation")
+  .addOptionalParam("implementation", "Contract to deploy as the new implementation", "PrismLock")
+  .addFlag("force", "Skip the storage layout check")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { deployments, getNamedAccounts, artifacts } = hre;
+    const { deployer } = await getNamedAccounts();
+    const current = await deployments.get("PrismLock_Implementation");
+
+    const readLayout = async (name: string) => {
+      const artifact = await artifacts.readArtifact(name);
+      const buildInfo = await artifacts.getBuildInfo(`${artifact.sourceName}:${artifact.contractName}`);
+      const output = buildInfo?.output.contracts[artifact.sourceName][artifact.contractName] as
+        | { storageLayout?: StorageLayout }
+        | undefined;
+      return output?.storageLayout;
+    };
+
+    if (!args.force) {
+      let previousLayout = current.storageLayout as StorageLayout | undefined;
+      if (!previousLayout) {
+        // In-memory deployments do not keep the layout; recover it from the artifact the implementation was built from
+        for (const name of await artifacts.getAllFullyQualifiedNames()) {
+          if ((await artifacts.readArtifact(name)).deployedBytecode === current.deployedBytecode) {
+            previousLayout = await readLayout(name);
+            break;
+          }
+        }
+      }
+      const nextLayout = await readLayout(args.implementation);
+      if (!previousLayout || !nextLayout) {
+        throw new Error("Storage layout unavailable; recompile, or pass --force to upgrade without the check.");
+      }
+
+      const conflicts = findStorageLayoutConflicts(previousLayout, nextLayout);
+      if (conflicts.length > 0) {
+        throw new Error(`Unsafe storage layout change:\n  ${conflicts.join("\n  ")}`);
+      }
+      console.log("Storage layout check passed.");
+    }
+
+    // Modules are deployed on the first upgrade that needs them, and redeployed only when their bytecode changed
+    const moduleAddresses: string[] = [];
+    for (const name of ["PrismLockAttestations", "PrismLockBalances", "PrismLockSettings"]) {
+      moduleAddresses.push((await deployments.deploy(name, { from: deployer, log: true })).address);
+    }
+    const upgraded = await deployments.deploy("PrismLock", {
+      from: deployer,
+      contract: args.implementation,
+      args: moduleAddresses,
+      log: true,
+      proxy: {
+        proxyContract: "OpenZeppelinTransparentProxy",
+      },
+    });
+
+    const implementation = await deployments.get("PrismLock_Implementation");
+    if (implementation.address === current.address) {
+      console.log(`Implementation unchanged at ${current.address}`);
+    } else {
+      console.log(`PrismLock ${upgraded.address} now points to ${implementation.address} (was ${current.address})`);
+    }
+  });
+
+task("task:history", "Indexes PrismLock stake events and prints the lifecycle of every stake of an account")
+  .addOptionalParam("account", "Account address, or a signer index", "0")
+  .addOptionalParam("fromBlock", "First block to index (defaults to the deployment block)")
+  .addOptionalParam("window", "Trailing blocks re-scanned on every run to recover from reorgs", "12")
+  .addOptionalParam("store", "JSON store path (defaults to cache/indexer/<chainId>-<address>.json)")
+  .addOptionalParam("contract", "Override PrismLock contract address")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments, config } = hre;
+    const deployment = args.contract ? { address: args.contract } : await deployments.get("PrismLock");
+    const prismLock = await ethers.getContractAt("PrismLock", deployment.address);
+    const account = ethers.isAddress(args.account)
+      ? String(args.account)
+      : (await ethers.getSigners())[parseInt(String(args.account))].address;
+
+    const { chainId } = await ethers.provider.getNetwork();
+    const deployedAt = "receipt" in deployment ? deployment.receipt?.blockNumber : undefined;
+    const startBlock = args.fromBlock !== undefined ? parseInt(String(args.fromBlock)) : (deployedAt ?? 0);
+    const storePath = args.store ?? defaultStorePath(config.paths.cache, Number(chainId), deployment.address);
+
+    const store = loadStore(storePath, Number(chainId), deployment.address, startBlock);
+    const scanned = await syncStakeEvents(prismLock, ethers.provider, store, {
+      safetyWindow: parseInt(String(args.window)),
+    });
+    saveStore(storePath, store);
+    console.log(
+      `Indexed up to block ${store.lastIndexedBlock} (${scanned} event(s) in the scanned range) into ${storePath}`,
+    );
+
+    const lifecycles = stakeHistory(store, account);
+    if (lifecycles.length === 0) {
+      console.log(`No stakes found for ${account}.`);
+      return;
+    }
+
+    for (const lifecycle of lifecycles) {
+      console.log(`--- Stake #${lifecycle.stakeId} (${lifecycle.closed ? "closed" : "open"}) ---`);
+      for (const event of lifecycle.events) {
+        const when = new Date(event.timestamp * 1000).toISOString();
+        const details = Object.entries(event.args)
+          // The `user` of a transfer is the previous owner, which the new owner's history needs to show
+          .filter(([name]) => (name !== "user" || event.name === "StakeTransferred") && name !== "stakeId")
+          .map(([name, value]) => `${name}=${value}`)
+          .join(" ");
+        console.log(`${when}  block ${event.blockNumber}  ${event.name}  ${details}`);
+        console.log(`  tx: ${event.transactionHash}`);
+      }
+    }
+  });
+
+task("task:export-frontend", "Writes the PrismLock and PrismLockStats ABIs and per-network addresses to the frontend")
+  .addOptionalParam("out", "Generated module path", "src/src/config/contracts.ts")
+  .addOptionalParam("statsOut", "Generated stats module path", "src/src/config/prismLockStats.ts")
+  .addFlag("check", "Fail instead of writing when a committed module is out of date")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { artifacts, config } = hre;
+    const out = path.resolve(config.paths.root, String(args.out));
+    const current = fs.existsSync(out) ? fs.readFileSync(out, "utf8") : "";
+    const statsOut = path.resolve(config.paths.root, String(args.statsOut));
+    const currentStats = fs.existsSync(statsOut) ? fs.readFileSync(statsOut, "utf8") : "";
+
+    const abi = mergeAbis(
+      ...(await Promise.all(
+        ["PrismLock", "PrismLockAttestations", "PrismLockBalances", "PrismLockSettings"].map(
+          async (name) => (await artifacts.readArtifact(name)).abi,
+        ),
+      )),
+    );
+    const addresses = readDeployedAddresses(config.paths.deployments, "PrismLock");
+    const generated = renderContractsModule(addresses, abi);
+    const { abi: statsAbi } = await artifacts.readArtifact("PrismLockStats");
+    const generatedStats = renderStatsModule(statsAbi);
+
+    if (!args.check) {
+      fs.writeFileSync(out, generated);
+      for (const [chainId, { network, address }] of Object.entries(addresses)) {
+        console.log(`${network} (${chainId}): ${address}`);
+      }
+      console.log(`Wrote ${abi.length} ABI entries to ${out}`);
+      fs.writeFileSync(statsOut, generatedStats);
+      console.log(`Wrote ${statsAbi.length} ABI entries to ${statsOut}`);
+      return;
+    }
+
+    if (generatedStats !== currentStats) {
+      throw new Error(
+        `Frontend ABI in ${statsOut} differs from the compiled PrismLockStats artifact.\n` +
+          describeAbiDrift(statsAbi, readGeneratedAbi(currentStats, "PRISM_LOCK_STATS_ABI") ?? []) +
+          "Run `npx hardhat task:export-frontend` to regenerate it.",
+      );
+    }
+    if (generated === current) {
+      console.log(`${out} and ${statsOut} are up to date.`);
+      return;
+    }
+    const committedAbi = readGeneratedAbi(current);
+    if (JSON.stringify(committedAbi) !== JSON.stringify(abi)) {
+      throw new Error(
+        `Frontend ABI in ${out} differs from the compiled PrismLock and module artifacts.\n` +
+          describeAbiDrift(abi, committedAbi ?? []) +
+          "Run `npx hardhat task:export-frontend` to regenerate it.",
+      );
+    }
+    // deployments/ is not committed, so without a deployed network the addresses cannot be checked here
+    if (Object.keys(addresses).length === 0) {
+      console.log(`${out} and ${statsOut} are up to date; no deployments/ to check the addresses against.`);
+      return;
+    }
+    throw new Error(
+      `${out} is out of date with deployments/. Run \`npx hardhat task:export-frontend\` to regenerate it.`,
+    );
   });
@@ -0,0 +1,101 @@
+import fs from "fs";
+import path from "path";
+
+export type FrontendAddresses = Record<number, { network: string; address: string }>;
+
+export type AbiEntry = { type: string; name?: string; inputs?: readonly { type: string }[] };
+
+const header = (source: string) =>
+  `// Generated by \`npx hardhat task:export-frontend\` from ${source}.\n` +
+  "// Do not edit by hand; run the task again after compiling or deploying.\n";
+
+// Local nodes restart from scratch; the frontend reads their deployment folder directly instead.
+const LOCAL_NETWORKS = new Set(["hardhat", "localhost"]);
+
+/**
+ * Reads the `address` of `contractName` from every `deployments/<network>` folder that has a `.chainId` file,
+ * skipping local networks.
+ */
+export function readDeployedAddresses(deploymentsDir: string, contractName: string): FrontendAddresses {
+  const addresses: FrontendAddresses = {};
+  if (!fs.existsSync(deploymentsDir)) return addresses;
+
+  for (const network of fs.readdirSync(deploymentsDir).sort()) {
+    if (LOCAL_NETWORKS.has(network)) continue;
+    const chainIdFile = path.join(deploymentsDir, network, ".chainId");
+    const deploymentFile = path.join(deploymentsDir, network, `${contractName}.json`);
+    if (!fs.existsSync(chainIdFile) || !fs.existsSync(deploymentFile)) continue;
+
+    const chainId = Number(fs.readFileSync(chainIdFile, "utf8").trim());
+    const { address } = JSON.parse(fs.readFileSync(deploymentFile, "utf8")) as { address: string };
+    addresses[chainId] = { network, address };
+  }
+  return addresses;
+}
+
+/** Extracts the ABI array literal named `name` from a generated or hand-written config module. */
+export function readGeneratedAbi(source: string, name = "CONTRACT_ABI"): AbiEntry[] | undefined {
+  const declaration = `export const ${name} = `;
+  const start = source.indexOf(declaration);
+  const end = source.indexOf("] as const;", start);
+  if (start === -1 || end === -1) return undefined;
+  return JSON.parse(source.slice(start + declaration.length, end + 1)) as AbiEntry[];
+}
+
+/** Lists the entries, by type and name, that only the compiled or only the committed ABI has. */
+export function describeAbiDrift(compiled: readonly AbiEntry[], committed: readonly AbiEntry[]): string {
+  const names = (entries: readonly AbiEntry[]) =>
+    new Set(entries.map((entry) => `${entry.type} ${entry.name ?? ""}`.trim()));
+  const compiledNames = names(compiled);
+  const committedNames = names(committed);
+  const missing = [...compiledNames].filter((entry) => !committedNames.has(entry));
+  const stale = [...committedNames].filter((entry) => !compiledNames.has(entry));
+  return (
+    (missing.length > 0 ? `  missing: ${missing.join(", ")}\n` : "") +
+    (stale.length > 0 ? `  not in the contract: ${stale.join(", ")}\n` : "")
+  );
+}
+
+/**
+ * Concatenates the vault ABI with the ABIs of the modules its fallback delegates to, so the frontend sees one
+ * contract. Entries declared by several of them, such as those of the shared storage base, are kept once.
+ */
+export function mergeAbis(...abis: readonly (readonly AbiEntry[])[]): AbiEntry[] {
+  const seen = new Set<string>();
+  return abis.flat().filter((entry) => {
+    const key = `${entry.type} ${entry.name ?? ""}(${(entry.inputs ?? []).map((input) => input.type).join(",")})`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/** Renders the frontend `contracts.ts`: an address per chain ID and the ABI `as const` so viem can infer types. */
+export function renderContractsModule(addresses: FrontendAddresses, abi: readonly unknown[]): string {
+  const addressLines = Object.entries(addresses)
+    .sort(([a], [b]) => Number(a) - Number(b))
+    .map(([chainId, { network, address }]) => `  ${chainId}: '${address}', // ${network}\n`)
+    .join("");
+
+  return (
+    header("the compiled PrismLock and module artifacts and deployments/") +
+    "\n" +
+    "export const CONTRACT_ADDRESSES: Partial<Record<number, `0x${string}`>> = {\n" +
+    addressLines +
+    "};\n" +
+    "\n" +
+    `export const CONTRACT_ABI = ${JSON.stringify(abi, null, 2)} as const;\n`
+  );
+}
+
+/**
+ * Renders the frontend `prismLockStats.ts`: the stats ABI `as const`. It has no address table, since the frontend
+ * reads the stats address from the vault.
+ */
+export function renderStatsModule(abi: readonly unknown[]): string {
+  return (
+    header("the compiled PrismLockStats artifact") +
+    "\n" +
+    `export const PRISM_LOCK_STATS_ABI = ${JSON.stringify(abi, null, 2)} as const;\n`
+  );
+}
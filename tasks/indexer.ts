@@ -0,0 +1,173 @@
+import fs from "fs";
+import path from "path";
+import type { Provider } from "ethers";
+
+import type { PrismLock } from "../types";
+
+/**
+ * Lifecycle events indexed per stake; every one of them carries `user` and `stakeId` as indexed arguments. For
+ * `StakeTransferred`, `user` is the previous owner and `to` the new one.
+ */
+export const STAKE_EVENTS = [
+  "StakeCreated",
+  "StakeIncreased",
+  "LockExtended",
+  "BeneficiaryUpdated",
+  "MaturityCheckRequested",
+  "WithdrawalRequested",
+  "EarlyWithdrawalRequested",
+  "EmergencyWithdrawalRequested",
+  "WithdrawalCancelled",
+  "StakeRolledOver",
+  "VestedClaimRequested",
+  "VestedClaimFinalized",
+  "WithdrawalFinalized",
+  "TokenWithdrawn",
+  "StakeTransferred",
+] as const;
+
+export type StakeEventName = (typeof STAKE_EVENTS)[number];
+
+export type IndexedEvent = {
+  name: StakeEventName;
+  user: string;
+  stakeId: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  timestamp: number;
+  args: Record<string, string>;
+};
+
+export type IndexerStore = {
+  chainId: number;
+  contract: string;
+  startBlock: number;
+  lastIndexedBlock: number;
+  events: IndexedEvent[];
+};
+
+export type StakeLifecycle = {
+  stakeId: string;
+  owner: string;
+  events: IndexedEvent[];
+  closed: boolean;
+};
+
+export type SyncOptions = {
+  /** Number of trailing blocks re-scanned on every sync so reorged logs are replaced. */
+  safetyWindow?: number;
+  /** Maximum block range per `eth_getLogs` request. */
+  batchSize?: number;
+};
+
+/** Returns the default JSON store location for a contract, under Hardhat's cache directory. */
+export function defaultStorePath(cacheDir: string, chainId: number, contract: string): string {
+  return path.join(cacheDir, "indexer", `${chainId}-${contract.toLowerCase()}.json`);
+}
+
+/** Loads a JSON store, or starts an empty one when the file is missing or belongs to another deployment. */
+export function loadStore(file: string, chainId: number, contract: string, startBlock: number): IndexerStore {
+  if (fs.existsSync(file)) {
+    const store = JSON.parse(fs.readFileSync(file, "utf8")) as IndexerStore;
+    if (store.chainId === chainId && store.contract.toLowerCase() === contract.toLowerCase()) {
+      return store;
+    }
+  }
+  return { chainId, contract, startBlock, lastIndexedBlock: startBlock - 1, events: [] };
+}
+
+export function saveStore(file: string, store: IndexerStore): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(store, null, 2));
+}
+
+/**
+ * Replays PrismLock stake events into `store` up to the latest block.
+ * The last `safetyWindow` indexed blocks are dropped and scanned again, so logs from a reorged branch are replaced
+ * by the canonical ones.
+ * @returns The number of events read from the scanned range, including the re-scanned window.
+ */
+export async function syncStakeEvents(
+  prismLock: PrismLock,
+  provider: Provider,
+  store: IndexerStore,
+  { safetyWindow = 12, batchSize = 2_000 }: SyncOptions = {},
+): Promise<number> {
+  const head = await provider.getBlockNumber();
+  const fromBlock = Math.max(store.startBlock, store.lastIndexedBlock - safetyWindow + 1);
+  store.events = store.events.filter((event) => event.blockNumber < fromBlock);
+
+  const topics = STAKE_EVENTS.map((name) => prismLock.interface.getEvent(name).topicHash);
+  const timestamps = new Map<number, number>();
+  const address = await prismLock.getAddress();
+  let scanned = 0;
+
+  for (let start = fromBlock; start <= head; start += batchSize) {
+    const end = Math.min(start + batchSize - 1, head);
+    const logs = await provider.getLogs({ address, fromBlock: start, toBlock: end, topics: [topics] });
+
+    for (const log of logs) {
+      const parsed = prismLock.interface.parseLog(log);
+      if (!parsed) continue;
+
+      if (!timestamps.has(log.blockNumber)) {
+        const block = await provider.getBlock(log.blockNumber);
+        timestamps.set(log.blockNumber, block?.timestamp ?? 0);
+      }
+
+      const args: Record<string, string> = {};
+      parsed.fragment.inputs.forEach((input, index) => {
+        args[input.name] = String(parsed.args[index]);
+      });
+
+      store.events.push({
+        name: parsed.name as StakeEventName,
+        user: String(parsed.args.user),
+        stakeId: String(parsed.args.stakeId),
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        transactionHash: log.transactionHash,
+        logIndex: log.index,
+        timestamp: timestamps.get(log.blockNumber) ?? 0,
+        args,
+      });
+      scanned++;
+    }
+  }
+
+  store.lastIndexedBlock = head;
+  return scanned;
+}
+
+/**
+ * Groups the indexed events of every stake `account` opened or received, oldest stake first. Handing a stake over
+ * closes it in the previous owner's history, and the new owner's history starts with the transfer.
+ */
+export function stakeHistory(store: IndexerStore, account: string): StakeLifecycle[] {
+  const owner = account.toLowerCase();
+  const lifecycles = new Map<string, StakeLifecycle>();
+
+  const ordered = [...store.events].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  for (const event of ordered) {
+    const received = event.name === "StakeTransferred" && event.args.to.toLowerCase() === owner;
+    if (event.user.toLowerCase() !== owner && !received) continue;
+
+    let lifecycle = lifecycles.get(event.stakeId);
+    if (!lifecycle) {
+      lifecycle = { stakeId: event.stakeId, owner: received ? event.args.to : event.user, events: [], closed: false };
+      lifecycles.set(event.stakeId, lifecycle);
+    }
+    lifecycle.events.push(event);
+    lifecycle.closed = received
+      ? false
+      : lifecycle.closed ||
+        event.name === "StakeTransferred" ||
+        event.name === "WithdrawalFinalized" ||
+        event.name === "TokenWithdrawn" ||
+        (event.name === "VestedClaimFinalized" && event.args.completed === "true");
+  }
+
+  return [...lifecycles.values()].sort((a, b) => Number(BigInt(a.stakeId) - BigInt(b.stakeId)));
+}
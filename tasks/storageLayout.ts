@@ -0,0 +1,39 @@
+export type StorageEntry = { label: string; slot: string; offset: number; type: string };
+export type StorageLayout = {
+  storage: StorageEntry[];
+  types: Record<string, { label: string; members?: StorageEntry[] }> | null;
+};
+
+/**
+ * Lists the storage changes between two solc layouts that would corrupt a proxy on upgrade.
+ * Variables and struct members may be appended, but existing ones must keep their slot, offset, name and type.
+ * Structs are matched by name alone, so moving their declaration to another contract is not a conflict.
+ */
+export function findStorageLayoutConflicts(previous: StorageLayout, next: StorageLayout): string[] {
+  const typeLabel = (layout: StorageLayout, type: string) =>
+    (layout.types?.[type]?.label ?? type).replace(/struct \w+\./g, "struct ");
+  const conflicts: string[] = [];
+
+  const compare = (scope: string, before: StorageEntry[], after: StorageEntry[]) => {
+    for (const entry of before) {
+      const match = after.find((candidate) => candidate.slot === entry.slot && candidate.offset === entry.offset);
+      const expectedType = typeLabel(previous, entry.type);
+      if (!match) {
+        conflicts.push(`${scope}${entry.label} (slot ${entry.slot}) was removed`);
+      } else if (match.label !== entry.label || typeLabel(next, match.type) !== expectedType) {
+        conflicts.push(
+          `${scope}${entry.label}: ${expectedType} at slot ${entry.slot} is now ${match.label}: ${typeLabel(next, match.type)}`,
+        );
+      }
+    }
+  };
+
+  compare("", previous.storage, next.storage);
+  for (const [id, type] of Object.entries(previous.types ?? {})) {
+    if (!type.members) continue;
+    const label = typeLabel(previous, id);
+    const updated = Object.keys(next.types ?? {}).find((candidate) => typeLabel(next, candidate) === label);
+    compare(`${label}.`, type.members, updated ? (next.types?.[updated]?.members ?? []) : []);
+  }
+  return conflicts;
+}
@@ -1,9 +1,33 @@
 import { expect } from "chai";
-import { ethers, fhevm } from "hardhat";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { artifacts, deployments, ethers, fhevm, run } from "hardhat";
 import { FhevmType } from "@fhevm/hardhat-plugin";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { time } from "@nomicfoundation/hardhat-network-helpers";
-import { PrismLock, PrismLock__factory } from "../types";
+import ERC1967Proxy from "hardhat-deploy/extendedArtifacts/ERC1967Proxy.json";
+import { IndexerStore, stakeHistory, syncStakeEvents } from "../tasks/indexer";
+import { StorageLayout, findStorageLayoutConflicts } from "../tasks/storageLayout";
+import {
+  ConfidentialTokenMock,
+  ConfidentialTokenMock__factory,
+  GasBurningReceiverMock,
+  GasBurningReceiverMock__factory,
+  PrismLock,
+  PrismLock__factory,
+  PrismLockAttestations,
+  PrismLockAttestations__factory,
+  PrismLockBalances,
+  PrismLockBalances__factory,
+  PrismLockReceipts,
+  PrismLockReceipts__factory,
+  PrismLockSettings,
+  PrismLockSettings__factory,
+  PrismLockStats,
+  PrismLockStats__factory,
+  PrismLockUpgradeMock,
+  RejectingReceiverMock,
+  RejectingReceiverMock__factory,
+} from "../types";
 
 type Signers = {
   deployer: HardhatEthersSigner;
@@ -12,10 +36,54 @@ type Signers = {
 };
 
 async function deployFixture() {
+  const [deployer] = await ethers.getSigners();
+  const attestationsFactory = (await ethers.getContractFactory(
+    "PrismLockAttestations",
+  )) as PrismLockAttestations__factory;
+  const balancesFactory = (await ethers.getContractFactory("PrismLockBalances")) as PrismLockBalances__factory;
+  const settingsFactory = (await ethers.getContractFactory("PrismLockSettings")) as PrismLockSettings__factory;
+  const attestationModule = await attestationsFactory.deploy();
+  const balancesModule = await balancesFactory.deploy();
+  const settingsModule = await settingsFactory.deploy();
   const factory = (await ethers.getContractFactory("PrismLock")) as PrismLock__factory;
-  const prismLock = (await factory.deploy()) as PrismLock;
-  const address = await prismLock.getAddress();
-  return { prismLock, address };
+  const implementation = await factory.deploy(
+    await attestationModule.getAddress(),
+    await balancesModule.getAddress(),
+    await settingsModule.getAddress(),
+  );
+  const proxyFactory = new ethers.ContractFactory(ERC1967Proxy.abi, ERC1967Proxy.bytecode, deployer);
+  const initData = implementation.interface.encodeFunctionData("initialize", [deployer.address]);
+  const proxy = await proxyFactory.deploy(await implementation.getAddress(), initData);
+  const address = await proxy.getAddress();
+  const prismLock = factory.attach(address) as PrismLock;
+  // The module functions are reached through the proxy, so each module ABI is attached at the proxy address
+  const attestations = attestationsFactory.attach(address) as PrismLockAttestations;
+  const balances = balancesFactory.attach(address) as PrismLockBalances;
+  const settings = settingsFactory.attach(address) as PrismLockSettings;
+  return { prismLock, attestations, balances, settings, address };
+}
+
+async function deployReceiptsFixture(settings: PrismLockSettings) {
+  const [deployer] = await ethers.getSigners();
+  const factory = (await ethers.getContractFactory("PrismLockReceipts")) as PrismLockReceipts__factory;
+  const receipts = (await factory.deploy(await settings.getAddress())) as PrismLockReceipts;
+  await settings.connect(deployer).setReceipts(await receipts.getAddress());
+  return { receipts };
+}
+
+async function deployStatsFixture(settings: PrismLockSettings) {
+  const [deployer] = await ethers.getSigners();
+  const factory = (await ethers.getContractFactory("PrismLockStats")) as PrismLockStats__factory;
+  const stats = (await factory.deploy(await settings.getAddress())) as PrismLockStats;
+  await settings.connect(deployer).setStats(await stats.getAddress());
+  return { stats, statsAddress: await stats.getAddress() };
+}
+
+async function deployTokenFixture() {
+  const factory = (await ethers.getContractFactory("ConfidentialTokenMock")) as ConfidentialTokenMock__factory;
+  const token = (await factory.deploy("Confidential USD", "cUSD")) as ConfidentialTokenMock;
+  const tokenAddress = await token.getAddress();
+  return { token, tokenAddress };
 }
 
 describe("PrismLock", function () {
@@ -37,51 +105,2110 @@ describe("PrismLock", function () {
     const stakeValue = ethers.parseEther("1.5");
     const duration = 3n * 24n * 60n * 60n;
 
-    await prismLock.connect(signers.alice).stake(duration, { value: stakeValue });
-    const summary = await prismLock.getStakeSummary(signers.alice.address);
+    await prismLock.connect(signers.alice).stake(duration, ethers.ZeroAddress, { value: stakeValue });
+    const [stakeId] = await prismLock.getStakeIds(signers.alice.address);
+    const summary = await prismLock.getStakeSummary(stakeId);
 
     expect(summary[5]).to.equal(true); // exists
     expect(summary[3]).to.equal(duration);
+    expect(summary[6]).to.equal(signers.alice.address); // owner
 
     const handle = summary[0];
     const clearAmount = await fhevm.userDecryptEuint(FhevmType.euint128, handle, address, signers.alice);
     expect(clearAmount).to.equal(stakeValue);
   });
 
-  it("prevents overlapping stakes and rejects early withdrawals", async function () {
-    const { prismLock } = await deployFixture();
-    const stakeValue = ethers.parseEther("0.5");
+  it("tracks concurrent stakes per address and rejects early withdrawals", async function () {
+    const { prismLock, address } = await deployFixture();
     const duration = 5 * 24 * 60 * 60;
 
-    await prismLock.connect(signers.alice).stake(duration, { value: stakeValue });
-    await expect(prismLock.connect(signers.alice).stake(duration, { value: stakeValue })).to.be.revertedWithCustomError(
+    await prismLock.connect(signers.alice).stake(duration, ethers.ZeroAddress, { value: ethers.parseEther("0.5") });
+    await prismLock
+      .connect(signers.alice)
+      .stake(duration * 2, ethers.ZeroAddress, { value: ethers.parseEther("0.75") });
+    await prismLock.connect(signers.bob).stake(duration, ethers.ZeroAddress, { value: ethers.parseEther("1") });
+
+    const aliceIds = await prismLock.getStakeIds(signers.alice.address);
+    expect(aliceIds).to.deep.equal([1n, 2n]);
+    expect(await prismLock.getStakeIds(signers.bob.address)).to.deep.equal([3n]);
+
+    const secondHandle = await prismLock.getEncryptedAmount(aliceIds[1]);
+    const secondAmount = await fhevm.userDecryptEuint(FhevmType.euint128, secondHandle, address, signers.alice);
+    expect(secondAmount).to.equal(ethers.parseEther("0.75"));
+
+    await expect(prismLock.connect(signers.alice).requestWithdrawal(aliceIds[0])).to.be.revertedWithCustomError(
+      prismLock,
+      "LockPeriodActive",
+    );
+    await expect(prismLock.connect(signers.bob).requestWithdrawal(aliceIds[0])).to.be.revertedWithCustomError(
+      prismLock,
+      "NotStakeOwner",
+    );
+    await expect(prismLock.connect(signers.alice).requestWithdrawal(99)).to.be.revertedWithCustomError(
       prismLock,
-      "StakeAlreadyActive",
+      "NoActiveStake",
     );
+  });
+
+  it("tops up a stake homomorphically and extends its lock", async function () {
+    const { prismLock, address } = await deployFixture();
+    const duration = 10 * 24 * 60 * 60;
+
+    await prismLock.connect(signers.alice).stake(duration, ethers.ZeroAddress, { value: ethers.parseEther("1") });
+    const [stakeId] = await prismLock.getStakeIds(signers.alice.address);
+
+    await prismLock.connect(signers.alice).increaseStake(stakeId, { value: ethers.parseEther("0.25") });
+    const handle = await prismLock.getEncryptedAmount(stakeId);
+    const clearAmount = await fhevm.userDecryptEuint(FhevmType.euint128, handle, address, signers.alice);
+    expect(clearAmount).to.equal(ethers.parseEther("1.25"));
 
-    await expect(prismLock.connect(signers.alice).requestWithdrawal()).to.be.revertedWithCustomError(
+    await expect(prismLock.connect(signers.alice).extendLock(stakeId, duration)).to.be.revertedWithCustomError(
+      prismLock,
+      "InvalidLockDuration",
+    );
+    await expect(prismLock.connect(signers.bob).extendLock(stakeId, duration * 2)).to.be.revertedWithCustomError(
+      prismLock,
+      "NotStakeOwner",
+    );
+    await prismLock.connect(signers.alice).extendLock(stakeId, duration * 2);
+
+    const summary = await prismLock.getStakeSummary(stakeId);
+    expect(summary[3]).to.equal(duration * 2);
+    expect(summary[2]).to.equal(summary[1] + BigInt(duration * 2));
+
+    await time.increase(duration + 1);
+    await expect(prismLock.connect(signers.alice).requestWithdrawal(stakeId)).to.be.revertedWithCustomError(
       prismLock,
       "LockPeriodActive",
     );
   });
 
+  it("allocates shielded stakes from the pooled balance without revealing amounts", async function () {
+    const { prismLock, balances, address } = await deployFixture();
+    const duration = 30 * 24 * 60 * 60;
+
+    await balances.connect(signers.alice).deposit({ value: ethers.parseEther("3") });
+
+    const input = await fhevm
+      .createEncryptedInput(address, signers.alice.address)
+      .add128(ethers.parseEther("1.2"))
+      .encrypt();
+    const tx = await prismLock
+      .connect(signers.alice)
+      .stakeShielded(input.handles[0], input.inputProof, duration, ethers.ZeroAddress);
+    const receipt = await tx.wait();
+
+    const created = receipt!.logs
+      .map((log) => prismLock.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "StakeCreated");
+    expect(created!.args.toObject()).to.not.have.property("amount");
+
+    const [stakeId] = await prismLock.getStakeIds(signers.alice.address);
+    const stakeHandle = await prismLock.getEncryptedAmount(stakeId);
+    const staked = await fhevm.userDecryptEuint(FhevmType.euint128, stakeHandle, address, signers.alice);
+    expect(staked).to.equal(ethers.parseEther("1.2"));
+
+    const balanceHandle = await balances.getShieldedBalance(signers.alice.address);
+    const balance = await fhevm.userDecryptEuint(FhevmType.euint128, balanceHandle, address, signers.alice);
+    expect(balance).to.equal(ethers.parseEther("1.8"));
+  });
+
+  it("allocates nothing when the shielded balance does not cover the request", async function () {
+    const { prismLock, balances, address } = await deployFixture();
+    const duration = 30 * 24 * 60 * 60;
+
+    await balances.connect(signers.bob).deposit({ value: ethers.parseEther("0.5") });
+
+    const input = await fhevm
+      .createEncryptedInput(address, signers.bob.address)
+      .add128(ethers.parseEther("2"))
+      .encrypt();
+    await prismLock
+      .connect(signers.bob)
+      .stakeShielded(input.handles[0], input.inputProof, duration, ethers.ZeroAddress);
+
+    const [stakeId] = await prismLock.getStakeIds(signers.bob.address);
+    const stakeHandle = await prismLock.getEncryptedAmount(stakeId);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint128, stakeHandle, address, signers.bob)).to.equal(0n);
+
+    const balanceHandle = await balances.getShieldedBalance(signers.bob.address);
+    const balance = await fhevm.userDecryptEuint(FhevmType.euint128, balanceHandle, address, signers.bob);
+    expect(balance).to.equal(ethers.parseEther("0.5"));
+  });
+
+  it("withdraws unallocated shielded balance through a public decryption proof", async function () {
+    const { prismLock, balances, address } = await deployFixture();
+    const withdrawValue = ethers.parseEther("0.4");
+
+    await balances.connect(signers.alice).deposit({ value: ethers.parseEther("1") });
+
+    const input = await fhevm.createEncryptedInput(address, signers.alice.address).add128(withdrawValue).encrypt();
+    await balances.connect(signers.alice).requestBalanceWithdrawal(input.handles[0], input.inputProof);
+    await expect(
+      balances.connect(signers.alice).requestBalanceWithdrawal(input.handles[0], input.inputProof),
+    ).to.be.revertedWithCustomError(balances, "BalanceWithdrawalPending");
+
+    const handle = await balances.getPendingBalanceWithdrawal(signers.alice.address);
+    await fhevm.initializeCLIApi();
+    const publicDecryption = await fhevm.publicDecrypt([handle]);
+
+    await expect(
+      balances
+        .connect(signers.alice)
+        .finalizeBalanceWithdrawal(publicDecryption.abiEncodedClearValues, publicDecryption.decryptionProof),
+    ).to.changeEtherBalances([signers.alice, prismLock], [withdrawValue, -withdrawValue]);
+    expect(await balances.getPendingBalanceWithdrawal(signers.alice.address)).to.equal(ethers.ZeroHash);
+
+    const balanceHandle = await balances.getShieldedBalance(signers.alice.address);
+    const balance = await fhevm.userDecryptEuint(FhevmType.euint128, balanceHandle, address, signers.alice);
+    expect(balance).to.equal(ethers.parseEther("0.6"));
+  });
+
+  it("stakes allow-listed confidential tokens and returns them through an encrypted transfer", async function () {
+    const { prismLock, settings, address } = await deployFixture();
+    const { token, tokenAddress } = await deployTokenFixture();
+    const duration = 7 * 24 * 60 * 60;
+
+    await token.mint(signers.alice.address, 1_000_000n);
+    const operatorUntil = (await time.latest()) + 3600;
+    await token.connect(signers.alice).setOperator(address, operatorUntil);
+
+    const input = await fhevm.createEncryptedInput(address, signers.alice.address).add64(400_000n).encrypt();
+    await expect(
+      prismLock
+        .connect(signers.alice)
+        .stakeToken(tokenAddress, input.handles[0], input.inputProof, duration, ethers.ZeroAddress),
+    ).to.be.revertedWithCustomError(prismLock, "TokenNotAllowed");
+    await expect(settings.connect(signers.alice).setTokenAllowed(tokenAddress, true)).to.be.revertedWithCustomError(
+      settings,
+      "OwnableUnauthorizedAccount",
+    );
+
+    await settings.connect(signers.deployer).setTokenAllowed(tokenAddress, true);
+    await prismLock
+      .connect(signers.alice)
+      .stakeToken(tokenAddress, input.handles[0], input.inputProof, duration, ethers.ZeroAddress);
+
+    const [stakeId] = await prismLock.getStakeIds(signers.alice.address);
+    const summary = await prismLock.getStakeSummary(stakeId);
+    expect(summary[7]).to.equal(tokenAddress);
+
+    const staked = await fhevm.userDecryptEuint(FhevmType.euint128, summary[0], address, signers.alice);
+    expect(staked).to.equal(400_000n);
+
+    const balanceHandle = await token.confidentialBalanceOf(signers.alice.address);
+    const balance = await fhevm.userDecryptEuint(FhevmType.euint64, balanceHandle, tokenAddress, signers.alice);
+    expect(balance).to.equal(600_000n);
+
+    await expect(prismLock.connect(signers.alice).requestWithdrawal(stakeId)).to.be.revertedWithCustomError(
+      prismLock,
+      "UnsupportedAsset",
+    );
+    await expect(prismLock.connect(signers.alice).withdrawToken(stakeId)).to.be.revertedWithCustomError(
+      prismLock,
+      "LockPeriodActive",
+    );
+
+    await time.increase(duration + 1);
+    await prismLock.connect(signers.alice).withdrawToken(stakeId);
+
+    const finalHandle = await token.confidentialBalanceOf(signers.alice.address);
+    const finalBalance = await fhevm.userDecryptEuint(FhevmType.euint64, finalHandle, tokenAddress, signers.alice);
+    expect(finalBalance).to.equal(1_000_000n);
+    expect(await prismLock.hasStake(signers.alice.address)).to.equal(false);
+  });
+
+  describe("rewards", function () {
+    const day = 24n * 60n * 60n;
+
+    it("maps lock durations to reward tiers", async function () {
+      const { prismLock } = await deployFixture();
+      expect(await prismLock.rewardTierBps(day)).to.equal(0n);
+      expect(await prismLock.rewardTierBps(30n * day)).to.equal(50n);
+      expect(await prismLock.rewardTierBps(90n * day)).to.equal(200n);
+      expect(await prismLock.rewardTierBps(180n * day)).to.equal(500n);
+      expect(await prismLock.rewardTierBps(365n * day)).to.equal(1_200n);
+    });
+
+    it("reserves an encrypted tier reward and pays it with the principal", async function () {
+      const { prismLock, address } = await deployFixture();
+      const stakeValue = ethers.parseEther("10");
+      const reward = ethers.parseEther("0.2");
+
+      await prismLock.connect(signers.deployer).fundRewards({ value: ethers.parseEther("1") });
+      await prismLock.connect(signers.alice).stake(90n * day, ethers.ZeroAddress, { value: stakeValue });
+      const [stakeId] = await prismLock.getStakeIds(signers.alice.address);
+
+      const summary = await prismLock.getStakeSummary(stakeId);
+      const clearReward = await fhevm.userDecryptEuint(FhevmType.euint128, summary[8], address, signers.alice);
+      expect(clearReward).to.equal(reward);
+
+      const poolHandle = await prismLock.getRewardPool();
+      const pool = await fhevm.userDecryptEuint(FhevmType.euint128, poolHandle, address, signers.deployer);
+      expect(pool).to.equal(ethers.parseEther("1") - reward);
+
+      await time.increase(90n * day);
+      await prismLock.connect(signers.alice).requestWithdrawal(stakeId);
+      expect((await prismLock.getStakeSummary(stakeId))[8]).to.equal(ethers.ZeroHash);
+
+      const handle = await prismLock.getEncryptedAmount(stakeId);
+      await fhevm.initializeCLIApi();
+      const publicDecryption = await fhevm.publicDecrypt([handle]);
+      await expect(
+        prismLock
+          .connect(signers.alice)
+          .finalizeWithdrawal(stakeId, publicDecryption.abiEncodedClearValues, publicDecryption.decryptionProof),
+      ).to.changeEtherBalances([signers.alice, prismLock], [stakeValue + reward, -(stakeValue + reward)]);
+    });
+
+    it("caps rewards at the pool and returns them when a stake exits early", async function () {
+      const { prismLock, address } = await deployFixture();
+      const funded = ethers.parseEther("0.05");
+
+      await prismLock.connect(signers.deployer).fundRewards({ value: funded });
+      await prismLock.connect(signers.alice).stake(365n * day, ethers.ZeroAddress, { value: ethers.parseEther("10") });
+      const [stakeId] = await prismLock.getStakeIds(signers.alice.address);
+
+      const rewardHandle = (await prismLock.getStakeSummary(stakeId))[8];
+      expect(await fhevm.userDecryptEuint(FhevmType.euint128, rewardHandle, address, signers.alice)).to.equal(funded);
+
+      await prismLock.connect(signers.alice).earlyWithdraw(stakeId);
+      const poolHandle = await prismLock.getRewardPool();
+      expect(await fhevm.userDecryptEuint(FhevmType.euint128, poolHandle, address, signers.deployer)).to.equal(funded);
+    });
+
+    it("re-reserves the reward when a stake is topped up or moves to a longer tier", async function () {
+      const { prismLock, address } = await deployFixture();
+
+      await prismLock.connect(signers.bob).fundRewards({ value: ethers.parseEther("5") });
+      await prismLock.connect(signers.alice).stake(30n * day, ethers.ZeroAddress, { value: ethers.parseEther("4") });
+      const [stakeId] = await prismLock.getStakeIds(signers.alice.address);
+
+      await prismLock.connect(signers.alice).increaseStake(stakeId, { value: ethers.parseEther("6") });
+      let rewardHandle = (await prismLock.getStakeSummary(stakeId))[8];
+      expect(await fhevm.userDecryptEuint(FhevmType.euint128, rewardHandle, address, signers.alice)).to.equal(
+        ethers.parseEther("0.05"),
+      );
+
+      await prismLock.connect(signers.alice).extendLock(stakeId, 180n * day);
+      rewardHandle = (await prismLock.getStakeSummary(stakeId))[8];
+      expect(await fhevm.userDecryptEuint(FhevmType.euint128, rewardHandle, address, signers.alice)).to.equal(
+        ethers.parseEther("0.5"),
+      );
+
+      const poolHandle = await prismLock.getRewardPool();
+      expect(await fhevm.userDecryptEuint(FhevmType.euint128, poolHandle, address, signers.deployer)).to.equal(
+        ethers.parseEther("4.5"),
+      );
+    });
+  });
+
+  describe("early exit", function () {
+    const duration = 100n * 24n * 60n * 60n;
+    const stakeValue = ethers.parseEther("10");
+
+    for (const elapsedQuarters of [0n, 1n, 2n, 3n]) {
+      it(`charges a penalty proportional to the remaining lock after ${elapsedQuarters}/4 of it`, async function () {
+        const { prismLock, address } = await deployFixture();
+        await prismLock.connect(signers.alice).stake(duration, ethers.ZeroAddress, { value: stakeValue });
+        const [stakeId] = await prismLock.getStakeIds(signers.alice.address);
+        const start = (await prismLock.getStakeSummary(stakeId))[1];
+
+        const exitAt = start + (duration * elapsedQuarters) / 4n + 1n;
+        await time.setNextBlockTimestamp(exitAt);
+        await prismLock.connect(signers.alice).earlyWithdraw(stakeId);
+
+        const remaining = start + duration - exitAt;
+        const penalty = (stakeValue * remaining * 2_000n) / (duration * 10_000n);
+
+        const payoutHandle = await prismLock.getEncryptedAmount(stakeId);
+        const payout = await fhevm.userDecryptEuint(FhevmType.euint128, payoutHandle, address, signers.alice);
+        expect(payout).to.equal(stakeValue - penalty);
+
+        const poolHandle = await prismLock.getPenaltyPool();
+        const pool = await fhevm.userDecryptEuint(FhevmType.euint128, poolHandle, address, signers.deployer);
+        expect(pool).to.equal(penalty);
+
+        await fhevm.initializeCLIApi();
+        const publicDecryption = await fhevm.publicDecrypt([payoutHandle]);
+        await expect(
+          prismLock
+            .connect(signers.alice)
+            .finalizeWithdrawal(stakeId, publicDecryption.abiEncodedClearValues, publicDecryption.decryptionProof),
+        ).to.changeEtherBalances([signers.alice, prismLock], [stakeValue - penalty, penalty - stakeValue]);
+      });
+    }
+
+    it("rejects early exits once the lock is over", async function () {
+      const { prismLock } = await deployFixture();
+      await prismLock.connect(signers.alice).stake(duration, ethers.ZeroAddress, { value: stakeValue });
+      const [stakeId] = await prismLock.getStakeIds(signers.alice.address);
+
+      expect(await prismLock.earlyExitPenaltyBps(stakeId)).to.equal(2_000n);
+      await time.increase(duration);
+      expect(await prismLock.earlyExitPenaltyBps(stakeId)).to.equal(0n);
+      await expect(prismLock.connect(signers.alice).earlyWithdraw(stakeId)).to.be.revertedWithCustomError(
+        prismLock,
+        "LockPeriodOver",
+      );
+    });
+
+    it("pays the penalty pool out to stakers who hold to maturity", async function () {
+      const { prismLock, address } = await deployFixture();
+      const bobValue = ethers.parseEther("4");
+
+      await prismLock.connect(signers.alice).stake(duration, ethers.ZeroAddress, { value: stakeValue });
+      await prismLock.connect(signers.bob).stake(duration, ethers.ZeroAddress, { value: bobValue });
+      const [aliceStake] = await prismLock.getStakeIds(signers.alice.address);
+      const [bobStake] = await prismLock.getStakeIds(signers.bob.address);
+
+      await prismLock.connect(signers.alice).earlyWithdraw(aliceStake);
+      const poolHandle = await prismLock.getPenaltyPool();
+      const pool = await fhevm.userDecryptEuint(FhevmType.euint128, poolHandle, address, signers.deployer);
+      const bonusCap = (bobValue * 500n) / 10_000n;
+      expect(pool > bonusCap).to.equal(true);
+
+      await time.increase(duration);
+      await prismLock.connect(signers.bob).requestWithdrawal(bobStake);
+
+      const payoutHandle = await prismLock.getEncryptedAmount(bobStake);
+      const payout = await fhevm.userDecryptEuint(FhevmType.euint128, payoutHandle, address, signers.bob);
+      expect(payout).to.equal(bobValue + bonusCap);
+
+      const remainingPoolHandle = await prismLock.getPenaltyPool();
+      const remainingPool = await fhevm.userDecryptEuint(
+        FhevmType.euint128,
+        remainingPoolHandle,
+        address,
+        signers.deployer,
+      );
+      expect(remainingPool).to.equal(pool - bonusCap);
+    });
+  });
+
+  describe("cancel and rollover", function () {
+    const day = 24n * 60n * 60n;
+    const isPublic = (handle: string) =>
+      fhevm.publicDecrypt([handle]).then(
+        () => true,
+        () => false,
+      );
+
+    it("cancels a pending withdrawal under a fresh private handle and returns the bonus", async function () {
+      const { prismLock, address } = await deployFixture();
+      const stakeValue = ethers.parseEther("10");
+      const reward = ethers.parseEther("0.2");
+
+      await prismLock.connect(signers.deployer).fundRewards({ value: ethers.parseEther("1") });
+      await prismLock.connect(signers.alice).stake(90n * day, ethers.ZeroAddress, { value: stakeValue });
+      await prismLock.connect(signers.bob).stake(90n * day, ethers.ZeroAddress, { value: ethers.parseEther("4") });
+      const [stakeId] = await prismLock.getStakeIds(signers.alice.address);
+      const [bobStake] = await prismLock.getStakeIds(signers.bob.address);
+      await prismLock.connect(signers.bob).earlyWithdraw(bobStake);
+      const penaltyPool = await fhevm.userDecryptEuint(
+        FhevmType.euint128,
+        await prismLock.getPenaltyPool(),
+        address,
+        signers.deployer,
+      );
+
+      await expect(prismLock.connect(signers.alice).cancelWithdrawal(stakeId)).to.be.revertedWithCustomError(
+        prismLock,
+        "WithdrawalNotRequested",
+      );
+
+      await time.increase(90n * day);
+      await prismLock.connect(signers.alice).requestWithdrawal(stakeId);
+      const payoutHandle = await prismLock.getEncryptedAmount(stakeId);
+
+      await expect(prismLock.connect(signers.alice).cancelWithdrawal(stakeId))
+        .to.emit(prismLock, "WithdrawalCancelled")
+        .withArgs(signers.alice.address, stakeId, anyValue);
+
+      const summary = await prismLock.getStakeSummary(stakeId);
+      expect(summary.withdrawalRequested).to.equal(false);
+      expect(summary.encryptedAmount).to.not.equal(payoutHandle);
+      await fhevm.initializeCLIApi();
+      expect(await isPublic(summary.encryptedAmount)).to.equal(false);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint128, summary.encryptedAmount, address, signers.alice),
+      ).to.equal(stakeValue);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint128, summary.encryptedReward, address, signers.alice),
+      ).to.equal(reward);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint128, await prismLock.getPenaltyPool(), address, signers.deployer),
+      ).to.equal(penaltyPool);
+
+      // A new request pays the same reward and bonus as the cancelled one
+      const bonus = penaltyPool < (stakeValue * 500n) / 10_000n ? penaltyPool : (stakeValue * 500n) / 10_000n;
+      await prismLock.connect(signers.alice).requestWithdrawal(stakeId);
+      const publicDecryption = await fhevm.publicDecrypt([await prismLock.getEncryptedAmount(stakeId)]);
+      await expect(
+        prismLock
+          .connect(signers.alice)
+          .finalizeWithdrawal(stakeId, publicDecryption.abiEncodedClearValues, publicDecryption.decryptionProof),
+      ).to.changeEtherBalance(signers.alice, stakeValue + reward + bonus);
+    });
+
+    it("rolls a matured stake into a new lock with its reward compounded", async function () {
+      const { prismLock, address } = await deployFixture();
+      const compounded = ethers.parseEther("10.05");
+      const nextReward = (compounded * 200n) / 10_000n;
+
+      await prismLock.connect(signers.deployer).fundRewards({ value: ethers.parseEther("1") });
+      await prismLock.connect(signers.alice).stake(30n * day, ethers.ZeroAddress, { value: ethers.parseEther("10") });
+      const [stakeId] = await prismLock.getStakeIds(signers.alice.address);
+
+      await expect(prismLock.connect(signers.alice).rolloverStake(stakeId, 90n * day)).to.be.revertedWithCustomError(
+        prismLock,
+        "LockPeriodActive",
+      );
+
+      await time.increase(30n * day);
+      await expect(prismLock.connect(signers.alice).rolloverStake(stakeId, 90n * day))
+        .to.emit(prismLock, "StakeRolledOver")
+        .withArgs(signers.alice.address, stakeId, 90n * day, anyValue);
+
+      const summary = await prismLock.getStakeSummary(stakeId);
+      expect(summary.lockDuration).to.equal(90n * day);
+      expect(summary.unlockTimestamp).to.equal(BigInt(await time.latest()) + 90n * day);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint128, summary.encryptedAmount, address, signers.alice),
+      ).to.equal(compounded);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint128, summary.encryptedReward, address, signers.alice),
+      ).to.equal(nextReward);
+      await expect(prismLock.connect(signers.alice).requestWithdrawal(stakeId)).to.be.revertedWithCustomError(
+        prismLock,
+        "LockPeriodActive",
+      );
+
+      // Rolling over a pending request retires its publicly decryptable payout
+      await time.increase(90n * day);
+      await prismLock.connect(signers.alice).requestWithdrawal(stakeId);
+      const payoutHandle = await prismLock.getEncryptedAmount(stakeId);
+      await prismLock.connect(signers.alice).rolloverStake(stakeId, 30n * day);
+
+      const handle = await prismLock.getEncryptedAmount(stakeId);
+      expect(handle).to.not.equal(payoutHandle);
+      expect((await prismLock.getStakeSummary(stakeId)).withdrawalRequested).to.equal(false);
+      await fhevm.initializeCLIApi();
+      expect(await isPublic(handle)).to.equal(false);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint128, handle, address, signers.alice)).to.equal(
+        compounded + nextReward,
+      );
+    });
+  });
+
+  describe("vesting", function () {
+    const day = 24n * 60n * 60n;
+
+    async function claimTranche(prismLock: PrismLock, stakeId: bigint) {
+      const receipt = await (await prismLock.connect(signers.alice).requestVestedClaim(stakeId)).wait();
+      const requestedAt = BigInt((await receipt!.getBlock()).timestamp);
+      const handle = (await prismLock.getStakeSummary(stakeId)).encryptedPendingClaim;
+      await fhevm.initializeCLIApi();
+      const publicDecryption = await fhevm.publicDecrypt([handle]);
+      const tranche = (publicDecryption.clearValues as Record<string, bigint>)[handle];
+      return { requestedAt, tranche, publicDecryption };
+    }
+
+    it("releases vested tranches after the cliff and closes the stake with the last one", async function () {
+      const { prismLock } = await deployFixture();
+      const total = ethers.parseEther("9") + ethers.parseEther("0.18");
+
+      await prismLock.connect(signers.deployer).fundRewards({ value: ethers.parseEther("1") });
+      await expect(
+        prismLock
+          .connect(signers.alice)
+          .stakeVesting(30n * day, 90n * day, ethers.ZeroAddress, { value: ethers.parseEther("9") }),
+      )
+        .to.emit(prismLock, "VestingScheduleCreated")
+        .withArgs(signers.alice.address, anyValue, 30n * day, 90n * day);
+      const [stakeId] = await prismLock.getStakeIds(signers.alice.address);
+
+      let summary = await prismLock.getStakeSummary(stakeId);
+      expect(summary.vesting).to.equal(true);
+      expect(summary.cliffDuration).to.equal(30n * day);
+      expect(summary.claimableNow).to.equal(false);
+      await expect(prismLock.connect(signers.alice).requestVestedClaim(stakeId)).to.be.revertedWithCustomError(
+        prismLock,
+        "LockPeriodActive",
+      );
+      for (const call of [
+        prismLock.connect(signers.alice).earlyWithdraw(stakeId),
+        prismLock.connect(signers.alice).extendLock(stakeId, 120n * day),
+      ]) {
+        await expect(call).to.be.revertedWithCustomError(prismLock, "VestingStake");
+      }
+
+      await time.increaseTo(summary.startTimestamp + 45n * day);
+      expect((await prismLock.getStakeSummary(stakeId)).claimableNow).to.equal(true);
+      const first = await claimTranche(prismLock, stakeId);
+      expect(first.tranche).to.equal((total * (first.requestedAt - summary.startTimestamp)) / (90n * day));
+      expect((await prismLock.getStakeSummary(stakeId)).claimableNow).to.equal(false);
+      await expect(prismLock.connect(signers.alice).requestVestedClaim(stakeId)).to.be.revertedWithCustomError(
+        prismLock,
+        "ClaimAlreadyRequested",
+      );
+
+      await expect(
+        prismLock
+          .connect(signers.alice)
+          .finalizeVestedClaim(
+            stakeId,
+            first.publicDecryption.abiEncodedClearValues,
+            first.publicDecryption.decryptionProof,
+          ),
+      ).to.changeEtherBalance(signers.alice, first.tranche);
+      summary = await prismLock.getStakeSummary(stakeId);
+      expect(summary.claimedAmount).to.equal(first.tranche);
+      expect(summary.encryptedPendingClaim).to.equal(ethers.ZeroHash);
+
+      await time.increase(60n * day);
+      const last = await claimTranche(prismLock, stakeId);
+      expect(last.tranche).to.equal(total - first.tranche);
+      await expect(
+        prismLock
+          .connect(signers.alice)
+          .finalizeVestedClaim(
+            stakeId,
+            last.publicDecryption.abiEncodedClearValues,
+            last.publicDecryption.decryptionProof,
+          ),
+      )
+        .to.emit(prismLock, "VestedClaimFinalized")
+        .withArgs(signers.alice.address, stakeId, signers.alice.address, last.tranche, true);
+      expect(await prismLock.getStakeIds(signers.alice.address)).to.deep.equal([]);
+    });
+
+    it("releases the principal before the cliff in emergency mode", async function () {
+      const { prismLock, settings } = await deployFixture();
+      const stakeValue = ethers.parseEther("3");
+
+      await prismLock
+        .connect(signers.alice)
+        .stakeVesting(30n * day, 90n * day, ethers.ZeroAddress, { value: stakeValue });
+      const [stakeId] = await prismLock.getStakeIds(signers.alice.address);
+      await settings.connect(signers.deployer).setEmergencyMode(true);
+      expect((await prismLock.getStakeSummary(stakeId)).claimableNow).to.equal(true);
+
+      const claim = await claimTranche(prismLock, stakeId);
+      expect(claim.tranche).to.equal(stakeValue);
+      await expect(
+        prismLock
+          .connect(signers.alice)
+          .finalizeVestedClaim(
+            stakeId,
+            claim.publicDecryption.abiEncodedClearValues,
+            claim.publicDecryption.decryptionProof,
+          ),
+      ).to.changeEtherBalances([signers.alice, prismLock], [stakeValue, -stakeValue]);
+      expect(await prismLock.getStakeIds(signers.alice.address)).to.deep.equal([]);
+    });
+
+    it("pays only the unclaimed principal in emergency mode and returns the unclaimed reward to the pool", async function () {
+      const { prismLock, settings, address } = await deployFixture();
+      const stakeValue = ethers.parseEther("9");
+      const funded = ethers.parseEther("1");
+
+      await prismLock.connect(signers.deployer).fundRewards({ value: funded });
+      await prismLock
+        .connect(signers.alice)
+        .stakeVesting(30n * day, 90n * day, ethers.ZeroAddress, { value: stakeValue });
+      const [stakeId] = await prismLock.getStakeIds(signers.alice.address);
+      const { startTimestamp } = await prismLock.getStakeSummary(stakeId);
+
+      await time.increaseTo(startTimestamp + 45n * day);
+      const first = await claimTranche(prismLock, stakeId);
+      await prismLock
+        .connect(signers.alice)
+        .finalizeVestedClaim(
+          stakeId,
+          first.publicDecryption.abiEncodedClearValues,
+          first.publicDecryption.decryptionProof,
+        );
+      const claimedPrincipal = (stakeValue * (first.requestedAt - startTimestamp)) / (90n * day);
+
+      await settings.connect(signers.deployer).setEmergencyMode(true);
+      const last = await claimTranche(prismLock, stakeId);
+      expect(last.tranche).to.equal(stakeValue - claimedPrincipal);
+      const pool = await fhevm.userDecryptEuint(
+        FhevmType.euint128,
+        await prismLock.getRewardPool(),
+        address,
+        signers.deployer,
+      );
+      expect(pool).to.equal(funded - (first.tranche - claimedPrincipal));
+
+      await expect(
+        prismLock
+          .connect(signers.alice)
+          .finalizeVestedClaim(
+            stakeId,
+            last.publicDecryption.abiEncodedClearValues,
+            last.publicDecryption.decryptionProof,
+          ),
+      ).to.changeEtherBalances([signers.alice, prismLock], [last.tranche, -last.tranche]);
+      expect(await prismLock.getStakeIds(signers.alice.address)).to.deep.equal([]);
+    });
+
+    it("rejects vesting claims on cliff stakes and schedules whose cliff exceeds the duration", async function () {
+      const { prismLock } = await deployFixture();
+      await prismLock.connect(signers.alice).stake(30n * day, ethers.ZeroAddress, { value: ethers.parseEther("1") });
+      const [stakeId] = await prismLock.getStakeIds(signers.alice.address);
+
+      await expect(prismLock.connect(signers.alice).requestVestedClaim(stakeId)).to.be.revertedWithCustomError(
+        prismLock,
+        "NotVestingStake",
+      );
+      await expect(
+        prismLock
+          .connect(signers.alice)
+          .stakeVesting(60n * day, 30n * day, ethers.ZeroAddress, { value: ethers.parseEther("1") }),
+      ).to.be.revertedWithCustomError(prismLock, "InvalidLockDuration");
+    });
+  });
+
+  describe("beneficiaries", function () {
+    const duration = 2n * 24n * 60n * 60n;
+
+    async function requestAndDecrypt(prismLock: PrismLock, stakeId: bigint) {
+      await time.increase(duration + 1n);
+      await prismLock.connect(signers.alice).requestWithdrawal(stakeId);
+      const handle = await prismLock.getEncryptedAmount(stakeId);
+      await fhevm.initializeCLIApi();
+      return fhevm.publicDecrypt([handle]);
+    }
+
+    it("pays the beneficiary named at stake time and lets the owner change it", async function () {
+      const { prismLock, settings } = await deployFixture();
+      const stakeValue = ethers.parseEther("1");
+
+      await prismLock.connect(signers.alice).stake(duration, signers.bob.address, { value: stakeValue });
+      const [stakeId] = await prismLock.getStakeIds(signers.alice.address);
+      expect((await prismLock.getStakeSummary(stakeId))[9]).to.equal(signers.bob.address);
+
+      await expect(
+        settings.connect(signers.bob).setBeneficiary(stakeId, signers.bob.address),
+      ).to.be.revertedWithCustomError(prismLock, "NotStakeOwner");
+      await expect(settings.connect(signers.alice).setBeneficiary(stakeId, signers.deployer.address))
+        .to.emit(settings, "BeneficiaryUpdated")
+        .withArgs(signers.alice.address, stakeId, signers.deployer.address);
+
+      const publicDecryption = await requestAndDecrypt(prismLock, stakeId);
+      const finalize = prismLock
+        .connect(signers.alice)
+        .finalizeWithdrawal(stakeId, publicDecryption.abiEncodedClearValues, publicDecryption.decryptionProof);
+      await expect(finalize).to.changeEtherBalances(
+        [signers.deployer, signers.alice, prismLock],
+        [stakeValue, 0n, -stakeValue],
+      );
+      await expect(finalize)
+        .to.emit(prismLock, "WithdrawalFinalized")
+        .withArgs(signers.alice.address, stakeId, signers.deployer.address, stakeValue, anyValue);
+    });
+
+    it("finalizes a withdrawal to an explicit recipient", async function () {
+      const { prismLock } = await deployFixture();
+      const stakeValue = ethers.parseEther("0.5");
+
+      await prismLock.connect(signers.alice).stake(duration, signers.deployer.address, { value: stakeValue });
+      const [stakeId] = await prismLock.getStakeIds(signers.alice.address);
+      const publicDecryption = await requestAndDecrypt(prismLock, stakeId);
+      const { abiEncodedClearValues, decryptionProof } = publicDecryption;
+
+      await expect(
+        prismLock
+          .connect(signers.alice)
+          .finalizeWithdrawalTo(stakeId, ethers.ZeroAddress, abiEncodedClearValues, decryptionProof),
+      ).to.be.revertedWithCustomError(prismLock, "InvalidRecipient");
+      await expect(
+        prismLock
+          .connect(signers.bob)
+          .finalizeWithdrawalTo(stakeId, signers.bob.address, abiEncodedClearValues, decryptionProof),
+      ).to.be.revertedWithCustomError(prismLock, "NotStakeOwner");
+
+      await expect(
+        prismLock
+          .connect(signers.alice)
+          .finalizeWithdrawalTo(stakeId, signers.bob.address, abiEncodedClearValues, decryptionProof),
+      ).to.changeEtherBalances([signers.bob, signers.deployer, prismLock], [stakeValue, 0n, -stakeValue]);
+    });
+  });
+
+  describe("keepers", function () {
+    const duration = 2n * 24n * 60n * 60n;
+
+    it("lets anyone complete an opted-in withdrawal and pays the staker or beneficiary", async function () {
+      const { prismLock, settings } = await deployFixture();
+      const stakeValue = ethers.parseEther("1");
+
+      await prismLock.connect(signers.alice).stake(duration, ethers.ZeroAddress, { value: stakeValue });
+      await prismLock.connect(signers.bob).stake(duration, signers.alice.address, { value: stakeValue });
+      const [aliceStake] = await prismLock.getStakeIds(signers.alice.address);
+      const [bobStake] = await prismLock.getStakeIds(signers.bob.address);
+      await time.increase(duration + 1n);
+
+      await expect(prismLock.connect(signers.deployer).requestWithdrawalFor(aliceStake)).to.be.revertedWithCustomError(
+        prismLock,
+        "KeeperNotAllowed",
+      );
+
+      await expect(settings.connect(signers.alice).setKeeperOptIn(true))
+        .to.emit(settings, "KeeperOptInUpdated")
+        .withArgs(signers.alice.address, true);
+      await settings.connect(signers.bob).setKeeperOptIn(true);
+      expect(await settings.isKeeperOptedIn(signers.alice.address)).to.equal(true);
+
+      await expect(prismLock.connect(signers.deployer).requestWithdrawalFor(aliceStake))
+        .to.emit(prismLock, "WithdrawalRequested")
+        .withArgs(signers.alice.address, aliceStake, anyValue);
+      await prismLock.connect(signers.deployer).requestWithdrawalFor(bobStake);
+
+      await fhevm.initializeCLIApi();
+      for (const stakeId of [aliceStake, bobStake]) {
+        const handle = await prismLock.getEncryptedAmount(stakeId);
+        const publicDecryption = await fhevm.publicDecrypt([handle]);
+        await expect(
+          prismLock
+            .connect(signers.deployer)
+            .finalizeWithdrawalFor(stakeId, publicDecryption.abiEncodedClearValues, publicDecryption.decryptionProof),
+        ).to.changeEtherBalances([signers.alice, signers.deployer], [stakeValue, 0n]);
+      }
+
+      expect(await prismLock.hasStake(signers.alice.address)).to.equal(false);
+      expect(await prismLock.hasStake(signers.bob.address)).to.equal(false);
+    });
+
+    it("stops keepers once the staker opts out", async function () {
+      const { prismLock, settings } = await deployFixture();
+
+      await prismLock.connect(signers.alice).stake(duration, ethers.ZeroAddress, { value: ethers.parseEther("1") });
+      const [stakeId] = await prismLock.getStakeIds(signers.alice.address);
+      await settings.connect(signers.alice).setKeeperOptIn(true);
+
+      await expect(prismLock.connect(signers.bob).requestWithdrawalFor(stakeId)).to.be.revertedWithCustomError(
+        prismLock,
+        "LockPeriodActive",
+      );
+
+      await time.increase(duration + 1n);
+      await prismLock.connect(signers.bob).requestWithdrawalFor(stakeId);
+      await settings.connect(signers.alice).setKeeperOptIn(false);
+
+      const handle = await prismLock.getEncryptedAmount(stakeId);
+      await fhevm.initializeCLIApi();
+      const publicDecryption = await fhevm.publicDecrypt([handle]);
+      await expect(
+        prismLock
+          .connect(signers.bob)
+          .finalizeWithdrawalFor(stakeId, publicDecryption.abiEncodedClearValues, publicDecryption.decryptionProof),
+      ).to.be.revertedWithCustomError(prismLock, "KeeperNotAllowed");
+    });
+  });
+
+  describe("heirs", function () {
+    const day = 24n * 60n * 60n;
+    const duration = 30n * day;
+    const inactivity = 60n * day;
+
+    it("lets the heir withdraw a matured stake once the owner stops pinging", async function () {
+      const { prismLock, settings, address } = await deployFixture();
+      const stakeValue = ethers.parseEther("1.1");
+
+      await prismLock.connect(signers.alice).stake(duration, signers.deployer.address, { value: stakeValue });
+      const [stakeId] = await prismLock.getStakeIds(signers.alice.address);
+      await expect(
+        settings.connect(signers.alice).setHeir(stakeId, signers.bob.address, 0n),
+      ).to.be.revertedWithCustomError(settings, "InvalidInactivityPeriod");
+      await expect(
+        settings.connect(signers.bob).setHeir(stakeId, signers.bob.address, inactivity),
+      ).to.be.revertedWithCustomError(prismLock, "NotStakeOwner");
+      await expect(settings.connect(signers.alice).setHeir(stakeId, signers.bob.address, inactivity))
+        .to.emit(settings, "HeirUpdated")
+        .withArgs(signers.alice.address, stakeId, signers.bob.address, inactivity);
+
+      await time.increase(duration + 50n * day);
+      await expect(prismLock.connect(signers.bob).requestWithdrawalFor(stakeId)).to.be.revertedWithCustomError(
+        prismLock,
+        "KeeperNotAllowed",
+      );
+      await expect(settings.connect(signers.alice).ping()).to.emit(settings, "Pinged").withArgs(signers.alice.address);
+
+      await time.increase(inactivity - day);
+      await expect(prismLock.connect(signers.bob).requestWithdrawalFor(stakeId)).to.be.revertedWithCustomError(
+        prismLock,
+        "KeeperNotAllowed",
+      );
+
+      await time.increase(day);
+      await expect(prismLock.connect(signers.bob).requestWithdrawalFor(stakeId))
+        .to.emit(prismLock, "StakeInherited")
+        .withArgs(signers.alice.address, stakeId, signers.bob.address);
+      const handle = await prismLock.getEncryptedAmount(stakeId);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint128, handle, address, signers.bob)).to.equal(stakeValue);
+      expect((await prismLock.getStakeSummary(stakeId)).beneficiary).to.equal(signers.bob.address);
+
+      await fhevm.initializeCLIApi();
+      const publicDecryption = await fhevm.publicDecrypt([handle]);
+      await expect(
+        prismLock
+          .connect(signers.bob)
+          .finalizeWithdrawalFor(stakeId, publicDecryption.abiEncodedClearValues, publicDecryption.decryptionProof),
+      ).to.changeEtherBalances([signers.bob, signers.deployer, prismLock], [stakeValue, 0n, -stakeValue]);
+    });
+
+    it("lets the heir take over a withdrawal the owner requested before going silent", async function () {
+      const { prismLock, settings, address } = await deployFixture();
+      const stakeValue = ethers.parseEther("1");
+
+      await prismLock.connect(signers.alice).stake(duration, signers.deployer.address, { value: stakeValue });
+      const [stakeId] = await prismLock.getStakeIds(signers.alice.address);
+      await settings.connect(signers.alice).setHeir(stakeId, signers.bob.address, inactivity);
+
+      await time.increase(duration + 1n);
+      await prismLock.connect(signers.alice).requestWithdrawal(stakeId);
+      await time.increase(inactivity - day);
+      await expect(prismLock.connect(signers.bob).requestWithdrawalFor(stakeId)).to.be.revertedWithCustomError(
+        prismLock,
+        "KeeperNotAllowed",
+      );
+
+      await time.increase(day);
+      await expect(prismLock.connect(signers.bob).requestWithdrawalFor(stakeId))
+        .to.emit(prismLock, "StakeInherited")
+        .withArgs(signers.alice.address, stakeId, signers.bob.address);
+      const handle = await prismLock.getEncryptedAmount(stakeId);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint128, handle, address, signers.bob)).to.equal(stakeValue);
+
+      await fhevm.initializeCLIApi();
+      const publicDecryption = await fhevm.publicDecrypt([handle]);
+      await expect(
+        prismLock
+          .connect(signers.bob)
+          .finalizeWithdrawalFor(stakeId, publicDecryption.abiEncodedClearValues, publicDecryption.decryptionProof),
+      ).to.changeEtherBalances([signers.bob, signers.deployer, prismLock], [stakeValue, 0n, -stakeValue]);
+    });
+
+    it("pays the owner's beneficiary again when the owner cancels a withdrawal the heir requested", async function () {
+      const { prismLock, settings } = await deployFixture();
+      const stakeValue = ethers.parseEther("1");
+
+      await prismLock.connect(signers.alice).stake(duration, signers.deployer.address, { value: stakeValue });
+      const [stakeId] = await prismLock.getStakeIds(signers.alice.address);
+      await settings.connect(signers.alice).setHeir(stakeId, signers.bob.address, inactivity);
+
+      await time.increase(duration + inactivity);
+      await prismLock.connect(signers.bob).requestWithdrawalFor(stakeId);
+      expect((await prismLock.getStakeSummary(stakeId)).beneficiary).to.equal(signers.bob.address);
+      await prismLock.connect(signers.alice).cancelWithdrawal(stakeId);
+      expect((await prismLock.getStakeSummary(stakeId)).beneficiary).to.equal(signers.deployer.address);
+
+      await prismLock.connect(signers.alice).requestWithdrawal(stakeId);
+      await fhevm.initializeCLIApi();
+      const publicDecryption = await fhevm.publicDecrypt([await prismLock.getEncryptedAmount(stakeId)]);
+      await expect(
+        prismLock
+          .connect(signers.alice)
+          .finalizeWithdrawal(stakeId, publicDecryption.abiEncodedClearValues, publicDecryption.decryptionProof),
+      ).to.changeEtherBalances([signers.deployer, signers.bob, prismLock], [stakeValue, 0n, -stakeValue]);
+    });
+
+    it("keeps the payout with the owner when the heir acts as a keeper before the timeout", async function () {
+      const { prismLock, settings } = await deployFixture();
+
+      await prismLock.connect(signers.alice).stake(duration, ethers.ZeroAddress, { value: ethers.parseEther("1") });
+      const [stakeId] = await prismLock.getStakeIds(signers.alice.address);
+      await settings.connect(signers.alice).setHeir(stakeId, signers.bob.address, inactivity);
+      await settings.connect(signers.alice).setKeeperOptIn(true);
+
+      await time.increase(duration + 1n);
+      await expect(prismLock.connect(signers.bob).requestWithdrawalFor(stakeId)).not.to.emit(
+        prismLock,
+        "StakeInherited",
+      );
+      expect((await prismLock.getStakeSummary(stakeId)).beneficiary).to.equal(ethers.ZeroAddress);
+    });
+  });
+
+  describe("private durations", function () {
+    const day = 24n * 60n * 60n;
+    const duration = 60n * day;
+
+    async function stakePrivate(address: string, prismLock: PrismLock, lockDuration: bigint, value: bigint) {
+      await PrismLockBalances__factory.connect(address, signers.alice).deposit({ value });
+      const input = await fhevm
+        .createEncryptedInput(address, signers.alice.address)
+        .add128(value)
+        .add64(lockDuration)
+        .encrypt();
+      await prismLock
+        .connect(signers.alice)
+        .stakePrivate(input.handles[0], input.handles[1], input.inputProof, ethers.ZeroAddress);
+      const stakeIds = await prismLock.getStakeIds(signers.alice.address);
+      return stakeIds[stakeIds.length - 1];
+    }
+
+    it("keeps the unlock time encrypted and withdraws after a public maturity check", async function () {
+      const { prismLock, address } = await deployFixture();
+      const stakeValue = ethers.parseEther("1");
+
+      const stakeId = await stakePrivate(address, prismLock, duration, stakeValue);
+      const summary = await prismLock.getStakeSummary(stakeId);
+      expect(summary.lockDuration).to.equal(day);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint128, summary.encryptedAmount, address, signers.alice),
+      ).to.equal(stakeValue);
+      expect(summary.encryptedMaturityCheck).to.equal(ethers.ZeroHash);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint64, summary.encryptedLockDuration, address, signers.alice),
+      ).to.equal(duration);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint64, summary.encryptedUnlockTimestamp, address, signers.alice),
+      ).to.equal(summary.startTimestamp + duration);
+
+      await expect(prismLock.connect(signers.alice).earlyWithdraw(stakeId)).to.be.revertedWithCustomError(
+        prismLock,
+        "PrivateDurationStake",
+      );
+      await expect(prismLock.connect(signers.alice).extendLock(stakeId, 2n * duration)).to.be.revertedWithCustomError(
+        prismLock,
+        "PrivateDurationStake",
+      );
+      expect(await prismLock.earlyExitPenaltyBps(stakeId)).to.equal(0n);
+
+      await time.increase(2n * day);
+      const checkRequested = prismLock.connect(signers.alice).requestWithdrawal(stakeId);
+      await expect(checkRequested)
+        .to.emit(prismLock, "MaturityCheckRequested")
+        .withArgs(signers.alice.address, stakeId, anyValue);
+      await expect(checkRequested).not.to.emit(prismLock, "WithdrawalRequested");
+      await fhevm.initializeCLIApi();
+      let check = (await prismLock.getStakeSummary(stakeId)).encryptedMaturityCheck;
+      let publicDecryption = await fhevm.publicDecrypt([check]);
+      await expect(
+        prismLock.finalizeMaturityCheck.staticCall(
+          stakeId,
+          publicDecryption.abiEncodedClearValues,
+          publicDecryption.decryptionProof,
+        ),
+      ).to.be.revertedWithCustomError(prismLock, "LockPeriodActive");
+
+      await time.increase(duration);
+      await prismLock.connect(signers.alice).requestWithdrawal(stakeId);
+      check = (await prismLock.getStakeSummary(stakeId)).encryptedMaturityCheck;
+      publicDecryption = await fhevm.publicDecrypt([check]);
+      await expect(
+        prismLock
+          .connect(signers.bob)
+          .finalizeMaturityCheck(stakeId, publicDecryption.abiEncodedClearValues, publicDecryption.decryptionProof),
+      )
+        .to.emit(prismLock, "WithdrawalRequested")
+        .withArgs(signers.alice.address, stakeId, anyValue);
+      await expect(prismLock.finalizeMaturityCheck(stakeId, "0x", "0x")).to.be.revertedWithCustomError(
+        prismLock,
+        "NoMaturityCheckPending",
+      );
+
+      const handle = await prismLock.getEncryptedAmount(stakeId);
+      publicDecryption = await fhevm.publicDecrypt([handle]);
+      await expect(
+        prismLock
+          .connect(signers.alice)
+          .finalizeWithdrawal(stakeId, publicDecryption.abiEncodedClearValues, publicDecryption.decryptionProof),
+      ).to.changeEtherBalances([signers.alice, prismLock], [stakeValue, -stakeValue]);
+    });
+
+    it("keeps the lock duration and unlock time out of the receipt metadata", async function () {
+      const { prismLock, settings, address } = await deployFixture();
+      const { receipts } = await deployReceiptsFixture(settings);
+
+      const stakeId = await stakePrivate(address, prismLock, duration, ethers.parseEther("1"));
+      const summary = await prismLock.getStakeSummary(stakeId);
+      const json = Buffer.from((await receipts.tokenURI(stakeId)).split(",")[1], "base64").toString();
+      const metadata = JSON.parse(json);
+      expect(metadata.attributes).to.deep.include({ trait_type: "Lock duration (seconds)", value: "Private" });
+      expect(metadata.attributes).to.deep.include({ trait_type: "Unlock time", value: "Private" });
+      expect(json).to.not.include(summary.lockDuration.toString());
+      expect(json).to.not.include(summary.unlockTimestamp.toString());
+    });
+
+    it("re-encrypts the hidden timing and a pending maturity check for the new receipt holder", async function () {
+      const { prismLock, settings, address } = await deployFixture();
+      const { receipts } = await deployReceiptsFixture(settings);
+      const canDecrypt = (handle: string, signer: HardhatEthersSigner) =>
+        fhevm.userDecryptEuint(FhevmType.euint64, handle, address, signer).then(
+          () => true,
+          () => false,
+        );
+
+      const stakeId = await stakePrivate(address, prismLock, duration, ethers.parseEther("1"));
+      await time.increase(duration);
+      await prismLock.connect(signers.alice).requestWithdrawal(stakeId);
+      const before = await prismLock.getStakeSummary(stakeId);
+
+      await receipts.connect(signers.alice).transferFrom(signers.alice.address, signers.bob.address, stakeId);
+      const after = await prismLock.getStakeSummary(stakeId);
+      expect(after.encryptedLockDuration).to.not.equal(before.encryptedLockDuration);
+      expect(after.encryptedUnlockTimestamp).to.not.equal(before.encryptedUnlockTimestamp);
+      expect(after.encryptedMaturityCheck).to.not.equal(before.encryptedMaturityCheck);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint64, after.encryptedLockDuration, address, signers.bob),
+      ).to.equal(duration);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint64, after.encryptedUnlockTimestamp, address, signers.bob),
+      ).to.equal(after.startTimestamp + duration);
+      expect(await canDecrypt(after.encryptedLockDuration, signers.alice)).to.equal(false);
+      expect(await canDecrypt(after.encryptedUnlockTimestamp, signers.alice)).to.equal(false);
+
+      await fhevm.initializeCLIApi();
+      const publicDecryption = await fhevm.publicDecrypt([after.encryptedMaturityCheck]);
+      await expect(
+        prismLock
+          .connect(signers.bob)
+          .finalizeMaturityCheck(stakeId, publicDecryption.abiEncodedClearValues, publicDecryption.decryptionProof),
+      )
+        .to.emit(prismLock, "WithdrawalRequested")
+        .withArgs(signers.bob.address, stakeId, anyValue);
+    });
+
+    it("lets the heir inherit only once the inactivity period has passed since the hidden unlock time", async function () {
+      const { prismLock, settings, address } = await deployFixture();
+      const inactivity = 30n * day;
+      const stakeValue = ethers.parseEther("1");
+
+      const stakeId = await stakePrivate(address, prismLock, duration, stakeValue);
+      await settings.connect(signers.alice).setHeir(stakeId, signers.bob.address, inactivity);
+
+      // Past the public unlock bound plus the inactivity period, but not the hidden unlock time plus it
+      await time.increase(duration);
+      const checkRequested = prismLock.connect(signers.bob).requestWithdrawalFor(stakeId);
+      await expect(checkRequested).to.emit(prismLock, "MaturityCheckRequested");
+      await expect(checkRequested).not.to.emit(prismLock, "StakeInherited");
+      await fhevm.initializeCLIApi();
+      let check = (await prismLock.getStakeSummary(stakeId)).encryptedMaturityCheck;
+      let publicDecryption = await fhevm.publicDecrypt([check]);
+      await expect(
+        prismLock.finalizeMaturityCheck.staticCall(
+          stakeId,
+          publicDecryption.abiEncodedClearValues,
+          publicDecryption.decryptionProof,
+        ),
+      ).to.be.revertedWithCustomError(prismLock, "LockPeriodActive");
+
+      await time.increase(inactivity);
+      await prismLock.connect(signers.bob).requestWithdrawalFor(stakeId);
+      check = (await prismLock.getStakeSummary(stakeId)).encryptedMaturityCheck;
+      publicDecryption = await fhevm.publicDecrypt([check]);
+      await expect(
+        prismLock
+          .connect(signers.deployer)
+          .finalizeMaturityCheck(stakeId, publicDecryption.abiEncodedClearValues, publicDecryption.decryptionProof),
+      )
+        .to.emit(prismLock, "StakeInherited")
+        .withArgs(signers.alice.address, stakeId, signers.bob.address);
+      expect((await prismLock.getStakeSummary(stakeId)).beneficiary).to.equal(signers.bob.address);
+
+      publicDecryption = await fhevm.publicDecrypt([await prismLock.getEncryptedAmount(stakeId)]);
+      await expect(
+        prismLock
+          .connect(signers.bob)
+          .finalizeWithdrawalFor(stakeId, publicDecryption.abiEncodedClearValues, publicDecryption.decryptionProof),
+      ).to.changeEtherBalances([signers.bob, prismLock], [stakeValue, -stakeValue]);
+    });
+
+    it("clamps the encrypted duration to the lock bounds", async function () {
+      const { prismLock, address } = await deployFixture();
+
+      const longest = await stakePrivate(address, prismLock, 10n * 365n * day, ethers.parseEther("1"));
+      const shortest = await stakePrivate(address, prismLock, 0n, ethers.parseEther("1"));
+      const longestDuration = (await prismLock.getStakeSummary(longest)).encryptedLockDuration;
+      const shortestDuration = (await prismLock.getStakeSummary(shortest)).encryptedLockDuration;
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, longestDuration, address, signers.alice)).to.equal(
+        365n * day,
+      );
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, shortestDuration, address, signers.alice)).to.equal(day);
+
+      await time.increase(2n * day);
+      await expect(prismLock.connect(signers.alice).rolloverStake(shortest, duration)).to.be.revertedWithCustomError(
+        prismLock,
+        "PrivateDurationStake",
+      );
+    });
+  });
+
+  describe("funded stakes", function () {
+    const duration = 30n * 24n * 60n * 60n;
+
+    it("records a stake funded by another account under its owner only", async function () {
+      const { prismLock, address } = await deployFixture();
+      const stakeValue = ethers.parseEther("1.2");
+
+      await expect(
+        prismLock.connect(signers.deployer).stakeFor(ethers.ZeroAddress, duration, { value: stakeValue }),
+      ).to.be.revertedWithCustomError(prismLock, "InvalidRecipient");
+
+      const funded = prismLock
+        .connect(signers.deployer)
+        .stakeFor(signers.alice.address, duration, { value: stakeValue });
+      await expect(funded)
+        .to.emit(prismLock, "StakeFunded")
+        .withArgs(signers.deployer.address, signers.alice.address, 1n);
+      await expect(funded).to.emit(prismLock, "StakeCreated").withArgs(signers.alice.address, 1n, duration, anyValue);
+
+      expect(await prismLock.getStakeIds(signers.alice.address)).to.deep.equal([1n]);
+      expect(await prismLock.getStakeIds(signers.deployer.address)).to.deep.equal([]);
+      const summary = await prismLock.getStakeSummary(1n);
+      expect(summary.owner).to.equal(signers.alice.address);
+      expect(summary.beneficiary).to.equal(ethers.ZeroAddress);
+
+      const handle = summary.encryptedAmount;
+      expect(await fhevm.userDecryptEuint(FhevmType.euint128, handle, address, signers.alice)).to.equal(stakeValue);
+      const funderCanDecrypt = await fhevm.userDecryptEuint(FhevmType.euint128, handle, address, signers.deployer).then(
+        () => true,
+        () => false,
+      );
+      expect(funderCanDecrypt).to.equal(false);
+    });
+
+    it("funds a batch of stakes whose amounts add up to the value sent", async function () {
+      const { prismLock } = await deployFixture();
+      const users = [signers.alice.address, signers.bob.address, signers.alice.address];
+      const amounts = [ethers.parseEther("0.5"), ethers.parseEther("0.25"), ethers.parseEther("1")];
+      const durations = [duration, 90n * 24n * 60n * 60n, 2n * duration];
+      const total = amounts.reduce((sum, amount) => sum + amount, 0n);
+
+      await expect(
+        prismLock.connect(signers.deployer).stakeForBatch(users, amounts, durations, { value: total - 1n }),
+      ).to.be.revertedWithCustomError(prismLock, "InvalidBatch");
+      await expect(
+        prismLock.connect(signers.deployer).stakeForBatch(users, amounts.slice(1), durations, { value: total }),
+      ).to.be.revertedWithCustomError(prismLock, "InvalidBatch");
+
+      await expect(
+        prismLock.connect(signers.deployer).stakeForBatch(users, amounts, durations, { value: total }),
+      ).to.changeEtherBalances([signers.deployer, prismLock], [-total, total]);
+
+      expect(await prismLock.getStakeIds(signers.alice.address)).to.deep.equal([1n, 3n]);
+      expect(await prismLock.getStakeIds(signers.bob.address)).to.deep.equal([2n]);
+      expect((await prismLock.getStakeSummary(2n)).lockDuration).to.equal(durations[1]);
+      expect((await prismLock.getStakeSummary(3n)).lockDuration).to.equal(durations[2]);
+    });
+  });
+
+  describe("claims", function () {
+    const duration = 2n * 24n * 60n * 60n;
+
+    it("credits a payout the recipient rejects and lets it claim once it accepts ETH", async function () {
+      const { prismLock, balances, address } = await deployFixture();
+      const factory = (await ethers.getContractFactory("RejectingReceiverMock")) as RejectingReceiverMock__factory;
+      const wallet = (await factory.deploy(address)) as RejectingReceiverMock;
+      const walletAddress = await wallet.getAddress();
+      const stakeValue = ethers.parseEther("0.8");
+
+      await prismLock.connect(signers.alice).stake(duration, walletAddress, { value: stakeValue });
+      const [stakeId] = await prismLock.getStakeIds(signers.alice.address);
+      await time.increase(duration + 1n);
+      await prismLock.connect(signers.alice).requestWithdrawal(stakeId);
+      await fhevm.initializeCLIApi();
+      const publicDecryption = await fhevm.publicDecrypt([await prismLock.getEncryptedAmount(stakeId)]);
+
+      const finalize = prismLock
+        .connect(signers.alice)
+        .finalizeWithdrawal(stakeId, publicDecryption.abiEncodedClearValues, publicDecryption.decryptionProof);
+      await expect(finalize).to.changeEtherBalances([wallet, prismLock], [0n, 0n]);
+      await expect(finalize).to.emit(prismLock, "PaymentDeferred").withArgs(walletAddress, stakeValue);
+      expect((await prismLock.getStakeSummary(stakeId))[5]).to.equal(false);
+      expect(await balances.claimableOf(walletAddress)).to.equal(stakeValue);
+
+      await wallet.setMode(true, true);
+      await expect(wallet.claim.staticCall()).to.be.revertedWithCustomError(balances, "ClaimTransferFailed");
+
+      await wallet.setMode(true, false);
+      const claim = wallet.claim();
+      await expect(claim).to.changeEtherBalances([wallet, prismLock], [stakeValue, -stakeValue]);
+      await expect(claim).to.emit(balances, "Claimed").withArgs(walletAddress, stakeValue);
+      expect(await balances.claimableOf(walletAddress)).to.equal(0n);
+      await expect(wallet.claim.staticCall()).to.be.revertedWithCustomError(balances, "NothingToClaim");
+    });
+
+    it("caps the gas of a pushed payout and credits a recipient that burns it", async function () {
+      const { prismLock, balances } = await deployFixture();
+      const factory = (await ethers.getContractFactory("GasBurningReceiverMock")) as GasBurningReceiverMock__factory;
+      const wallet = (await factory.deploy()) as GasBurningReceiverMock;
+      const walletAddress = await wallet.getAddress();
+      const stakeValue = ethers.parseEther("0.4");
+
+      await prismLock.connect(signers.alice).stake(duration, walletAddress, { value: stakeValue });
+      const [stakeId] = await prismLock.getStakeIds(signers.alice.address);
+      await time.increase(duration + 1n);
+      await prismLock.connect(signers.alice).requestWithdrawal(stakeId);
+      await fhevm.initializeCLIApi();
+      const publicDecryption = await fhevm.publicDecrypt([await prismLock.getEncryptedAmount(stakeId)]);
+
+      const finalize = await prismLock
+        .connect(signers.alice)
+        .finalizeWithdrawal(stakeId, publicDecryption.abiEncodedClearValues, publicDecryption.decryptionProof, {
+          gasLimit: 10_000_000n,
+        });
+      await expect(finalize).to.emit(prismLock, "PaymentDeferred").withArgs(walletAddress, stakeValue);
+      const receipt = await finalize.wait();
+      expect(receipt!.gasUsed).to.be.lessThan(500_000n);
+      expect(await balances.claimableOf(walletAddress)).to.equal(stakeValue);
+    });
+  });
+
+  describe("viewers", function () {
+    const duration = 2n * 24n * 60n * 60n;
+
+    it("lets a granted viewer decrypt current and future stake amounts", async function () {
+      const { prismLock, settings, address } = await deployFixture();
+      const auditor = signers.bob;
+
+      await prismLock.connect(signers.alice).stake(duration, ethers.ZeroAddress, { value: ethers.parseEther("1") });
+      await expect(settings.connect(signers.alice).grantViewer(auditor.address))
+        .to.emit(settings, "ViewerGranted")
+        .withArgs(signers.alice.address, auditor.address);
+      await prismLock.connect(signers.alice).stake(duration, ethers.ZeroAddress, { value: ethers.parseEther("2") });
+
+      expect(await settings.getViewers(signers.alice.address)).to.deep.equal([auditor.address]);
+      expect(await settings.isViewer(signers.alice.address, auditor.address)).to.equal(true);
+
+      const [firstId, secondId] = await prismLock.getStakeIds(signers.alice.address);
+      for (const [stakeId, amount] of [
+        [firstId, ethers.parseEther("1")],
+        [secondId, ethers.parseEther("2")],
+      ]) {
+        const handle = await prismLock.getEncryptedAmount(stakeId);
+        expect(await fhevm.userDecryptEuint(FhevmType.euint128, handle, address, auditor)).to.equal(amount);
+      }
+
+      await prismLock.connect(signers.alice).increaseStake(firstId, { value: ethers.parseEther("0.5") });
+      const toppedUp = await prismLock.getEncryptedAmount(firstId);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint128, toppedUp, address, auditor)).to.equal(
+        ethers.parseEther("1.5"),
+      );
+
+      await expect(settings.connect(signers.alice).grantViewer(auditor.address)).to.be.revertedWithCustomError(
+        settings,
+        "ViewerAlreadyGranted",
+      );
+      await expect(settings.connect(signers.alice).grantViewer(signers.alice.address)).to.be.revertedWithCustomError(
+        settings,
+        "InvalidViewer",
+      );
+    });
+
+    it("re-encrypts open stakes under a new handle when a viewer is revoked", async function () {
+      const { prismLock, settings, address } = await deployFixture();
+      const [, , , auditor, secondAuditor] = await ethers.getSigners();
+      const canDecrypt = (handle: string, signer: HardhatEthersSigner) =>
+        fhevm.userDecryptEuint(FhevmType.euint128, handle, address, signer).then(
+          () => true,
+          () => false,
+        );
+
+      await prismLock.connect(signers.alice).stake(duration, ethers.ZeroAddress, { value: ethers.parseEther("1") });
+      const [stakeId] = await prismLock.getStakeIds(signers.alice.address);
+      await settings.connect(signers.alice).grantViewer(auditor.address);
+      await settings.connect(signers.alice).grantViewer(secondAuditor.address);
+      const previousHandle = await prismLock.getEncryptedAmount(stakeId);
+
+      await expect(settings.connect(signers.alice).revokeViewer(auditor.address))
+        .to.emit(settings, "ViewerRevoked")
+        .withArgs(signers.alice.address, auditor.address);
+
+      const handle = await prismLock.getEncryptedAmount(stakeId);
+      expect(handle).to.not.equal(previousHandle);
+      expect(await settings.getViewers(signers.alice.address)).to.deep.equal([secondAuditor.address]);
+      expect(await canDecrypt(handle, auditor)).to.equal(false);
+      expect(await canDecrypt(handle, signers.bob)).to.equal(false);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint128, handle, address, secondAuditor)).to.equal(
+        ethers.parseEther("1"),
+      );
+      expect(await fhevm.userDecryptEuint(FhevmType.euint128, handle, address, signers.alice)).to.equal(
+        ethers.parseEther("1"),
+      );
+
+      await expect(settings.connect(signers.alice).revokeViewer(auditor.address)).to.be.revertedWithCustomError(
+        settings,
+        "ViewerNotGranted",
+      );
+
+      // The re-encrypted amount still backs the withdrawal
+      await time.increase(duration + 1n);
+      await prismLock.connect(signers.alice).requestWithdrawal(stakeId);
+      await fhevm.initializeCLIApi();
+      const publicDecryption = await fhevm.publicDecrypt([await prismLock.getEncryptedAmount(stakeId)]);
+      await expect(
+        prismLock
+          .connect(signers.alice)
+          .finalizeWithdrawal(stakeId, publicDecryption.abiEncodedClearValues, publicDecryption.decryptionProof),
+      ).to.changeEtherBalance(signers.alice, ethers.parseEther("1"));
+    });
+  });
+
+  describe("receipts", function () {
+    const duration = 30n * 24n * 60n * 60n;
+
+    it("moves the stake, its withdrawal rights and decryption access with the receipt", async function () {
+      const { prismLock, settings, address } = await deployFixture();
+      const { receipts } = await deployReceiptsFixture(settings);
+      const stakeValue = ethers.parseEther("1.5");
+      const canDecrypt = (handle: string, signer: HardhatEthersSigner) =>
+        fhevm.userDecryptEuint(FhevmType.euint128, handle, address, signer).then(
+          () => true,
+          () => false,
+        );
+
+      await prismLock.connect(signers.alice).stake(duration, signers.alice.address, { value: stakeValue });
+      const [stakeId] = await prismLock.getStakeIds(signers.alice.address);
+      expect(await receipts.ownerOf(stakeId)).to.equal(signers.alice.address);
+      const previousHandle = await prismLock.getEncryptedAmount(stakeId);
+
+      await expect(receipts.connect(signers.alice).transferFrom(signers.alice.address, signers.bob.address, stakeId))
+        .to.emit(prismLock, "StakeTransferred")
+        .withArgs(signers.alice.address, stakeId, signers.bob.address, anyValue);
+
+      expect(await prismLock.getStakeIds(signers.alice.address)).to.deep.equal([]);
+      expect(await prismLock.getStakeIds(signers.bob.address)).to.deep.equal([stakeId]);
+      const summary = await prismLock.getStakeSummary(stakeId);
+      expect(summary.owner).to.equal(signers.bob.address);
+      expect(summary.beneficiary).to.equal(ethers.ZeroAddress);
+      expect(summary.encryptedAmount).to.not.equal(previousHandle);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint128, summary.encryptedAmount, address, signers.bob)).to.equal(
+        stakeValue,
+      );
+      expect(await canDecrypt(summary.encryptedAmount, signers.alice)).to.equal(false);
+
+      await time.increase(duration);
+      await expect(prismLock.connect(signers.alice).requestWithdrawal(stakeId)).to.be.revertedWithCustomError(
+        prismLock,
+        "NotStakeOwner",
+      );
+      await prismLock.connect(signers.bob).requestWithdrawal(stakeId);
+      await fhevm.initializeCLIApi();
+      const publicDecryption = await fhevm.publicDecrypt([await prismLock.getEncryptedAmount(stakeId)]);
+      await expect(
+        prismLock
+          .connect(signers.bob)
+          .finalizeWithdrawal(stakeId, publicDecryption.abiEncodedClearValues, publicDecryption.decryptionProof),
+      ).to.changeEtherBalance(signers.bob, stakeValue);
+      await expect(receipts.ownerOf(stakeId)).to.be.revertedWithCustomError(receipts, "ERC721NonexistentToken");
+    });
+
+    it("describes the lock in metadata without the amount and only lets the vault mint", async function () {
+      const { prismLock, settings } = await deployFixture();
+      const { receipts } = await deployReceiptsFixture(settings);
+
+      await prismLock.connect(signers.alice).stake(duration, ethers.ZeroAddress, { value: ethers.parseEther("2") });
+      const [stakeId] = await prismLock.getStakeIds(signers.alice.address);
+      const summary = await prismLock.getStakeSummary(stakeId);
+
+      const uri = await receipts.tokenURI(stakeId);
+      const metadata = JSON.parse(Buffer.from(uri.split(",")[1], "base64").toString());
+      expect(metadata.name).to.equal(`PrismLock stake #${stakeId}`);
+      expect(metadata.attributes).to.deep.include({
+        trait_type: "Lock duration (seconds)",
+        display_type: "number",
+        value: Number(duration),
+      });
+      expect(metadata.attributes).to.deep.include({
+        trait_type: "Unlock time",
+        display_type: "date",
+        value: Number(summary.unlockTimestamp),
+      });
+      expect(uri).to.not.include(ethers.parseEther("2").toString());
+      expect(metadata.attributes.map((attribute: { trait_type: string }) => attribute.trait_type)).to.deep.equal([
+        "Asset",
+        "Lock duration (seconds)",
+        "Unlock time",
+        "Schedule",
+      ]);
+
+      await expect(
+        receipts.connect(signers.alice).mint.staticCall(signers.alice.address, 99n),
+      ).to.be.revertedWithCustomError(receipts, "NotPrismLock");
+      await expect(
+        prismLock.connect(signers.alice).onReceiptTransfer(stakeId, signers.bob.address),
+      ).to.be.revertedWithCustomError(prismLock, "NotReceipts");
+    });
+  });
+
+  describe("stats", function () {
+    const day = 24n * 60n * 60n;
+
+    it("aggregates the principal of ETH stakes and their duration buckets until withdrawal", async function () {
+      const { prismLock, settings } = await deployFixture();
+      const { stats, statsAddress } = await deployStatsFixture(settings);
+      const decryptAs = async (type: FhevmType.euint64 | FhevmType.euint128, handle: string) =>
+        fhevm.userDecryptEuint(type, handle, statsAddress, signers.deployer);
+      const totalValueLocked = async () => decryptAs(FhevmType.euint128, await stats.getTotalValueLocked());
+      const stakeCount = async (bucket: number) => decryptAs(FhevmType.euint64, await stats.getStakeCount(bucket));
+
+      await prismLock.connect(signers.alice).stake(30n * day, ethers.ZeroAddress, { value: ethers.parseEther("1") });
+      await prismLock.connect(signers.bob).stake(10n * day, ethers.ZeroAddress, { value: ethers.parseEther("2") });
+      const [aliceStake] = await prismLock.getStakeIds(signers.alice.address);
+      const [bobStake] = await prismLock.getStakeIds(signers.bob.address);
+      await prismLock.connect(signers.alice).increaseStake(aliceStake, { value: ethers.parseEther("0.5") });
+
+      expect(await totalValueLocked()).to.equal(ethers.parseEther("3.5"));
+      expect(await stakeCount(0)).to.equal(1n);
+      expect(await stakeCount(1)).to.equal(1n);
+      expect(await stats.durationBucket(30n * day)).to.equal(1n);
+      const canAliceDecrypt = await fhevm
+        .userDecryptEuint(FhevmType.euint128, await stats.getTotalValueLocked(), statsAddress, signers.alice)
+        .then(
+          () => true,
+          () => false,
+        );
+      expect(canAliceDecrypt).to.equal(false);
+
+      await prismLock.connect(signers.bob).earlyWithdraw(bobStake);
+      await fhevm.initializeCLIApi();
+      const payoutHandle = await prismLock.getEncryptedAmount(bobStake);
+      const bobExit = await fhevm.publicDecrypt([payoutHandle]);
+      const payout = (bobExit.clearValues as Record<string, bigint>)[payoutHandle];
+      expect(await totalValueLocked()).to.equal(ethers.parseEther("1.5") + payout);
+
+      await prismLock
+        .connect(signers.bob)
+        .finalizeWithdrawal(bobStake, bobExit.abiEncodedClearValues, bobExit.decryptionProof);
+      expect(await totalValueLocked()).to.equal(ethers.parseEther("1.5"));
+      expect(await stakeCount(0)).to.equal(0n);
+
+      await prismLock.connect(signers.alice).extendLock(aliceStake, 100n * day);
+      expect(await stakeCount(1)).to.equal(0n);
+      expect(await stakeCount(2)).to.equal(1n);
+
+      await time.increase(100n * day);
+      await prismLock.connect(signers.alice).rolloverStake(aliceStake, 200n * day);
+      const rolledOver = await fhevm.userDecryptEuint(
+        FhevmType.euint128,
+        await prismLock.getEncryptedAmount(aliceStake),
+        await prismLock.getAddress(),
+        signers.alice,
+      );
+      expect(await totalValueLocked()).to.equal(rolledOver);
+      expect(await stakeCount(2)).to.equal(0n);
+      expect(await stakeCount(3)).to.equal(1n);
+
+      await time.increase(200n * day);
+      await prismLock.connect(signers.alice).requestWithdrawal(aliceStake);
+      const aliceExit = await fhevm.publicDecrypt([await prismLock.getEncryptedAmount(aliceStake)]);
+      await prismLock
+        .connect(signers.alice)
+        .finalizeWithdrawal(aliceStake, aliceExit.abiEncodedClearValues, aliceExit.decryptionProof);
+      expect(await totalValueLocked()).to.equal(0n);
+      expect(await stakeCount(3)).to.equal(0n);
+    });
+
+    it("removes the principal share of each vesting tranche from the value locked", async function () {
+      const { prismLock, settings } = await deployFixture();
+      const { stats, statsAddress } = await deployStatsFixture(settings);
+      const totalValueLocked = async () =>
+        fhevm.userDecryptEuint(FhevmType.euint128, await stats.getTotalValueLocked(), statsAddress, signers.deployer);
+      const stakeValue = ethers.parseEther("9");
+      const claim = async (stakeId: bigint) => {
+        const receipt = await (await prismLock.connect(signers.alice).requestVestedClaim(stakeId)).wait();
+        const decryption = await fhevm.publicDecrypt([
+          (await prismLock.getStakeSummary(stakeId)).encryptedPendingClaim,
+        ]);
+        await prismLock
+          .connect(signers.alice)
+          .finalizeVestedClaim(stakeId, decryption.abiEncodedClearValues, decryption.decryptionProof);
+        return BigInt((await receipt!.getBlock()).timestamp);
+      };
+
+      await prismLock.connect(signers.deployer).fundRewards({ value: ethers.parseEther("1") });
+      await prismLock
+        .connect(signers.alice)
+        .stakeVesting(30n * day, 90n * day, ethers.ZeroAddress, { value: stakeValue });
+      const [stakeId] = await prismLock.getStakeIds(signers.alice.address);
+      const { startTimestamp } = await prismLock.getStakeSummary(stakeId);
+      expect(await totalValueLocked()).to.equal(stakeValue);
+
+      await time.increaseTo(startTimestamp + 45n * day);
+      await fhevm.initializeCLIApi();
+      const requestedAt = await claim(stakeId);
+      expect(await totalValueLocked()).to.equal(
+        stakeValue - (stakeValue * (requestedAt - startTimestamp)) / (90n * day),
+      );
+
+      await time.increase(45n * day);
+      await claim(stakeId);
+      expect(await totalValueLocked()).to.equal(0n);
+    });
+
+    it("leaves stakes opened before the current stats contract out of its aggregates", async function () {
+      const { prismLock, settings } = await deployFixture();
+      const withdraw = async (signer: HardhatEthersSigner, stakeId: bigint) => {
+        await prismLock.connect(signer).requestWithdrawal(stakeId);
+        const exit = await fhevm.publicDecrypt([await prismLock.getEncryptedAmount(stakeId)]);
+        await prismLock.connect(signer).finalizeWithdrawal(stakeId, exit.abiEncodedClearValues, exit.decryptionProof);
+      };
+
+      await prismLock.connect(signers.alice).stake(10n * day, ethers.ZeroAddress, { value: ethers.parseEther("1") });
+      const [aliceStake] = await prismLock.getStakeIds(signers.alice.address);
+      const { stats, statsAddress } = await deployStatsFixture(settings);
+      await prismLock.connect(signers.bob).stake(10n * day, ethers.ZeroAddress, { value: ethers.parseEther("2") });
+      const [bobStake] = await prismLock.getStakeIds(signers.bob.address);
+
+      await time.increase(10n * day);
+      await fhevm.initializeCLIApi();
+      await withdraw(signers.alice, aliceStake);
+      const totalValueLocked = await fhevm.userDecryptEuint(
+        FhevmType.euint128,
+        await stats.getTotalValueLocked(),
+        statsAddress,
+        signers.deployer,
+      );
+      expect(totalValueLocked).to.equal(ethers.parseEther("2"));
+      const stakeCount = await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        await stats.getStakeCount(0),
+        statsAddress,
+        signers.deployer,
+      );
+      expect(stakeCount).to.equal(1n);
+
+      const { stats: replacement } = await deployStatsFixture(settings);
+      await withdraw(signers.bob, bobStake);
+      expect(await replacement.getTotalValueLocked()).to.equal(ethers.ZeroHash);
+      expect(await replacement.getStakeCount(0)).to.equal(ethers.ZeroHash);
+    });
+
+    it("reveals the total at most once a day, on request of the owner or the revealer", async function () {
+      const { prismLock, settings } = await deployFixture();
+      const { stats } = await deployStatsFixture(settings);
+      await prismLock.connect(signers.alice).stake(30n * day, ethers.ZeroAddress, { value: ethers.parseEther("1") });
+
+      await expect(stats.connect(signers.bob).requestReveal()).to.be.revertedWithCustomError(stats, "NotAuthorized");
+      await expect(stats.connect(signers.bob).setRevealer(signers.bob.address)).to.be.revertedWithCustomError(
+        stats,
+        "NotAuthorized",
+      );
+      await expect(stats.connect(signers.bob).finalizeReveal("0x", "0x")).to.be.revertedWithCustomError(
+        stats,
+        "NoRevealPending",
+      );
+      await expect(stats.connect(signers.deployer).setRevealer(signers.bob.address))
+        .to.emit(stats, "RevealerUpdated")
+        .withArgs(signers.bob.address);
+
+      await expect(stats.connect(signers.bob).requestReveal()).to.emit(stats, "RevealRequested");
+      const snapshotTimestamp = BigInt(await time.latest());
+      await prismLock.connect(signers.alice).stake(30n * day, ethers.ZeroAddress, { value: ethers.parseEther("2") });
+
+      await fhevm.initializeCLIApi();
+      const publicDecryption = await fhevm.publicDecrypt([await stats.getPendingReveal()]);
+      await expect(
+        stats
+          .connect(signers.alice)
+          .finalizeReveal(publicDecryption.abiEncodedClearValues, publicDecryption.decryptionProof),
+      )
+        .to.emit(stats, "TotalValueLockedRevealed")
+        .withArgs(ethers.parseEther("1"), snapshotTimestamp);
+      expect(await stats.revealedTotalValueLocked()).to.equal(ethers.parseEther("1"));
+      expect(await stats.revealedAt()).to.equal(snapshotTimestamp);
+      expect(await stats.getPendingReveal()).to.equal(ethers.ZeroHash);
+
+      await expect(stats.connect(signers.deployer).requestReveal()).to.be.revertedWithCustomError(
+        stats,
+        "RevealTooSoon",
+      );
+      await time.increase(day);
+      await stats.connect(signers.deployer).requestReveal();
+
+      await expect(stats.connect(signers.alice).recordStake.staticCall(day, true)).to.be.revertedWithCustomError(
+        stats,
+        "NotPrismLock",
+      );
+    });
+  });
+
+  describe("attestations", function () {
+    const day = 24n * 60n * 60n;
+
+    async function attest(
+      attestations: PrismLockAttestations,
+      signer: HardhatEthersSigner,
+      threshold: bigint,
+      expiry: bigint,
+    ) {
+      const receipt = await (await attestations.connect(signer).requestAttestation(threshold, expiry)).wait();
+      const requested = receipt!.logs
+        .map((log) => attestations.interface.parseLog(log))
+        .find((event) => event?.name === "AttestationRequested");
+      const attestationId: bigint = requested!.args.attestationId;
+
+      await fhevm.initializeCLIApi();
+      const publicDecryption = await fhevm.publicDecrypt([requested!.args.encryptedResult]);
+      await expect(
+        attestations
+          .connect(signers.bob)
+          .finalizeAttestation(attestationId, publicDecryption.abiEncodedClearValues, publicDecryption.decryptionProof),
+      )
+        .to.emit(attestations, "AttestationIssued")
+        .withArgs(attestationId, signer.address, threshold, expiry, anyValue);
+      return attestationId;
+    }
+
+    it("attests a locked amount above the threshold until it expires", async function () {
+      const { prismLock, attestations } = await deployFixture();
+      await prismLock.connect(signers.alice).stake(30n * day, ethers.ZeroAddress, { value: ethers.parseEther("1") });
+      await prismLock.connect(signers.alice).stake(20n * day, ethers.ZeroAddress, { value: ethers.parseEther("1") });
+      const expiry = BigInt(await time.latest()) + 10n * day;
+
+      const attestationId = await attest(attestations, signers.alice, ethers.parseEther("1.5"), expiry);
+      const attestation = await attestations.getAttestation(attestationId);
+      expect(attestation.user).to.equal(signers.alice.address);
+      expect(attestation.threshold).to.equal(ethers.parseEther("1.5"));
+      expect(attestation.expiry).to.equal(expiry);
+      expect(attestation.finalized).to.equal(true);
+      expect(attestation.result).to.equal(true);
+      expect(await attestations.isAttestationValid(attestationId)).to.equal(true);
+
+      await expect(
+        attestations.connect(signers.bob).finalizeAttestation(attestationId, "0x", "0x"),
+      ).to.be.revertedWithCustomError(attestations, "AttestationAlreadyFinalized");
+
+      await time.increaseTo(expiry);
+      expect(await attestations.isAttestationValid(attestationId)).to.equal(false);
+    });
+
+    it("only counts stakes locked until the expiry and rejects thresholds above them", async function () {
+      const { prismLock, attestations } = await deployFixture();
+      await prismLock.connect(signers.alice).stake(30n * day, ethers.ZeroAddress, { value: ethers.parseEther("1") });
+      await prismLock.connect(signers.alice).stake(2n * day, ethers.ZeroAddress, { value: ethers.parseEther("5") });
+      const expiry = BigInt(await time.latest()) + 10n * day;
+
+      const shortLockCounted = await attest(attestations, signers.alice, ethers.parseEther("2"), expiry);
+      expect((await attestations.getAttestation(shortLockCounted)).result).to.equal(false);
+      expect(await attestations.isAttestationValid(shortLockCounted)).to.equal(false);
+
+      const coveredByLongLock = await attest(attestations, signers.alice, ethers.parseEther("1"), expiry);
+      expect(await attestations.isAttestationValid(coveredByLongLock)).to.equal(true);
+
+      await expect(
+        attestations.connect(signers.alice).requestAttestation(1n, await time.latest()),
+      ).to.be.revertedWithCustomError(attestations, "InvalidAttestation");
+      await expect(attestations.finalizeAttestation(99n, "0x", "0x")).to.be.revertedWithCustomError(
+        attestations,
+        "AttestationNotFound",
+      );
+    });
+
+    it("counts private-duration stakes with their hidden unlock time", async function () {
+      const { prismLock, attestations, balances, address } = await deployFixture();
+      await balances.connect(signers.alice).deposit({ value: ethers.parseEther("1") });
+      const input = await fhevm
+        .createEncryptedInput(address, signers.alice.address)
+        .add128(ethers.parseEther("1"))
+        .add64(30n * day)
+        .encrypt();
+      await prismLock
+        .connect(signers.alice)
+        .stakePrivate(input.handles[0], input.handles[1], input.inputProof, ethers.ZeroAddress);
+      const expiry = BigInt(await time.latest()) + 10n * day;
+
+      const attestationId = await attest(attestations, signers.alice, ethers.parseEther("1"), expiry);
+      expect(await attestations.isAttestationValid(attestationId)).to.equal(true);
+    });
+
+    it("invalidates attestations once their subject exits a stake early", async function () {
+      const { prismLock, attestations } = await deployFixture();
+      await prismLock.connect(signers.alice).stake(30n * day, ethers.ZeroAddress, { value: ethers.parseEther("1") });
+      const [stakeId] = await prismLock.getStakeIds(signers.alice.address);
+      const expiry = BigInt(await time.latest()) + 10n * day;
+
+      const attestationId = await attest(attestations, signers.alice, ethers.parseEther("1"), expiry);
+      expect(await attestations.isAttestationValid(attestationId)).to.equal(true);
+
+      await prismLock.connect(signers.alice).earlyWithdraw(stakeId);
+      expect(await attestations.isAttestationValid(attestationId)).to.equal(false);
+    });
+  });
+
+  describe("administration", function () {
+    const day = 24n * 60n * 60n;
+
+    it("restricts every configuration change to the owner and emits an event for each", async function () {
+      const { prismLock, settings } = await deployFixture();
+      const admin = settings.connect(signers.deployer);
+      const outsider = settings.connect(signers.alice);
+
+      for (const call of [
+        outsider.setLockDurationBounds(day, 30n * day),
+        outsider.setStakeAmountBounds(1n, 2n),
+        outsider.setStakingPaused(true),
+        outsider.setEmergencyMode(true),
+      ]) {
+        await expect(call)
+          .to.be.revertedWithCustomError(settings, "OwnableUnauthorizedAccount")
+          .withArgs(signers.alice.address);
+      }
+
+      await expect(admin.setLockDurationBounds(2n * day, 30n * day))
+        .to.emit(settings, "LockDurationBoundsUpdated")
+        .withArgs(2n * day, 30n * day);
+      await expect(admin.setStakeAmountBounds(1n, 2n)).to.emit(settings, "StakeAmountBoundsUpdated").withArgs(1n, 2n);
+      await expect(admin.setStakingPaused(true)).to.emit(settings, "StakingPausedUpdated").withArgs(true);
+      await expect(admin.setEmergencyMode(true)).to.emit(settings, "EmergencyModeUpdated").withArgs(true);
+
+      await expect(admin.setLockDurationBounds(0n, day)).to.be.revertedWithCustomError(settings, "InvalidBounds");
+      await expect(admin.setLockDurationBounds(2n * day, day)).to.be.revertedWithCustomError(settings, "InvalidBounds");
+      await expect(admin.setStakeAmountBounds(2n, 1n)).to.be.revertedWithCustomError(settings, "InvalidBounds");
+
+      expect(await prismLock.minLockDuration()).to.equal(2n * day);
+      expect(await prismLock.maxLockDuration()).to.equal(30n * day);
+      expect(await prismLock.minStakeAmount()).to.equal(1n);
+      expect(await prismLock.maxStakeAmount()).to.equal(2n);
+      expect(await prismLock.stakingPaused()).to.equal(true);
+      expect(await prismLock.emergencyMode()).to.equal(true);
+    });
+
+    it("applies duration and size bounds and the pause switch to new stakes", async function () {
+      const { prismLock, balances, settings, address } = await deployFixture();
+      const alice = prismLock.connect(signers.alice);
+      const min = ethers.parseEther("0.5");
+      const max = ethers.parseEther("2");
+
+      await settings.connect(signers.deployer).setLockDurationBounds(7n * day, 30n * day);
+      await settings.connect(signers.deployer).setStakeAmountBounds(min, max);
+
+      await expect(alice.stake(day, ethers.ZeroAddress, { value: min })).to.be.revertedWithCustomError(
+        prismLock,
+        "InvalidLockDuration",
+      );
+      await expect(
+        alice.stake(7n * day, ethers.ZeroAddress, { value: ethers.parseEther("0.1") }),
+      ).to.be.revertedWithCustomError(prismLock, "InvalidStakeAmount");
+      await expect(
+        alice.stake(7n * day, ethers.ZeroAddress, { value: ethers.parseEther("3") }),
+      ).to.be.revertedWithCustomError(prismLock, "StakeAmountTooLarge");
+      await alice.stake(7n * day, ethers.ZeroAddress, { value: min });
+      const [stakeId] = await prismLock.getStakeIds(signers.alice.address);
+      await expect(alice.extendLock(stakeId, 60n * day)).to.be.revertedWithCustomError(
+        prismLock,
+        "InvalidLockDuration",
+      );
+
+      await balances.connect(signers.alice).deposit({ value: ethers.parseEther("5") });
+      const input = await fhevm
+        .createEncryptedInput(address, signers.alice.address)
+        .add128(ethers.parseEther("3"))
+        .encrypt();
+      await alice.stakeShielded(input.handles[0], input.inputProof, 7n * day, ethers.ZeroAddress);
+      const [, shieldedId] = await prismLock.getStakeIds(signers.alice.address);
+      const allocated = await fhevm.userDecryptEuint(
+        FhevmType.euint128,
+        await prismLock.getEncryptedAmount(shieldedId),
+        address,
+        signers.alice,
+      );
+      expect(allocated).to.equal(0n);
+
+      await settings.connect(signers.deployer).setStakingPaused(true);
+      await expect(alice.stake(7n * day, ethers.ZeroAddress, { value: min })).to.be.revertedWithCustomError(
+        prismLock,
+        "StakingIsPaused",
+      );
+      await expect(alice.increaseStake(stakeId, { value: min })).to.be.revertedWithCustomError(
+        prismLock,
+        "StakingIsPaused",
+      );
+
+      await settings.connect(signers.deployer).setStakingPaused(false);
+      await alice.increaseStake(stakeId, { value: min });
+    });
+
+    it("releases the principal without waiting for the lock in emergency mode", async function () {
+      const { prismLock, settings, address } = await deployFixture();
+      const { token, tokenAddress } = await deployTokenFixture();
+      const stakeValue = ethers.parseEther("1");
+
+      await prismLock.connect(signers.deployer).fundRewards({ value: ethers.parseEther("1") });
+      await prismLock.connect(signers.alice).stake(365n * day, ethers.ZeroAddress, { value: stakeValue });
+      const [stakeId] = await prismLock.getStakeIds(signers.alice.address);
+
+      await token.mint(signers.alice.address, 1_000n);
+      await token.connect(signers.alice).setOperator(address, (await time.latest()) + 3600);
+      await settings.connect(signers.deployer).setTokenAllowed(tokenAddress, true);
+      const input = await fhevm.createEncryptedInput(address, signers.alice.address).add64(1_000n).encrypt();
+      await prismLock
+        .connect(signers.alice)
+        .stakeToken(tokenAddress, input.handles[0], input.inputProof, 365n * day, ethers.ZeroAddress);
+      const [, tokenStakeId] = await prismLock.getStakeIds(signers.alice.address);
+
+      await expect(prismLock.connect(signers.alice).emergencyWithdraw(stakeId)).to.be.revertedWithCustomError(
+        prismLock,
+        "EmergencyModeInactive",
+      );
+      await settings.connect(signers.deployer).setEmergencyMode(true);
+      await expect(prismLock.connect(signers.bob).emergencyWithdraw(stakeId)).to.be.revertedWithCustomError(
+        prismLock,
+        "NotStakeOwner",
+      );
+
+      await expect(prismLock.connect(signers.alice).emergencyWithdraw(stakeId)).to.emit(
+        prismLock,
+        "EmergencyWithdrawalRequested",
+      );
+      const handle = await prismLock.getEncryptedAmount(stakeId);
+      await fhevm.initializeCLIApi();
+      const publicDecryption = await fhevm.publicDecrypt([handle]);
+      await expect(
+        prismLock
+          .connect(signers.alice)
+          .finalizeWithdrawal(stakeId, publicDecryption.abiEncodedClearValues, publicDecryption.decryptionProof),
+      ).to.changeEtherBalances([signers.alice, prismLock], [stakeValue, -stakeValue]);
+
+      const pool = await fhevm.userDecryptEuint(
+        FhevmType.euint128,
+        await prismLock.getRewardPool(),
+        address,
+        signers.deployer,
+      );
+      expect(pool).to.equal(ethers.parseEther("1"));
+
+      await prismLock.connect(signers.alice).withdrawToken(tokenStakeId);
+      const balanceHandle = await token.confidentialBalanceOf(signers.alice.address);
+      const balance = await fhevm.userDecryptEuint(FhevmType.euint64, balanceHandle, tokenAddress, signers.alice);
+      expect(balance).to.equal(1_000n);
+    });
+  });
+
+  describe("upgrades", function () {
+    const day = 24n * 60n * 60n;
+
+    it("keeps encrypted stakes, ACL grants and balances through a proxy upgrade", async function () {
+      await deployments.run(["PrismLock"], { writeDeploymentsToFiles: false });
+      const { address } = await deployments.get("PrismLock");
+      const prismLock = PrismLock__factory.connect(address, signers.deployer);
+      const balances = PrismLockBalances__factory.connect(address, signers.deployer);
+      const stakeValue = ethers.parseEther("2");
+
+      await expect(prismLock.initialize.staticCall(signers.alice.address)).to.be.revertedWithCustomError(
+        prismLock,
+        "InvalidInitialization",
+      );
+
+      await prismLock.connect(signers.deployer).fundRewards({ value: ethers.parseEther("1") });
+      await prismLock.connect(signers.alice).stake(90n * day, signers.bob.address, { value: stakeValue });
+      await balances.connect(signers.bob).deposit({ value: ethers.parseEther("3") });
+      const [stakeId] = await prismLock.getStakeIds(signers.alice.address);
+      const summaryBefore = await prismLock.getStakeSummary(stakeId);
+      const balanceHandleBefore = await balances.getShieldedBalance(signers.bob.address);
+      const ethBefore = await ethers.provider.getBalance(address);
+      const implementationBefore = (await deployments.get("PrismLock_Implementation")).address;
+
+      await run("task:upgrade", { implementation: "PrismLockUpgradeMock" });
+
+      expect((await deployments.get("PrismLock_Implementation")).address).to.not.equal(implementationBefore);
+      const upgraded = (await ethers.getContractAt("PrismLockUpgradeMock", address)) as unknown as PrismLockUpgradeMock;
+      await upgraded.markUpgraded();
+      expect(await upgraded.upgradeCount()).to.equal(1n);
+
+      expect(await upgraded.owner()).to.equal(signers.deployer.address);
+      expect(await upgraded.maxLockDuration()).to.equal(365n * day);
+      expect(await ethers.provider.getBalance(address)).to.equal(ethBefore);
+      expect(await upgraded.getStakeSummary(stakeId)).to.deep.equal(summaryBefore);
+      expect(await balances.getShieldedBalance(signers.bob.address)).to.equal(balanceHandleBefore);
+
+      const amount = await fhevm.userDecryptEuint(FhevmType.euint128, summaryBefore[0], address, signers.alice);
+      expect(amount).to.equal(stakeValue);
+      const reward = await fhevm.userDecryptEuint(FhevmType.euint128, summaryBefore[8], address, signers.alice);
+      expect(reward).to.equal(ethers.parseEther("0.04"));
+      const balance = await fhevm.userDecryptEuint(FhevmType.euint128, balanceHandleBefore, address, signers.bob);
+      expect(balance).to.equal(ethers.parseEther("3"));
+
+      await time.increase(90n * day);
+      await upgraded.connect(signers.alice).requestWithdrawal(stakeId);
+      const handle = await upgraded.getEncryptedAmount(stakeId);
+      await fhevm.initializeCLIApi();
+      const publicDecryption = await fhevm.publicDecrypt([handle]);
+      const payout = stakeValue + ethers.parseEther("0.04");
+      await expect(
+        upgraded
+          .connect(signers.alice)
+          .finalizeWithdrawal(stakeId, publicDecryption.abiEncodedClearValues, publicDecryption.decryptionProof),
+      ).to.changeEtherBalances([signers.bob, upgraded], [payout, -payout]);
+    });
+
+    async function storageLayout(name: string): Promise<StorageLayout> {
+      const artifact = await artifacts.readArtifact(name);
+      const buildInfo = await artifacts.getBuildInfo(`${artifact.sourceName}:${artifact.contractName}`);
+      const output = buildInfo!.output.contracts[artifact.sourceName][artifact.contractName];
+      return (output as unknown as { storageLayout: StorageLayout }).storageLayout;
+    }
+
+    it("lays out every module's storage exactly like the vault it runs on", async function () {
+      const vault = await storageLayout("PrismLock");
+      const slots = (layout: StorageLayout) =>
+        layout.storage.map((entry) => `${entry.label}@${entry.slot}:${entry.offset}`);
+
+      for (const name of ["PrismLockAttestations", "PrismLockBalances", "PrismLockSettings"]) {
+        const moduleLayout = await storageLayout(name);
+        expect(slots(moduleLayout), name).to.deep.equal(slots(vault));
+        expect(findStorageLayoutConflicts(vault, moduleLayout), name).to.deep.equal([]);
+        expect(findStorageLayoutConflicts(moduleLayout, vault), name).to.deep.equal([]);
+      }
+    });
+
+    it("accepts structs moved into the shared storage base but rejects reordered members", async function () {
+      const current = await storageLayout("PrismLock");
+      // Before the storage base existed, PrismLock declared the same structs itself
+      const previous = JSON.parse(
+        JSON.stringify(current).replace(/struct PrismLockStorage\./g, "struct PrismLock."),
+      ) as StorageLayout;
+      expect(findStorageLayoutConflicts(previous, current)).to.deep.equal([]);
+
+      const reordered = JSON.parse(JSON.stringify(current)) as StorageLayout;
+      const stakeData = Object.values(reordered.types ?? {}).find((type) => type.label.endsWith(".StakeData"));
+      const [first, second] = stakeData!.members!;
+      [first.label, second.label] = [second.label, first.label];
+      expect(findStorageLayoutConflicts(previous, reordered)).to.include(
+        "struct StakeData.encryptedAmount: euint128 at slot 0 is now encryptedReward: euint128",
+      );
+    });
+
+    it("keeps attestations recorded through the module across a proxy upgrade", async function () {
+      await deployments.run(["PrismLock"], { writeDeploymentsToFiles: false });
+      const { address } = await deployments.get("PrismLock");
+      const prismLock = PrismLock__factory.connect(address, signers.deployer);
+      const attestations = PrismLockAttestations__factory.connect(address, signers.deployer);
+      await prismLock.connect(signers.alice).stake(30n * day, ethers.ZeroAddress, { value: ethers.parseEther("1") });
+      const expiry = BigInt(await time.latest()) + 10n * day;
+
+      await attestations.connect(signers.alice).requestAttestation(ethers.parseEther("1"), expiry);
+      await fhevm.initializeCLIApi();
+      const publicDecryption = await fhevm.publicDecrypt([(await attestations.getAttestation(1n)).encryptedResult]);
+      await attestations.finalizeAttestation(
+        1n,
+        publicDecryption.abiEncodedClearValues,
+        publicDecryption.decryptionProof,
+      );
+      const attestationBefore = await attestations.getAttestation(1n);
+
+      await run("task:upgrade", { implementation: "PrismLockUpgradeMock" });
+
+      expect(await attestations.getAttestation(1n)).to.deep.equal(attestationBefore);
+      expect(await attestations.isAttestationValid(1n)).to.equal(true);
+      await expect(attestations.connect(signers.alice).requestAttestation(1n, expiry))
+        .to.emit(attestations, "AttestationRequested")
+        .withArgs(2n, signers.alice.address, 1n, expiry, anyValue);
+    });
+  });
+
+  describe("event indexer", function () {
+    const duration = 2n * 24n * 60n * 60n;
+
+    it("replays stake lifecycles and re-scans the safety window after a reorg", async function () {
+      const { prismLock, address } = await deployFixture();
+      const startBlock = await ethers.provider.getBlockNumber();
+
+      await prismLock.connect(signers.alice).stake(duration, ethers.ZeroAddress, { value: ethers.parseEther("1") });
+      await prismLock.connect(signers.bob).stake(duration, ethers.ZeroAddress, { value: ethers.parseEther("1") });
+      const [stakeId] = await prismLock.getStakeIds(signers.alice.address);
+      await time.increase(duration + 1n);
+      await prismLock.connect(signers.alice).requestWithdrawal(stakeId);
+      const handle = await prismLock.getEncryptedAmount(stakeId);
+      await fhevm.initializeCLIApi();
+      const publicDecryption = await fhevm.publicDecrypt([handle]);
+      const finalizeTx = await prismLock
+        .connect(signers.alice)
+        .finalizeWithdrawal(stakeId, publicDecryption.abiEncodedClearValues, publicDecryption.decryptionProof);
+
+      const store: IndexerStore = {
+        chainId: 31337,
+        contract: address,
+        startBlock,
+        lastIndexedBlock: startBlock - 1,
+        events: [],
+      };
+      expect(await syncStakeEvents(prismLock, ethers.provider, store, { batchSize: 2 })).to.equal(4);
+
+      const [lifecycle, ...others] = stakeHistory(store, signers.alice.address);
+      expect(others).to.have.length(0);
+      expect(lifecycle.stakeId).to.equal(stakeId.toString());
+      expect(lifecycle.closed).to.equal(true);
+      expect(lifecycle.events.map((event) => event.name)).to.deep.equal([
+        "StakeCreated",
+        "WithdrawalRequested",
+        "WithdrawalFinalized",
+      ]);
+      const finalized = lifecycle.events[2];
+      expect(finalized.transactionHash).to.equal(finalizeTx.hash);
+      expect(finalized.args.amount).to.equal(ethers.parseEther("1").toString());
+      expect(finalized.timestamp).to.be.greaterThan(lifecycle.events[0].timestamp);
+
+      // An event from an orphaned block inside the window is dropped and the canonical logs are indexed once
+      store.events.push({ ...finalized, stakeId: "99", transactionHash: ethers.ZeroHash });
+      expect(await syncStakeEvents(prismLock, ethers.provider, store, { safetyWindow: 3 })).to.equal(2);
+      expect(store.events).to.have.length(4);
+      expect(stakeHistory(store, signers.alice.address)).to.have.length(1);
+    });
+
+    it("closes a transferred stake for the previous owner and opens it for the new one", async function () {
+      const { prismLock, settings, address } = await deployFixture();
+      const { receipts } = await deployReceiptsFixture(settings);
+      const startBlock = await ethers.provider.getBlockNumber();
+
+      await prismLock.connect(signers.alice).stake(duration, ethers.ZeroAddress, { value: ethers.parseEther("1") });
+      const [stakeId] = await prismLock.getStakeIds(signers.alice.address);
+      await receipts.connect(signers.alice).transferFrom(signers.alice.address, signers.bob.address, stakeId);
+      await prismLock.connect(signers.bob).increaseStake(stakeId, { value: ethers.parseEther("1") });
+
+      const store: IndexerStore = {
+        chainId: 31337,
+        contract: address,
+        startBlock,
+        lastIndexedBlock: startBlock - 1,
+        events: [],
+      };
+      await syncStakeEvents(prismLock, ethers.provider, store);
+
+      const [previous] = stakeHistory(store, signers.alice.address);
+      expect(previous.closed).to.equal(true);
+      expect(previous.events.map((event) => event.name)).to.deep.equal(["StakeCreated", "StakeTransferred"]);
+
+      const [current, ...others] = stakeHistory(store, signers.bob.address);
+      expect(others).to.have.length(0);
+      expect(current.stakeId).to.equal(stakeId.toString());
+      expect(current.owner).to.equal(signers.bob.address);
+      expect(current.closed).to.equal(false);
+      expect(current.events.map((event) => event.name)).to.deep.equal(["StakeTransferred", "StakeIncreased"]);
+      expect(current.events[0].user).to.equal(signers.alice.address);
+    });
+  });
+
   it("allows withdrawing once the public decryption proof is provided", async function () {
     const { prismLock } = await deployFixture();
     const stakeValue = ethers.parseEther("2");
     const duration = 2 * 24 * 60 * 60;
 
-    await prismLock.connect(signers.alice).stake(duration, { value: stakeValue });
+    await prismLock.connect(signers.alice).stake(duration, ethers.ZeroAddress, { value: stakeValue });
+    await prismLock.connect(signers.alice).stake(duration * 3, ethers.ZeroAddress, { value: ethers.parseEther("1") });
+    const [firstId, secondId] = await prismLock.getStakeIds(signers.alice.address);
+
     await time.increase(duration + 1);
-    await prismLock.connect(signers.alice).requestWithdrawal();
+    await prismLock.connect(signers.alice).requestWithdrawal(firstId);
 
-    const handle = await prismLock.getEncryptedAmount(signers.alice.address);
+    const handle = await prismLock.getEncryptedAmount(firstId);
     await fhevm.initializeCLIApi();
     const publicDecryption = await fhevm.publicDecrypt([handle]);
 
     await expect(
       prismLock
         .connect(signers.alice)
-        .finalizeWithdrawal(publicDecryption.abiEncodedClearValues, publicDecryption.decryptionProof),
+        .finalizeWithdrawal(firstId, publicDecryption.abiEncodedClearValues, publicDecryption.decryptionProof),
     ).to.changeEtherBalances([signers.alice, prismLock], [stakeValue, -stakeValue]);
+
+    expect(await prismLock.getStakeIds(signers.alice.address)).to.deep.equal([secondId]);
+    expect((await prismLock.getStakeSummary(firstId))[5]).to.equal(false);
+    expect(await prismLock.hasStake(signers.alice.address)).to.equal(true);
   });
 });